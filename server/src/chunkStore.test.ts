@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { ChunkStore } from './chunkStore';
+import { HttpError } from './httpError';
+
+const ALICE = '00112233aabbccdd';
+const BOB = '99887766ffeeddcc';
+
+function sha256(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+function body(data: Buffer): Readable {
+    return Readable.from([data]);
+}
+
+async function rejection(promise: Promise<unknown>): Promise<HttpError> {
+    try {
+        await promise;
+    } catch (error) {
+        return error as HttpError;
+    }
+    throw new Error('Expected the upload to be refused');
+}
+
+describe('ChunkStore', () => {
+    let dataDir: string;
+
+    beforeEach(async () => {
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sfs-chunk-store-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    test('stores a chunk under its hash and counts it once', async () => {
+        const store = new ChunkStore(dataDir, 1000, 10000);
+        const chunk = Buffer.from('encrypted chunk');
+        const hash = sha256(chunk);
+
+        expect(await store.putChunk(ALICE, hash, body(chunk), chunk.length)).toBe(true);
+        expect(await store.putChunk(ALICE, hash, body(chunk), chunk.length)).toBe(false);
+        expect(await store.listChunks(ALICE)).toEqual([{ hash, size: chunk.length }]);
+        expect(await store.quota(ALICE)).toEqual({ signerId: ALICE, usedBytes: chunk.length, limitBytes: 1000, chunks: 1, manifests: 0 });
+        expect(await store.getChunk(BOB, hash)).toBeNull();
+
+        expect(await store.deleteChunk(ALICE, hash)).toBe(true);
+        expect(await store.deleteChunk(ALICE, hash)).toBe(false);
+        expect((await store.quota(ALICE)).usedBytes).toBe(0);
+    });
+
+    test('refuses bytes that do not match the named hash or the announced length', async () => {
+        const store = new ChunkStore(dataDir, 1000, 10000);
+        const chunk = Buffer.from('encrypted chunk');
+
+        const mismatch = await rejection(store.putChunk(ALICE, sha256(Buffer.from('something else')), body(chunk), chunk.length));
+        expect([mismatch.status, mismatch.message]).toEqual([422, `Uploaded bytes hash to ${sha256(chunk)}, not ${sha256(Buffer.from('something else'))}`]);
+
+        const short = await rejection(store.putChunk(ALICE, sha256(chunk), body(chunk), chunk.length + 1));
+        expect(short.status).toBe(400);
+
+        expect(await store.quota(ALICE)).toMatchObject({ usedBytes: 0, chunks: 0 });
+        expect(await store.listChunks(ALICE)).toEqual([]);
+    });
+
+    test('enforces the per-identity and the node-wide quota', async () => {
+        const store = new ChunkStore(dataDir, 100, 150);
+        const [a, b, c] = ['a', 'b', 'c'].map(fill => Buffer.alloc(80, fill));
+
+        await store.putChunk(ALICE, sha256(a), body(a), a.length);
+        const overQuota = await rejection(store.putChunk(ALICE, sha256(b), body(b), b.length));
+        expect([overQuota.status, overQuota.message]).toEqual([507, 'Quota exceeded: 80 of 100 bytes used']);
+
+        const full = await rejection(store.putChunk(BOB, sha256(c), body(c), c.length));
+        expect([full.status, full.message]).toEqual([507, 'The storage node is full']);
+
+        // Usage already on disk is counted by a freshly started node too
+        const restarted = new ChunkStore(dataDir, 100, 150);
+        expect((await rejection(restarted.putChunk(BOB, sha256(c), body(c), c.length))).message).toBe('The storage node is full');
+    });
+
+    test('concurrent uploads of the same chunk store and count it once', async () => {
+        const store = new ChunkStore(dataDir, 1000, 10000);
+        const chunk = Buffer.alloc(100, 'x');
+        const hash = sha256(chunk);
+
+        const results = await Promise.all([1, 2, 3].map(() => store.putChunk(ALICE, hash, body(chunk), chunk.length)));
+
+        expect(results.filter(created => created)).toHaveLength(1);
+        expect(await store.quota(ALICE)).toMatchObject({ usedBytes: 100, chunks: 1 });
+    });
+
+    test('an upload repairs a stored chunk whose bytes no longer match its hash', async () => {
+        const store = new ChunkStore(dataDir, 1000, 10000);
+        const chunk = Buffer.from('encrypted chunk');
+        const hash = sha256(chunk);
+        await store.putChunk(ALICE, hash, body(chunk), chunk.length);
+
+        // Bit rot: same size, one byte flipped
+        const file = path.join(dataDir, ALICE, 'chunks', hash.substring(0, 2), hash);
+        const damaged = Buffer.from(chunk);
+        damaged[3] ^= 0x01;
+        await fs.writeFile(file, damaged);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        expect(await store.putChunk(ALICE, hash, body(chunk), chunk.length)).toBe(false);
+        expect(Buffer.compare(await fs.readFile(file), chunk)).toBe(0);
+        expect(await store.quota(ALICE)).toMatchObject({ usedBytes: chunk.length, chunks: 1 });
+    });
+
+    test('manifests are replaced in place', async () => {
+        const store = new ChunkStore(dataDir, 1000, 10000);
+        const name = 'abc_manifest.json';
+
+        expect(await store.putManifest(ALICE, name, body(Buffer.from('{"v":1}')), 7)).toBe(true);
+        expect(await store.putManifest(ALICE, name, body(Buffer.from('{"v":22}')), 8)).toBe(false);
+        expect(await store.listManifests(ALICE)).toEqual([name]);
+        expect(await store.quota(ALICE)).toMatchObject({ usedBytes: 8, manifests: 1 });
+    });
+});
@@ -0,0 +1,277 @@
+// server/src/chunkStore.ts - Chunks and manifests on local disk, in one directory per identity
+import { createHash, randomBytes } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import type { StorageNodeChunkInfo, StorageNodeQuota } from '../../src/types/storageNode';
+import { HttpError } from './httpError';
+
+const MAX_MANIFEST_SIZE = 1024 * 1024;   // Manifests are small JSON documents
+
+export interface StoredObject {
+    size: number;
+    open(): Readable;
+}
+
+interface SpaceUsage {
+    bytes: number;
+    chunks: number;
+    manifests: number;
+}
+
+// <dataDir>/<signerId>/chunks/<first 2 hex digits>/<sha256> and <dataDir>/<signerId>/manifests/<name>.
+// Uploads go to a temporary file first and are only renamed into place once they check out.
+// `quotaBytes` limits each identity, `totalQuotaBytes` all of them together.
+export class ChunkStore {
+    private readonly usage = new Map<string, Promise<SpaceUsage>>();
+    private readonly busyFiles = new Map<string, Promise<unknown>>();
+    private totalUsage: Promise<{ bytes: number }> | null = null;
+
+    constructor(private readonly dataDir: string, private readonly quotaBytes: number, private readonly totalQuotaBytes: number) {}
+
+    // Store a chunk under the hash the client named; false if it was already there
+    async putChunk(signerId: string, hash: string, body: Readable, length: number): Promise<boolean> {
+        return this.write(signerId, this.chunkPath(signerId, hash), body, length, 'chunks', hash);
+    }
+
+    // Manifests are replaced in place (the scrub rewrites damaged copies)
+    async putManifest(signerId: string, name: string, body: Readable, length: number): Promise<boolean> {
+        if (length > MAX_MANIFEST_SIZE) {
+            throw new HttpError(413, `Manifests are limited to ${MAX_MANIFEST_SIZE} bytes`);
+        }
+        return this.write(signerId, this.manifestPath(signerId, name), body, length, 'manifests');
+    }
+
+    async getChunk(signerId: string, hash: string): Promise<StoredObject | null> {
+        return this.open(this.chunkPath(signerId, hash));
+    }
+
+    async getManifest(signerId: string, name: string): Promise<StoredObject | null> {
+        return this.open(this.manifestPath(signerId, name));
+    }
+
+    async deleteChunk(signerId: string, hash: string): Promise<boolean> {
+        return this.remove(signerId, this.chunkPath(signerId, hash), 'chunks');
+    }
+
+    async deleteManifest(signerId: string, name: string): Promise<boolean> {
+        return this.remove(signerId, this.manifestPath(signerId, name), 'manifests');
+    }
+
+    async listChunks(signerId: string): Promise<StorageNodeChunkInfo[]> {
+        const chunks: StorageNodeChunkInfo[] = [];
+        const root = path.join(this.space(signerId), 'chunks');
+        for (const shard of await this.readDirectory(root)) {
+            for (const hash of await this.readDirectory(path.join(root, shard))) {
+                if (!/^[0-9a-f]{64}$/.test(hash)) continue;
+                const stats = await fs.stat(path.join(root, shard, hash));
+                chunks.push({ hash, size: stats.size });
+            }
+        }
+        return chunks.sort((a, b) => (a.hash < b.hash ? -1 : 1));
+    }
+
+    async listManifests(signerId: string): Promise<string[]> {
+        const names = await this.readDirectory(path.join(this.space(signerId), 'manifests'));
+        return names.filter(name => !name.startsWith('.')).sort();
+    }
+
+    async quota(signerId: string): Promise<StorageNodeQuota> {
+        const usage = await this.spaceUsage(signerId);
+        return { signerId, usedBytes: usage.bytes, limitBytes: this.quotaBytes, chunks: usage.chunks, manifests: usage.manifests };
+    }
+
+    private async write(
+        signerId: string,
+        target: string,
+        body: Readable,
+        length: number,
+        kind: 'chunks' | 'manifests',
+        hash?: string
+    ): Promise<boolean> {
+        const total = await this.nodeUsage();
+        const usage = await this.spaceUsage(signerId);
+        return this.exclusive(target, () => this.writeFile(total, usage, target, body, length, kind, hash));
+    }
+
+    private async writeFile(
+        total: { bytes: number },
+        usage: SpaceUsage,
+        target: string,
+        body: Readable,
+        length: number,
+        kind: 'chunks' | 'manifests',
+        hash?: string
+    ): Promise<boolean> {
+        const existing = await this.size(target);
+        if (existing !== null && hash) {
+            // Content-addressed: a stored copy that still hashes to its name already has these bytes.
+            // A damaged one is replaced by the upload (this is how the scrub repairs it).
+            if (await this.hashFile(target) === hash) {
+                body.resume();
+                return false;
+            }
+            console.warn(`⚠️ Stored chunk ${hash} is damaged - replacing it with the uploaded copy`);
+        }
+        const growth = length - (existing || 0);
+        if (usage.bytes + growth > this.quotaBytes) {
+            throw new HttpError(507, `Quota exceeded: ${usage.bytes} of ${this.quotaBytes} bytes used`);
+        }
+        if (total.bytes + growth > this.totalQuotaBytes) {
+            throw new HttpError(507, 'The storage node is full');
+        }
+        // Reserved up front, so parallel uploads cannot overshoot the quota together
+        usage.bytes += growth;
+        total.bytes += growth;
+
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        const temp = path.join(path.dirname(target), `.upload-${randomBytes(8).toString('hex')}`);
+        const hasher = createHash('sha256');
+        const file = await fs.open(temp, 'wx');
+        let received = 0;
+
+        try {
+            try {
+                for await (const piece of body) {
+                    received += piece.length;
+                    if (received > length) {
+                        throw new HttpError(400, 'Body is longer than its Content-Length');
+                    }
+                    hasher.update(piece);
+                    await file.write(piece);
+                }
+            } finally {
+                await file.close();
+            }
+            if (received !== length) {
+                throw new HttpError(400, `Expected ${length} bytes, received ${received}`);
+            }
+            const digest = hasher.digest('hex');
+            if (hash && digest !== hash) {
+                throw new HttpError(422, `Uploaded bytes hash to ${digest}, not ${hash}`);
+            }
+            await fs.rename(temp, target);
+        } catch (error) {
+            usage.bytes -= growth;
+            total.bytes -= growth;
+            await fs.unlink(temp).catch(() => undefined);
+            throw error;
+        }
+
+        if (existing === null) usage[kind]++;
+        return existing === null;
+    }
+
+    private async open(file: string): Promise<StoredObject | null> {
+        const size = await this.size(file);
+        return size === null ? null : { size, open: () => createReadStream(file) };
+    }
+
+    private async remove(signerId: string, file: string, kind: 'chunks' | 'manifests'): Promise<boolean> {
+        const total = await this.nodeUsage();
+        const usage = await this.spaceUsage(signerId);
+        return this.exclusive(file, async () => {
+            const size = await this.size(file);
+            if (size === null) {
+                return false;
+            }
+            await fs.unlink(file);
+            usage.bytes -= size;
+            total.bytes -= size;
+            usage[kind]--;
+            return true;
+        });
+    }
+
+    // Requests for the same file run one after the other, so concurrent uploads of a new chunk
+    // cannot both find it missing and both count it
+    private async exclusive<T>(file: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.busyFiles.get(file) || Promise.resolve();
+        const current = previous.then(task);
+        const settled = current.catch(() => undefined);
+        this.busyFiles.set(file, settled);
+        try {
+            return await current;
+        } finally {
+            if (this.busyFiles.get(file) === settled) this.busyFiles.delete(file);
+        }
+    }
+
+    // Counted once per identity on first use (concurrent first requests share the count), then
+    // kept up to date by write() and remove()
+    private spaceUsage(signerId: string): Promise<SpaceUsage> {
+        let usage = this.usage.get(signerId);
+        if (!usage) {
+            usage = this.countUsage(signerId);
+            this.usage.set(signerId, usage);
+            usage.catch(() => this.usage.delete(signerId));
+        }
+        return usage;
+    }
+
+    // Every identity's space, counted before the first change (write() and remove() wait for it)
+    private nodeUsage(): Promise<{ bytes: number }> {
+        if (!this.totalUsage) {
+            this.totalUsage = this.readDirectory(this.dataDir).then(async signerIds => {
+                let bytes = 0;
+                for (const signerId of signerIds.filter(id => /^[0-9a-f]{16}$/.test(id))) {
+                    bytes += (await this.spaceUsage(signerId)).bytes;
+                }
+                return { bytes };
+            });
+            this.totalUsage.catch(() => {
+                this.totalUsage = null;
+            });
+        }
+        return this.totalUsage;
+    }
+
+    private async countUsage(signerId: string): Promise<SpaceUsage> {
+        const chunks = await this.listChunks(signerId);
+        const manifests = await this.listManifests(signerId);
+        let bytes = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+        for (const name of manifests) {
+            bytes += (await this.size(this.manifestPath(signerId, name))) || 0;
+        }
+        return { bytes, chunks: chunks.length, manifests: manifests.length };
+    }
+
+    private async hashFile(file: string): Promise<string> {
+        const hasher = createHash('sha256');
+        for await (const piece of createReadStream(file)) {
+            hasher.update(piece);
+        }
+        return hasher.digest('hex');
+    }
+
+    private async size(file: string): Promise<number | null> {
+        try {
+            return (await fs.stat(file)).size;
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    private async readDirectory(directory: string): Promise<string[]> {
+        try {
+            return await fs.readdir(directory);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    // Signer IDs, hashes and names are validated by the router before they get here
+    private space(signerId: string): string {
+        return path.join(this.dataDir, signerId);
+    }
+
+    private chunkPath(signerId: string, hash: string): string {
+        return path.join(this.space(signerId), 'chunks', hash.substring(0, 2), hash);
+    }
+
+    private manifestPath(signerId: string, name: string): string {
+        return path.join(this.space(signerId), 'manifests', name);
+    }
+}
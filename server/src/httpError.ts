@@ -0,0 +1,9 @@
+// server/src/httpError.ts - Failures that map to an HTTP status, reported to the client as StorageNodeError
+
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+        Object.setPrototypeOf(this, HttpError.prototype);
+    }
+}
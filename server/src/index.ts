@@ -0,0 +1,42 @@
+// server/src/index.ts - Start a storage node from environment variables
+//
+//   SFS_NODE_HOST            Interface to listen on (default 127.0.0.1)
+//   SFS_NODE_PORT            Port (default 8787)
+//   SFS_NODE_DATA_DIR        Where chunks are kept (default ./storage-node-data)
+//   SFS_NODE_QUOTA_MB        Space per identity (default 1024)
+//   SFS_NODE_TOTAL_MB        Space for all identities together (default 10240)
+//   SFS_NODE_ALLOWED_SIGNERS Comma-separated signer IDs allowed in (default: any valid key)
+//   SFS_NODE_CORS_ORIGIN     Origin of the web app (default http://localhost:3000, the dev server; * for any)
+import path from 'path';
+import { StorageNode, StorageNodeConfig } from './storageNode';
+
+const env = process.env;
+const config: StorageNodeConfig = {
+    host: env.SFS_NODE_HOST || '127.0.0.1',
+    port: parseInt(env.SFS_NODE_PORT || '8787', 10),
+    dataDir: path.resolve(env.SFS_NODE_DATA_DIR || 'storage-node-data'),
+    quotaBytes: parseFloat(env.SFS_NODE_QUOTA_MB || '1024') * 1024 * 1024,
+    totalQuotaBytes: parseFloat(env.SFS_NODE_TOTAL_MB || '10240') * 1024 * 1024,
+    allowedSigners: (env.SFS_NODE_ALLOWED_SIGNERS || '').split(',').map(id => id.trim()).filter(Boolean),
+    corsOrigin: env.SFS_NODE_CORS_ORIGIN || 'http://localhost:3000'
+};
+
+const node = new StorageNode(config);
+node.listen().then(port => {
+    console.log(`🗄️ Storage node listening on http://${config.host}:${port}`);
+    console.log(`📁 Data in ${config.dataDir}, ${(config.quotaBytes / 1024 / 1024).toFixed(0)} MB per identity, ` +
+        `${(config.totalQuotaBytes / 1024 / 1024).toFixed(0)} MB in total`);
+    console.log(`🌐 Web app origin: ${config.corsOrigin}`);
+    console.log(config.allowedSigners.length > 0
+        ? `🔐 Allowed signers: ${config.allowedSigners.join(', ')}`
+        : '🔐 Any valid signing key may store chunks (each in its own space) - set SFS_NODE_ALLOWED_SIGNERS to restrict it');
+}).catch(error => {
+    console.error('❌ Could not start the storage node:', error);
+    process.exit(1);
+});
+
+const shutdown = () => {
+    node.close().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,179 @@
+// server/src/storageNode.ts - REST API over the chunk store (routes documented in src/types/storageNode.ts)
+import http from 'http';
+import type { StorageNodeChunkList, StorageNodeError, StorageNodeManifestList } from '../../src/types/storageNode';
+import { ChunkStore, StoredObject } from './chunkStore';
+import { HttpError } from './httpError';
+import { TokenVerifier } from './tokenVerifier';
+
+export interface StorageNodeConfig {
+    host: string;              // Interface to listen on - 127.0.0.1 keeps the node local
+    port: number;
+    dataDir: string;
+    quotaBytes: number;        // Per identity
+    totalQuotaBytes: number;   // All identities together
+    allowedSigners: string[];  // Signer IDs allowed in; empty = any valid key
+    corsOrigin: string;        // Origin of the web app allowed to call the node, or *
+}
+
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;   // Above the largest chunk size the web app offers
+const CHUNK_PATH = /^\/v1\/chunks\/([0-9a-f]{64})$/;
+const MANIFEST_PATH = /^\/v1\/manifests\/([\w-]+_(?:manifest|metadata)\.json)$/;
+
+export class StorageNode {
+    private readonly store: ChunkStore;
+    private readonly tokens: TokenVerifier;
+    private readonly server: http.Server;
+
+    constructor(private readonly config: StorageNodeConfig) {
+        this.store = new ChunkStore(config.dataDir, config.quotaBytes, config.totalQuotaBytes);
+        this.tokens = new TokenVerifier(config.allowedSigners);
+        this.server = http.createServer((request, response) => {
+            this.handle(request, response).catch(error => this.fail(response, error));
+        });
+    }
+
+    // Resolves with the port actually bound (config.port 0 picks a free one)
+    listen(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.config.port, this.config.host, () => {
+                const address = this.server.address();
+                resolve(typeof address === 'object' && address ? address.port : this.config.port);
+            });
+        });
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve, reject) => this.server.close(error => (error ? reject(error) : resolve())));
+    }
+
+    private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        this.setCorsHeaders(response);
+        const method = request.method || 'GET';
+        if (method === 'OPTIONS') {
+            // CORS preflight: the browser asks before sending the Authorization header
+            response.writeHead(204).end();
+            return;
+        }
+
+        const signerId = await this.tokens.verify(request.headers.authorization, request.headers.host);
+        const pathname = new URL(request.url || '/', 'http://node').pathname;
+
+        if (pathname === '/v1/quota' && method === 'GET') {
+            this.sendJson(response, 200, await this.store.quota(signerId));
+            return;
+        }
+        if (pathname === '/v1/chunks' && method === 'GET') {
+            const list: StorageNodeChunkList = { chunks: await this.store.listChunks(signerId) };
+            this.sendJson(response, 200, list);
+            return;
+        }
+        if (pathname === '/v1/manifests' && method === 'GET') {
+            const list: StorageNodeManifestList = { manifests: await this.store.listManifests(signerId) };
+            this.sendJson(response, 200, list);
+            return;
+        }
+
+        const chunk = pathname.match(CHUNK_PATH);
+        if (chunk) {
+            const hash = chunk[1];
+            switch (method) {
+                case 'PUT': {
+                    const created = await this.store.putChunk(signerId, hash, request, this.contentLength(request, MAX_CHUNK_SIZE));
+                    response.writeHead(created ? 201 : 200).end();
+                    return;
+                }
+                case 'GET':
+                case 'HEAD':
+                    return this.sendObject(response, method, await this.store.getChunk(signerId, hash), 'application/octet-stream');
+                case 'DELETE':
+                    response.writeHead(await this.store.deleteChunk(signerId, hash) ? 204 : 404).end();
+                    return;
+            }
+            throw new HttpError(405, `${method} is not supported on chunks`);
+        }
+
+        const manifest = pathname.match(MANIFEST_PATH);
+        if (manifest) {
+            const name = manifest[1];
+            switch (method) {
+                case 'PUT': {
+                    const created = await this.store.putManifest(signerId, name, request, this.contentLength(request, MAX_CHUNK_SIZE));
+                    response.writeHead(created ? 201 : 200).end();
+                    return;
+                }
+                case 'GET':
+                case 'HEAD':
+                    return this.sendObject(response, method, await this.store.getManifest(signerId, name), 'application/json');
+                case 'DELETE':
+                    response.writeHead(await this.store.deleteManifest(signerId, name) ? 204 : 404).end();
+                    return;
+            }
+            throw new HttpError(405, `${method} is not supported on manifests`);
+        }
+
+        throw new HttpError(404, `No route for ${method} ${pathname}`);
+    }
+
+    // Uploads must announce their size, so the quota is checked before anything is written
+    private contentLength(request: http.IncomingMessage, limit: number): number {
+        const length = Number(request.headers['content-length']);
+        if (request.headers['content-length'] === undefined || !Number.isSafeInteger(length) || length < 0) {
+            throw new HttpError(411, 'Uploads need a Content-Length');
+        }
+        if (length > limit) {
+            throw new HttpError(413, `Uploads are limited to ${limit} bytes`);
+        }
+        return length;
+    }
+
+    private sendObject(response: http.ServerResponse, method: string, object: StoredObject | null, contentType: string): void {
+        if (!object) {
+            if (method === 'HEAD') {
+                response.writeHead(404).end();
+                return;
+            }
+            throw new HttpError(404, 'Not found');
+        }
+
+        response.writeHead(200, { 'Content-Type': contentType, 'Content-Length': object.size });
+        if (method === 'HEAD') {
+            response.end();
+            return;
+        }
+        const stream = object.open();
+        stream.on('error', error => response.destroy(error));
+        stream.pipe(response);
+    }
+
+    private sendJson(response: http.ServerResponse, status: number, body: object): void {
+        const text = JSON.stringify(body);
+        response.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(text) });
+        response.end(text);
+    }
+
+    private fail(response: http.ServerResponse, error: unknown): void {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) {
+            console.error('❌ Storage node request failed:', error);
+        }
+        if (response.headersSent) {
+            response.destroy();
+            return;
+        }
+        const body: StorageNodeError = { error: status === 500 ? 'Internal error' : (error as HttpError).message };
+        // The client may still be sending a body we refused; don't keep the connection around for it
+        response.setHeader('Connection', 'close');
+        this.sendJson(response, status, body);
+    }
+
+    private setCorsHeaders(response: http.ServerResponse): void {
+        response.setHeader('Access-Control-Allow-Origin', this.config.corsOrigin);
+        response.setHeader('Access-Control-Allow-Methods', 'GET, PUT, HEAD, DELETE, OPTIONS');
+        response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+        response.setHeader('Access-Control-Max-Age', '600');
+        if (this.config.corsOrigin !== '*') {
+            response.setHeader('Vary', 'Origin');
+        }
+    }
+}
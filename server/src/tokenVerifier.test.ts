@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { createHash, webcrypto } from 'crypto';
+import type { StorageNodeTokenClaims } from '../../src/types/storageNode';
+import { HttpError } from './httpError';
+import { TokenVerifier } from './tokenVerifier';
+
+const HOST = 'node.example:8787';
+
+interface TestSigner {
+    keys: webcrypto.CryptoKeyPair;
+    publicKey: string;
+    signerId: string;
+}
+
+async function createSigner(): Promise<TestSigner> {
+    const keys = await webcrypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']) as webcrypto.CryptoKeyPair;
+    const raw = Buffer.from(await webcrypto.subtle.exportKey('raw', keys.publicKey));
+    return {
+        keys,
+        publicKey: `sfs-sig-v1:${raw.toString('base64')}`,
+        signerId: createHash('sha256').update(raw).digest('hex').substring(0, 16)
+    };
+}
+
+// Same format as StorageNodeProvider.authorization()
+async function bearer(signer: TestSigner, overrides: Partial<StorageNodeTokenClaims> = {}, signWith = signer): Promise<string> {
+    const now = Date.now();
+    const claims: StorageNodeTokenClaims = { version: 1, publicKey: signer.publicKey, audience: HOST, issuedAt: now, expiresAt: now + 5 * 60 * 1000, ...overrides };
+    const encodedClaims = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = await webcrypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, signWith.keys.privateKey, Buffer.from(encodedClaims, 'ascii'));
+    return `Bearer ${encodedClaims}.${Buffer.from(signature).toString('base64url')}`;
+}
+
+async function rejection(promise: Promise<unknown>): Promise<HttpError> {
+    try {
+        await promise;
+    } catch (error) {
+        return error as HttpError;
+    }
+    throw new Error('Expected the token to be refused');
+}
+
+describe('TokenVerifier', () => {
+    let signer: TestSigner;
+    let other: TestSigner;
+
+    beforeAll(async () => {
+        signer = await createSigner();
+        other = await createSigner();
+    });
+
+    test('a valid token yields the signer ID the web client shows', async () => {
+        expect(await new TokenVerifier([]).verify(await bearer(signer), HOST)).toBe(signer.signerId);
+        expect(signer.signerId).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    test('refuses expired, long-lived and misaddressed tokens', async () => {
+        const verifier = new TokenVerifier([]);
+        const now = Date.now();
+
+        const expired = await rejection(verifier.verify(await bearer(signer, { issuedAt: now - 600000, expiresAt: now - 120000 }), HOST));
+        expect([expired.status, expired.message]).toEqual([401, 'Token expired or not yet valid']);
+
+        const longLived = await rejection(verifier.verify(await bearer(signer, { expiresAt: now + 60 * 60 * 1000 }), HOST));
+        expect(longLived.message).toMatch(/lifetime exceeds/);
+
+        const elsewhere = await rejection(verifier.verify(await bearer(signer), 'other.example:8787'));
+        expect([elsewhere.status, elsewhere.message]).toEqual([401, `Token is for ${HOST}, not this node`]);
+    });
+
+    test('refuses a token signed by a different key, or altered after signing', async () => {
+        const verifier = new TokenVerifier([]);
+
+        const forged = await rejection(verifier.verify(await bearer(signer, {}, other), HOST));
+        expect([forged.status, forged.message]).toEqual([401, 'Invalid token signature']);
+
+        const [claims, signature] = (await bearer(signer)).substring(7).split('.');
+        const altered = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(claims, 'base64url').toString()), expiresAt: Date.now() + 9 * 60 * 1000 }));
+        const tampered = await rejection(verifier.verify(`Bearer ${altered.toString('base64url')}.${signature}`, HOST));
+        expect(tampered.message).toBe('Invalid token signature');
+
+        expect((await rejection(verifier.verify(undefined, HOST))).status).toBe(401);
+        expect((await rejection(verifier.verify('Bearer nonsense', HOST))).status).toBe(401);
+    });
+
+    test('only allow-listed signers get in when a list is set', async () => {
+        const verifier = new TokenVerifier([signer.signerId]);
+
+        expect(await verifier.verify(await bearer(signer), HOST)).toBe(signer.signerId);
+        const refused = await rejection(verifier.verify(await bearer(other), HOST));
+        expect([refused.status, refused.message]).toEqual([403, `Signer ${other.signerId} is not allowed on this node`]);
+    });
+});
@@ -0,0 +1,67 @@
+// server/src/tokenVerifier.ts - Check the bearer tokens clients sign with their identity (signing) key
+import { createHash, webcrypto } from 'crypto';
+import type { StorageNodeTokenClaims } from '../../src/types/storageNode';
+import { HttpError } from './httpError';
+
+const PUBLIC_KEY_PREFIX = 'sfs-sig-v1:';
+const MAX_LIFETIME = 10 * 60 * 1000;   // Longer-lived tokens are refused
+const CLOCK_SKEW = 60 * 1000;          // Tolerated difference between client and node clocks
+
+export class TokenVerifier {
+    // `allowedSigners` = signer IDs that may use this node; empty = any valid key (each gets its own space)
+    constructor(private readonly allowedSigners: string[]) {}
+
+    // Signer ID of a valid token for this node (`host` is the Host header it was sent to)
+    async verify(authorization: string | undefined, host: string | undefined): Promise<string> {
+        const token = authorization?.startsWith('Bearer ') ? authorization.substring(7).trim() : '';
+        const parts = token.split('.');
+        if (parts.length !== 2 || !parts[0] || !parts[1]) {
+            throw new HttpError(401, 'Missing or malformed bearer token');
+        }
+
+        let claims: StorageNodeTokenClaims;
+        try {
+            claims = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+        } catch (error) {
+            throw new HttpError(401, 'Unreadable token claims');
+        }
+        if (claims.version !== 1 || typeof claims.publicKey !== 'string' || !claims.publicKey.startsWith(PUBLIC_KEY_PREFIX)) {
+            throw new HttpError(401, 'Unsupported token');
+        }
+
+        const now = Date.now();
+        if (!(claims.expiresAt + CLOCK_SKEW > now) || !(claims.issuedAt - CLOCK_SKEW < now)) {
+            throw new HttpError(401, 'Token expired or not yet valid');
+        }
+        if (claims.expiresAt - claims.issuedAt > MAX_LIFETIME) {
+            throw new HttpError(401, `Token lifetime exceeds ${MAX_LIFETIME / 60000} minutes`);
+        }
+        if (!host || claims.audience !== host) {
+            throw new HttpError(401, `Token is for ${claims.audience}, not this node`);
+        }
+
+        const raw = Buffer.from(claims.publicKey.substring(PUBLIC_KEY_PREFIX.length), 'base64');
+        let valid = false;
+        try {
+            const publicKey = await webcrypto.subtle.importKey('raw', raw, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+            valid = await webcrypto.subtle.verify(
+                { name: 'ECDSA', hash: 'SHA-256' },
+                publicKey,
+                Buffer.from(parts[1], 'base64url'),
+                Buffer.from(parts[0], 'ascii')
+            );
+        } catch (error) {
+            valid = false;
+        }
+        if (!valid) {
+            throw new HttpError(401, 'Invalid token signature');
+        }
+
+        // Same fingerprint the web client shows: first 8 bytes of the SHA-256 of the raw point
+        const signerId = createHash('sha256').update(raw).digest('hex').substring(0, 16);
+        if (this.allowedSigners.length > 0 && !this.allowedSigners.includes(signerId)) {
+            throw new HttpError(403, `Signer ${signerId} is not allowed on this node`);
+        }
+        return signerId;
+    }
+}
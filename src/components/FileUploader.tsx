@@ -1,8 +1,15 @@
 import { createTheme, CssBaseline, ThemeProvider } from "@mui/material";
 import React, { useEffect, useState } from 'react';
-import { useFileUploader } from "../hooks/useFileUploader";
-import { FileEncryptionService } from "../services/fileEncryptionService";
+import { CDC_PARAMS, COMPRESSION_CODEC, ERASURE_CODING_OPTIONS } from "../config";
+import { KeyManagementForm, parseRecipientKeys, useFileUploader } from "../hooks/useFileUploader";
+import { EncryptionResult, FileEncryptionService } from "../services/fileEncryptionService";
 import { FileReconstructionService } from "../services/fileReconstructionService";
+import { IpfsUploader } from "../services/ipfsUploader";
+import { S3Settings } from "../services/s3StorageProvider";
+import { SessionManager } from "../services/sessionManager";
+import { SignatureService } from "../services/signatureService";
+import { StorageBackendConfig, StorageProviders } from "../services/storageProviders";
+import { CarFile } from "../utils/carFile";
 import { DownloadManager } from "../utils/downloadManager";
 import { FileUploaderTemplate } from "./FileUploaderTemplate";
 
@@ -48,6 +55,35 @@ export const FileUploader: React.FC = () => {
         initializationMode,
         downloadMethod,
         pendingChunks,
+        erasureMode,
+        compressionEnabled,
+        deduplicationEnabled,
+        chunkingMode,
+        keyDialogMode,
+        keyForm,
+        keyFormError,
+        keyring,
+        uploadKeyId,
+        recoveryPhrase,
+        identityPublicKey,
+        uploadRecipients,
+        bundleFiles,
+        recipientMode,
+        bundlePassphrase,
+        signingEnabled,
+        signingPublicKey,
+        trustedSigners,
+        sessionSettings,
+        lockNotice,
+        keystoreReport,
+        storageSettings,
+        storageManifests,
+        replicationFactor,
+        ipfsApiUrl,
+        scrubReports,
+        scrubSettings,
+        scrubStatus,
+        dedupStats,
         CONSTANTS,
         setIsProcessing,
         setDownloadProgress,
@@ -55,7 +91,37 @@ export const FileUploader: React.FC = () => {
         setPassword,
         setDownloadMethod,
         setPendingChunks,
-        handlePasswordSubmit
+        setErasureMode,
+        setCompressionEnabled,
+        setDeduplicationEnabled,
+        setChunkingMode,
+        setKeyForm,
+        setUploadKeyId,
+        setRecoveryPhrase,
+        setUploadRecipients,
+        setBundleFiles,
+        setBundlePassphrase,
+        setSigningEnabled,
+        setReplicationFactor,
+        handlePasswordSubmit,
+        enterRecipientMode,
+        exitRecipientMode,
+        removeTrustedSigner,
+        lockSession,
+        updateSessionSettings,
+        checkKeystore,
+        updateStorageSettings,
+        getStorageProvider,
+        refreshStorageManifests,
+        updateIpfsApiUrl,
+        runScrub,
+        updateScrubSettings,
+        refreshDedupStats,
+        forgetDedupFiles,
+        collectDedupGarbage,
+        openKeyDialog,
+        closeKeyDialog,
+        handleKeyManagementSubmit
     } = useFileUploader(showNotification);
 
     // Create theme based on dark mode state
@@ -81,37 +147,68 @@ export const FileUploader: React.FC = () => {
 
         setIsProcessing(true);
         setPendingChunks([]);
+        // Aborted if the session locks mid-upload
+        const signal = SessionManager.beginJob();
 
         try {
+            // Streaming targets take each chunk as soon as it is encrypted. In storage, every chunk
+            // goes to the replicas the placement picked and the manifest to every backend.
+            const provider = downloadMethod === 'storage' ? getStorageProvider() : null;
+            let missingCopies = 0;
+            const sendChunk = async (chunk: { blob: Blob; filename: string; replicas?: string[] }) => {
+                if (!provider) {
+                    return DownloadManager.downloadWithDelay(chunk.blob, chunk.filename, 0);
+                }
+                const data = new Uint8Array(await chunk.blob.arrayBuffer());
+                if (!chunk.replicas) {
+                    return provider.put(chunk.filename, data);
+                }
+                const stored = await provider.putReplicas(chunk.filename, data, chunk.replicas);
+                missingCopies += chunk.replicas.length - stored.length;
+            };
+
             // Use the generator for streaming processing
             const generator = FileEncryptionService.encryptFileGenerator(
                 file,
                 CONSTANTS.CHUNK_SIZE,
-                setDownloadProgress
+                setDownloadProgress,
+                {
+                    erasureCoding: ERASURE_CODING_OPTIONS[erasureMode],
+                    compression: compressionEnabled ? COMPRESSION_CODEC : 'none',
+                    contentDefinedChunking: chunkingMode === 'cdc' ? CDC_PARAMS : null,
+                    deduplicate: deduplicationEnabled,
+                    // Backends and CAR files get every chunk, not only the ones new to this browser
+                    emitDeduplicated: !!provider || downloadMethod === 'car',
+                    keyId: uploadKeyId || undefined,
+                    recipients: parseRecipientKeys(uploadRecipients),
+                    sign: signingEnabled,
+                    placement: provider ? provider.placementOptions(replicationFactor) : null,
+                    signal
+                }
             );
 
             const chunksList: { blob: Blob; filename: string; downloaded?: boolean }[] = [];
-            let metadata: any = null;
+            let result: EncryptionResult;
 
-            if (downloadMethod === 'auto') {
+            if (downloadMethod === 'auto' || provider) {
                 setDownloadProgress({
                     current: 0,
                     total: 0,
                     status: 'downloading',
-                    currentFile: 'Starting streaming download...'
+                    currentFile: provider ? `Uploading to ${provider.description}...` : 'Starting streaming download...'
                 });
 
                 let chunkIndex = 0;
                 // Iterate over the generator
                 // We use a manual iterator to get the return value (metadata) at the end
                 const iterator = generator[Symbol.asyncIterator]();
-                let result = await iterator.next();
+                let next = await iterator.next();
 
-                while (!result.done) {
-                    const chunk = result.value;
+                while (!next.done) {
+                    const chunk = next.value;
 
-                    // Download immediately
-                    await DownloadManager.downloadWithDelay(chunk.blob, chunk.filename, 0);
+                    // Download (or upload) immediately
+                    await sendChunk(chunk);
 
                     // Add to list but WITHOUT the blob to save memory
                     chunksList.push({ ...chunk, blob: null as any, downloaded: true });
@@ -121,39 +218,37 @@ export const FileUploader: React.FC = () => {
                     setDownloadProgress(prev => prev ? {
                         ...prev,
                         current: currentIndex,
-                        currentFile: `Downloaded ${chunk.filename}`
+                        currentFile: `${provider ? 'Uploaded' : 'Downloaded'} ${chunk.filename}`
                     } : null);
 
-                    result = await iterator.next();
+                    next = await iterator.next();
                 }
 
-                metadata = result.value;
+                result = next.value;
 
             } else {
                 // Manual or Zip: We MUST keep the blobs
                 // Note: This will still crash for 3GB files if the browser can't handle it
                 // But "Auto" is the recommended way for large files
                 const iterator = generator[Symbol.asyncIterator]();
-                let result = await iterator.next();
+                let next = await iterator.next();
 
-                while (!result.done) {
-                    chunksList.push(result.value);
-                    result = await iterator.next();
+                while (!next.done) {
+                    chunksList.push(next.value);
+                    next = await iterator.next();
                 }
-                metadata = result.value;
+                result = next.value;
             }
 
+            const { metadata, manifest, stats } = result;
             setCurrentMetadata(metadata);
 
-            // Add metadata file to list
-            const metadataBlob = new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' });
-            const metadataFilename = `${metadata.originalFileName}_metadata.json`;
-
-            if (downloadMethod === 'auto') {
-                await DownloadManager.downloadWithDelay(metadataBlob, metadataFilename, 0);
-                chunksList.push({ blob: null as any, filename: metadataFilename, downloaded: true });
+            // Add the encrypted manifest to the list
+            if (downloadMethod === 'auto' || provider) {
+                await sendChunk(manifest);
+                chunksList.push({ blob: null as any, filename: manifest.filename, downloaded: true });
             } else {
-                chunksList.push({ blob: metadataBlob, filename: metadataFilename });
+                chunksList.push(manifest);
             }
 
             setPendingChunks([...chunksList]);
@@ -162,28 +257,56 @@ export const FileUploader: React.FC = () => {
                 current: chunksList.length,
                 total: chunksList.length,
                 status: 'complete',
-                currentFile: 'All downloads complete!'
+                currentFile: provider ? `All files stored in ${provider.description}` : 'All downloads complete!'
             });
 
             // Handle Zip download if selected (requires all chunks, so we kept them in the else block above)
             if (downloadMethod === 'zip') {
-                await DownloadManager.createZipDownload(chunksList.slice(0, -1), metadata);
+                await DownloadManager.createZipDownload(chunksList, metadata.fileId!);
             }
 
-            if (downloadMethod !== 'manual') {
+            // CAR export: the manifest and chunks as IPFS blocks, optionally imported into a node
+            if (downloadMethod === 'car') {
+                const car = await CarFile.packChunkSet(manifest.blob, chunksList.filter(chunk => chunk !== manifest).map(chunk => chunk.blob));
+                await DownloadManager.downloadWithDelay(car.blob, `${metadata.fileId}.car`, 0);
+                if (ipfsApiUrl.trim()) {
+                    const imported = await IpfsUploader.importCar(car.blob, ipfsApiUrl.trim());
+                    showNotification(`Chunk set pinned on the IPFS node as ${imported.root}`, 'success');
+                }
+            }
+
+            if (downloadMethod !== 'manual' && !(downloadMethod === 'car' && ipfsApiUrl.trim())) {
                 const message = `✅ File successfully encrypted and split!\n` +
                     `Original size: ${(file.size / 1024 / 1024).toFixed(2)} MB\n` +
-                    `Total files: ${chunksList.length} (${metadata.totalChunks} chunks + metadata)\n` +
+                    `Total files: ${chunksList.length} (${stats.emittedChunks} chunks + ` +
+                    `${stats.parityChunks} parity + manifest)\n` +
+                    (stats.dedupedChunks > 0
+                        ? `Reused ${stats.dedupedChunks} of ${metadata.totalChunks} chunks from the local dedup store\n`
+                        : '') +
                     `Download method: ${downloadMethod}\n` +
                     `Keep ALL files for reconstruction!`;
 
                 console.log(message);
-                showNotification('File successfully encrypted and split!', 'success');
+                showNotification(provider ? `File encrypted and stored in ${provider.description}` : 'File successfully encrypted and split!', 'success');
+            }
+            if (missingCopies > 0) {
+                showNotification(`${missingCopies} chunk copies could not be written - every chunk is stored, but with fewer replicas than requested`, 'warning');
+            }
+            if (provider) {
+                await refreshStorageManifests();
+            }
+            if (deduplicationEnabled) {
+                await refreshDedupStats();
             }
 
         } catch (error: any) {
-            console.error('❌ Upload failed:', error);
-            showNotification('Upload failed: ' + error.message, 'error');
+            if (signal.aborted) {
+                console.warn('⏹️ Upload cancelled by the session lock');
+                showNotification('Upload cancelled because the session locked - unlock and upload the file again', 'warning');
+            } else {
+                console.error('❌ Upload failed:', error);
+                showNotification('Upload failed: ' + error.message, 'error');
+            }
             setDownloadProgress({
                 current: 0,
                 total: 0,
@@ -191,41 +314,110 @@ export const FileUploader: React.FC = () => {
                 currentFile: error.message
             });
         } finally {
+            SessionManager.endJob(signal);
             setIsProcessing(false);
         }
     };
 
     const handleFileReconstruction = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
-        if (!files || files.length === 0 || !isInitialized) return;
+        if (!files || files.length === 0 || (!isInitialized && !recipientMode)) return;
+
+        // In recipient mode the bundle passphrase stands in for the keystore
+        const passphrase = recipientMode ? bundlePassphrase : undefined;
+        if (recipientMode && !bundlePassphrase) {
+            showNotification('Enter the passphrase you received with the bundle', 'warning');
+            return;
+        }
 
         setIsProcessing(true);
+        const signal = SessionManager.beginJob();
         try {
-            const archiveFile = Array.from(files).find(f => f.name.endsWith('_encrypted_archive.json'));
+            const archiveFile = Array.from(files).find(f =>
+                f.name.endsWith('.zip') || f.name.endsWith('.car') || f.name.endsWith('_encrypted_archive.json')
+            );
 
             if (archiveFile) {
-                const result = await FileReconstructionService.reconstructFromArchive(archiveFile);
+                const result = await FileReconstructionService.reconstructFromArchive(archiveFile, passphrase, signal);
                 console.log(result.message);
-                showNotification(result.message, 'success');
+                showNotification(`${result.message} - ${SignatureService.describe(result.signature)}`,
+                    result.signature.state === 'invalid' ? 'warning' : 'success');
             } else {
-                const result = await FileReconstructionService.reconstructFromChunks(files);
+                const result = await FileReconstructionService.reconstructFromChunks(files, passphrase, signal);
                 const message = `✅ File reconstructed successfully!\n` +
-                    `Reconstructed size: ${(result.reconstructed.length / 1024 / 1024).toFixed(2)} MB\n` +
+                    `Reconstructed size: ${(result.reconstructedSize / 1024 / 1024).toFixed(2)} MB\n` +
                     `Original size: ${(result.metadata.originalSize / 1024 / 1024).toFixed(2)} MB\n` +
                     `Hash verified: ${result.hashMatch ? '✅' : '❌'}\n` +
-                    `Chunks processed: ${result.chunkFiles.length}/${result.metadata.totalChunks}`;
+                    `Signature: ${SignatureService.describe(result.signature)}\n` +
+                    `Chunks processed: ${result.chunksProcessed}/${result.metadata.totalChunks}\n` +
+                    `Chunks recovered from parity: ${result.chunksRecovered}`;
 
                 console.log(message);
-                showNotification('File reconstructed successfully!', 'success');
+                showNotification(`File reconstructed successfully - ${SignatureService.describe(result.signature)}`,
+                    result.signature.state === 'invalid' ? 'warning' : 'success');
             }
         } catch (error: any) {
-            console.error('❌ Reconstruction failed:', error);
-            showNotification('Reconstruction failed: ' + error.message, 'error');
+            if (signal.aborted) {
+                console.warn('⏹️ Reconstruction cancelled by the session lock');
+                showNotification('Reconstruction cancelled because the session locked - unlock and select the files again', 'warning');
+            } else {
+                console.error('❌ Reconstruction failed:', error);
+                showNotification('Reconstruction failed: ' + error.message, 'error');
+            }
         } finally {
+            SessionManager.endJob(signal);
             setIsProcessing(false);
         }
     };
 
+    // Restore a file stored by a storage provider, found by its manifest
+    const handleStorageReconstruction = async (manifestName: string) => {
+        if (!isInitialized && !recipientMode) return;
+
+        const passphrase = recipientMode ? bundlePassphrase : undefined;
+        if (recipientMode && !bundlePassphrase) {
+            showNotification('Enter the passphrase you received with the bundle', 'warning');
+            return;
+        }
+
+        setIsProcessing(true);
+        const signal = SessionManager.beginJob();
+        try {
+            const result = await FileReconstructionService.reconstructFromStorage(getStorageProvider(), manifestName, passphrase, signal);
+            console.log(`✅ ${manifestName} restored from storage, hash verified: ${result.hashMatch ? '✅' : '❌'}`);
+            showNotification(`File restored from storage - ${SignatureService.describe(result.signature)}`,
+                result.signature.state === 'invalid' ? 'warning' : 'success');
+        } catch (error: any) {
+            if (signal.aborted) {
+                showNotification('Restore cancelled because the session locked', 'warning');
+            } else {
+                console.error('❌ Restore from storage failed:', error);
+                showNotification('Restore from storage failed: ' + error.message, 'error');
+            }
+        } finally {
+            SessionManager.endJob(signal);
+            setIsProcessing(false);
+        }
+    };
+
+    const handleStorageBackendChange = (index: number, changes: Partial<StorageBackendConfig>) => {
+        const backends = storageSettings.backends.map((backend, i) => i === index ? { ...backend, ...changes } : backend);
+        updateStorageSettings({ ...storageSettings, backends });
+    };
+
+    const handleS3SettingChange = (index: number, field: keyof S3Settings, value: string) => {
+        handleStorageBackendChange(index, { s3: { ...storageSettings.backends[index].s3, [field]: value } });
+    };
+
+    const handleAddStorageBackend = () => {
+        updateStorageSettings({ ...storageSettings, backends: [...storageSettings.backends, { ...StorageProviders.DEFAULT_BACKEND, type: 's3' }] });
+    };
+
+    const handleRemoveStorageBackend = (index: number) => {
+        updateStorageSettings({ ...storageSettings, backends: storageSettings.backends.filter((_, i) => i !== index) });
+        setReplicationFactor(factor => Math.min(factor, storageSettings.backends.length - 1));
+    };
+
     const handleDownloadSingleFile = async (chunk: { blob: Blob; filename: string }, index: number) => {
         if (!chunk.blob) {
             showNotification('File already downloaded and cleared from memory', 'info');
@@ -265,10 +457,85 @@ export const FileUploader: React.FC = () => {
         setPassword(value);
     };
 
+    const handleKeyFormChange = (field: keyof KeyManagementForm, value: string) => {
+        setKeyForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleShareManifestSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const manifest = await file.text();
+        setKeyForm(prev => ({ ...prev, manifest, manifestName: file.name }));
+    };
+
+    const handleBundleFilesSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setBundleFiles(Array.from(e.target.files || []));
+    };
+
+    const handleBundlePassphraseChange = (value: string) => {
+        setBundlePassphrase(value);
+    };
+
+    const handleRecoveryPhraseDismiss = () => {
+        setRecoveryPhrase(null);
+    };
+
+    const handleUploadKeyChange = (value: string) => {
+        setUploadKeyId(value);
+    };
+
+    const handleUploadRecipientsChange = (value: string) => {
+        setUploadRecipients(value);
+    };
+
     const handleDownloadMethodChange = (value: string) => {
         setDownloadMethod(value as any);
     };
 
+    const handleErasureModeChange = (value: string) => {
+        setErasureMode(value);
+    };
+
+    const handleReplicationFactorChange = (value: string) => {
+        setReplicationFactor(parseInt(value, 10) || 1);
+    };
+
+    const handleCompressionToggle = () => {
+        setCompressionEnabled(!compressionEnabled);
+    };
+
+    const handleDeduplicationToggle = () => {
+        if (!deduplicationEnabled) refreshDedupStats();
+        setDeduplicationEnabled(!deduplicationEnabled);
+    };
+
+    const handleForgetDedupFilesSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length > 0) forgetDedupFiles(files);
+    };
+
+    const handleSigningToggle = () => {
+        setSigningEnabled(!signingEnabled);
+    };
+
+    const handleChunkingModeChange = (value: string) => {
+        setChunkingMode(value as any);
+    };
+
+    const handleIdleTimeoutChange = (value: string) => {
+        updateSessionSettings({ ...sessionSettings, idleTimeoutMinutes: parseInt(value, 10) });
+    };
+
+    const handleLockOnHiddenToggle = () => {
+        updateSessionSettings({ ...sessionSettings, lockOnHidden: !sessionSettings.lockOnHidden });
+    };
+
+    const handleAutomaticScrubToggle = () => {
+        updateScrubSettings({ ...scrubSettings, automatic: !scrubSettings.automatic });
+    };
+
     return (
         <ThemeProvider theme={theme}>
             <CssBaseline />
@@ -282,16 +549,79 @@ export const FileUploader: React.FC = () => {
                 passwordError={passwordError}
                 initializationMode={initializationMode}
                 downloadMethod={downloadMethod}
+                erasureMode={erasureMode}
+                compressionEnabled={compressionEnabled}
+                deduplicationEnabled={deduplicationEnabled}
+                chunkingMode={chunkingMode}
                 pendingChunks={pendingChunks}
+                keyDialogMode={keyDialogMode}
+                keyForm={keyForm}
+                keyFormError={keyFormError}
+                keyring={keyring}
+                uploadKeyId={uploadKeyId}
+                recoveryPhrase={recoveryPhrase}
+                identityPublicKey={identityPublicKey}
+                uploadRecipients={uploadRecipients}
+                bundleFiles={bundleFiles}
+                recipientMode={recipientMode}
+                bundlePassphrase={bundlePassphrase}
+                signingEnabled={signingEnabled}
+                signingPublicKey={signingPublicKey}
+                trustedSigners={trustedSigners}
+                sessionSettings={sessionSettings}
+                lockNotice={lockNotice}
+                keystoreReport={keystoreReport}
+                storageSettings={storageSettings}
+                storageManifests={storageManifests}
+                replicationFactor={replicationFactor}
+                ipfsApiUrl={ipfsApiUrl}
+                scrubReports={scrubReports}
+                scrubSettings={scrubSettings}
+                scrubStatus={scrubStatus}
+                dedupStats={dedupStats}
                 darkMode={darkMode}
                 onFileUpload={handleFileUpload}
                 onFileReconstruction={handleFileReconstruction}
                 onPasswordChange={handlePasswordChange}
                 onPasswordSubmit={handlePasswordSubmit}
                 onDownloadMethodChange={handleDownloadMethodChange}
+                onErasureModeChange={handleErasureModeChange}
+                onCompressionToggle={handleCompressionToggle}
+                onDeduplicationToggle={handleDeduplicationToggle}
+                onForgetDedupFiles={handleForgetDedupFilesSelect}
+                onCollectDedupGarbage={collectDedupGarbage}
+                onChunkingModeChange={handleChunkingModeChange}
                 onDownloadSingleFile={handleDownloadSingleFile}
                 onDownloadAllRemaining={handleDownloadAllRemaining}
                 onThemeToggle={handleThemeToggle}
+                onOpenKeyDialog={openKeyDialog}
+                onCloseKeyDialog={closeKeyDialog}
+                onKeyFormChange={handleKeyFormChange}
+                onKeyManagementSubmit={handleKeyManagementSubmit}
+                onUploadKeyChange={handleUploadKeyChange}
+                onRecoveryPhraseDismiss={handleRecoveryPhraseDismiss}
+                onUploadRecipientsChange={handleUploadRecipientsChange}
+                onShareManifestSelect={handleShareManifestSelect}
+                onBundleFilesSelect={handleBundleFilesSelect}
+                onBundlePassphraseChange={handleBundlePassphraseChange}
+                onEnterRecipientMode={enterRecipientMode}
+                onExitRecipientMode={exitRecipientMode}
+                onSigningToggle={handleSigningToggle}
+                onRemoveTrustedSigner={removeTrustedSigner}
+                onLockSession={lockSession}
+                onCheckKeystore={checkKeystore}
+                onIpfsApiUrlChange={updateIpfsApiUrl}
+                onStorageBackendChange={handleStorageBackendChange}
+                onS3SettingChange={handleS3SettingChange}
+                onAddStorageBackend={handleAddStorageBackend}
+                onRemoveStorageBackend={handleRemoveStorageBackend}
+                onReplicationFactorChange={handleReplicationFactorChange}
+                onRefreshStorage={refreshStorageManifests}
+                onStorageReconstruction={handleStorageReconstruction}
+                onScrubStorage={() => runScrub('full')}
+                onAutomaticScrubToggle={handleAutomaticScrubToggle}
+                onIdleTimeoutChange={handleIdleTimeoutChange}
+                onLockOnHiddenToggle={handleLockOnHiddenToggle}
                 notification={notification}
                 onCloseNotification={handleCloseNotification}
             />
@@ -23,18 +23,37 @@ import {
 import {
     Archive,
     Assessment,
+    Autorenew,
     CheckCircle,
     CloudDownload,
     CloudUpload,
     DarkMode,
+    DeleteSweep,
     Description,
     GetApp,
+    HealthAndSafety,
     LightMode,
     Lock,
     LockOpen,
     Loop,
-    Security
+    Restore,
+    Security,
+    Share,
+    Storage,
+    VerifiedUser,
+    VpnKey
 } from "@mui/icons-material";
+import { KEY_DIALOG_MODES_WITHOUT_PASSWORD, KeyDialogMode, KeyManagementForm } from "../hooks/useFileUploader";
+import { SCRUB_CONFIG, SESSION_CONFIG } from "../config";
+import { S3Settings } from "../services/s3StorageProvider";
+import { DedupStats } from "../services/dedupChunkStore";
+import { FileAuditReport, ScrubSettings } from "../services/scrubService";
+import { SessionSettings } from "../services/sessionManager";
+import { TrustedSigner } from "../services/signatureService";
+import { StorageBackendConfig, StorageProviderType, StorageSettings } from "../services/storageProviders";
+import { KeyInfo } from "../utils/cryptoUtils";
+import { KeystoreReport } from "../utils/keyManager";
+import { PasswordPolicy } from "../utils/passwordPolicy";
 import './FileUploader.css';
 
 interface FileUploaderTemplateProps {
@@ -48,8 +67,37 @@ interface FileUploaderTemplateProps {
     passwordError: string;
     initializationMode: string;
     downloadMethod: string;
+    erasureMode: string;
+    compressionEnabled: boolean;
+    deduplicationEnabled: boolean;
+    chunkingMode: string;
     pendingChunks: any[];
     darkMode: boolean;
+    keyDialogMode: KeyDialogMode | null;
+    keyForm: KeyManagementForm;
+    keyFormError: string;
+    keyring: KeyInfo[];
+    uploadKeyId: string;
+    recoveryPhrase: string | null;
+    identityPublicKey: string | null;
+    uploadRecipients: string;
+    bundleFiles: File[];
+    recipientMode: boolean;
+    bundlePassphrase: string;
+    signingEnabled: boolean;
+    signingPublicKey: string | null;
+    trustedSigners: TrustedSigner[];
+    sessionSettings: SessionSettings;
+    lockNotice: string;
+    keystoreReport: KeystoreReport | null;
+    storageSettings: StorageSettings;
+    storageManifests: string[];
+    replicationFactor: number;
+    ipfsApiUrl: string;
+    scrubReports: Record<string, FileAuditReport>;
+    scrubSettings: ScrubSettings;
+    scrubStatus: string;
+    dedupStats: DedupStats | null;
 
     // Event handlers
     onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
@@ -57,9 +105,43 @@ interface FileUploaderTemplateProps {
     onPasswordChange: (value: string) => void;
     onPasswordSubmit: () => void;
     onDownloadMethodChange: (value: string) => void;
+    onErasureModeChange: (value: string) => void;
+    onCompressionToggle: () => void;
+    onDeduplicationToggle: () => void;
+    onForgetDedupFiles: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    onCollectDedupGarbage: () => void;
+    onChunkingModeChange: (value: string) => void;
     onDownloadSingleFile: (chunk: any, index: number) => void;
     onDownloadAllRemaining: () => void;
     onThemeToggle: () => void;
+    onOpenKeyDialog: (mode: KeyDialogMode, keyId?: string) => void;
+    onCloseKeyDialog: () => void;
+    onKeyFormChange: (field: keyof KeyManagementForm, value: string) => void;
+    onKeyManagementSubmit: () => void;
+    onUploadKeyChange: (keyId: string) => void;
+    onRecoveryPhraseDismiss: () => void;
+    onUploadRecipientsChange: (value: string) => void;
+    onShareManifestSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    onBundleFilesSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    onBundlePassphraseChange: (value: string) => void;
+    onEnterRecipientMode: () => void;
+    onExitRecipientMode: () => void;
+    onSigningToggle: () => void;
+    onRemoveTrustedSigner: (signerId: string) => void;
+    onLockSession: () => void;
+    onCheckKeystore: () => void;
+    onIpfsApiUrlChange: (value: string) => void;
+    onStorageBackendChange: (index: number, changes: Partial<StorageBackendConfig>) => void;
+    onS3SettingChange: (index: number, field: keyof S3Settings, value: string) => void;
+    onAddStorageBackend: () => void;
+    onRemoveStorageBackend: (index: number) => void;
+    onReplicationFactorChange: (value: string) => void;
+    onRefreshStorage: () => void;
+    onStorageReconstruction: (manifestName: string) => void;
+    onScrubStorage: () => void;
+    onAutomaticScrubToggle: () => void;
+    onIdleTimeoutChange: (value: string) => void;
+    onLockOnHiddenToggle: () => void;
 
     // Notification props
     notification: {
@@ -80,19 +162,120 @@ export const FileUploaderTemplate: React.FC<FileUploaderTemplateProps> = ({
     passwordError,
     initializationMode,
     downloadMethod,
+    erasureMode,
+    compressionEnabled,
+    deduplicationEnabled,
+    chunkingMode,
     pendingChunks,
     darkMode,
+    keyDialogMode,
+    keyForm,
+    keyFormError,
+    keyring,
+    uploadKeyId,
+    recoveryPhrase,
+    identityPublicKey,
+    uploadRecipients,
+    bundleFiles,
+    recipientMode,
+    bundlePassphrase,
+    signingEnabled,
+    signingPublicKey,
+    trustedSigners,
+    sessionSettings,
+    lockNotice,
+    keystoreReport,
+    storageSettings,
+    storageManifests,
+    replicationFactor,
+    ipfsApiUrl,
+    scrubReports,
+    scrubSettings,
+    scrubStatus,
+    dedupStats,
     onFileUpload,
     onFileReconstruction,
     onPasswordChange,
     onPasswordSubmit,
     onDownloadMethodChange,
+    onErasureModeChange,
+    onCompressionToggle,
+    onDeduplicationToggle,
+    onForgetDedupFiles,
+    onCollectDedupGarbage,
+    onChunkingModeChange,
     onDownloadSingleFile,
     onDownloadAllRemaining,
     onThemeToggle,
+    onOpenKeyDialog,
+    onCloseKeyDialog,
+    onKeyFormChange,
+    onKeyManagementSubmit,
+    onUploadKeyChange,
+    onRecoveryPhraseDismiss,
+    onUploadRecipientsChange,
+    onShareManifestSelect,
+    onBundleFilesSelect,
+    onBundlePassphraseChange,
+    onEnterRecipientMode,
+    onExitRecipientMode,
+    onSigningToggle,
+    onRemoveTrustedSigner,
+    onLockSession,
+    onCheckKeystore,
+    onIpfsApiUrlChange,
+    onStorageBackendChange,
+    onS3SettingChange,
+    onAddStorageBackend,
+    onRemoveStorageBackend,
+    onReplicationFactorChange,
+    onRefreshStorage,
+    onStorageReconstruction,
+    onScrubStorage,
+    onAutomaticScrubToggle,
+    onIdleTimeoutChange,
+    onLockOnHiddenToggle,
     notification,
     onCloseNotification
 }) => {
+    const activeKeys = keyring.filter(key => key.status === 'active');
+    const keyDialogTitles: Record<KeyDialogMode, string> = {
+        password: 'Change Password',
+        rotate: 'Rotate Master Key',
+        create: 'New Key',
+        import: 'Import Key',
+        export: 'Export Key',
+        retire: 'Retire Key',
+        split: 'Split Into Shares',
+        restore: 'Restore From Shares',
+        phrase: 'Restore From Phrase',
+        share: 'Share File',
+        bundle: 'Create Share Bundle',
+        trust: 'Trust Signer',
+        repair: 'Repair Keystore'
+    };
+    const needsCurrentPassword = keyDialogMode !== null && !KEY_DIALOG_MODES_WITHOUT_PASSWORD.includes(keyDialogMode);
+    const needsNewPassword = keyDialogMode === 'password' || keyDialogMode === 'export' || keyDialogMode === 'bundle';
+
+    // Strength meter under a new unlock password
+    const renderStrengthMeter = (value: string) => {
+        if (!value) return null;
+        const strength = PasswordPolicy.evaluate(value);
+        const colors = ['error', 'error', 'warning', 'success', 'success'] as const;
+        return (
+            <div className="password-strength">
+                <LinearProgress
+                    variant="determinate"
+                    value={(strength.score + 1) * 20}
+                    color={colors[strength.score]}
+                />
+                <small>
+                    {strength.label} (~{strength.entropy} bits){strength.problems.length > 0 && ` - ${strength.problems[0]}`}
+                </small>
+            </div>
+        );
+    };
+
     return (
         <div className={`file-uploader-container ${darkMode ? 'dark-mode' : 'light-mode'}`}>
             <Box className="theme-toggle-box">
@@ -112,7 +295,12 @@ export const FileUploaderTemplate: React.FC<FileUploaderTemplateProps> = ({
                             <Security /> Enhanced Secure File Splitter
                         </h1>
 
-                        {!isInitialized ? (
+                        {recipientMode ? (
+                            <Alert severity="info" className="alert-spacing">
+                                Recipient mode: open a share bundle with the passphrase you were given.
+                                Nothing is stored in this browser.
+                            </Alert>
+                        ) : !isInitialized ? (
                             <Alert severity="warning" className="alert-spacing">
                                 System not initialized. Please set up your encryption key first.
                             </Alert>
@@ -155,11 +343,215 @@ export const FileUploaderTemplate: React.FC<FileUploaderTemplateProps> = ({
                                     <FormControlLabel
                                         value="zip"
                                         control={<Radio />}
-                                        label="Archive (JSON)"
+                                        label="Archive (ZIP)"
+                                        className="radio-button-spacing"
+                                    />
+                                    <FormControlLabel
+                                        value="car"
+                                        control={<Radio />}
+                                        label="IPFS (CAR)"
+                                        className="radio-button-spacing"
+                                    />
+                                    <FormControlLabel
+                                        value="storage"
+                                        control={<Radio />}
+                                        label="Storage (see below)"
                                     />
                                 </RadioGroup>
                             </FormControl>
 
+                            {downloadMethod === 'storage' && (
+                                <TextField
+                                    type="number"
+                                    label="Copies of each chunk"
+                                    value={replicationFactor}
+                                    onChange={(e) => onReplicationFactorChange(e.target.value)}
+                                    helperText={`Replication factor: stored on this many of the ${storageSettings.backends.length} storage backends`}
+                                    inputProps={{ min: 1, max: storageSettings.backends.length }}
+                                    size="small"
+                                    margin="normal"
+                                />
+                            )}
+
+                            {downloadMethod === 'car' && (
+                                <TextField
+                                    label="IPFS node RPC API (optional)"
+                                    value={ipfsApiUrl}
+                                    onChange={(e) => onIpfsApiUrlChange(e.target.value)}
+                                    placeholder="http://127.0.0.1:5001"
+                                    helperText="Also import and pin the CAR file on this node - leave empty to only download it"
+                                    fullWidth
+                                    size="small"
+                                    margin="normal"
+                                />
+                            )}
+
+                            {/* Chunking Mode Selection */}
+                            <FormControl
+                                component="fieldset"
+                                className={`download-method-control ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                            >
+                                <FormLabel component="legend" className="download-method-label">
+                                    Chunking:
+                                </FormLabel>
+                                <RadioGroup
+                                    row
+                                    value={chunkingMode}
+                                    onChange={(e) => onChunkingModeChange(e.target.value)}
+                                >
+                                    <FormControlLabel
+                                        value="fixed"
+                                        control={<Radio />}
+                                        label="Fixed size"
+                                        className="radio-button-spacing"
+                                    />
+                                    <FormControlLabel
+                                        value="cdc"
+                                        control={<Radio />}
+                                        label="Content-defined (FastCDC)"
+                                    />
+                                </RadioGroup>
+                            </FormControl>
+
+                            {/* Erasure Coding Selection */}
+                            <FormControl
+                                component="fieldset"
+                                className={`download-method-control ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                            >
+                                <FormLabel component="legend" className="download-method-label">
+                                    Parity Chunks (data + parity per stripe):
+                                </FormLabel>
+                                <RadioGroup
+                                    row
+                                    value={erasureMode}
+                                    onChange={(e) => onErasureModeChange(e.target.value)}
+                                >
+                                    <FormControlLabel
+                                        value="none"
+                                        control={<Radio />}
+                                        label="None"
+                                        className="radio-button-spacing"
+                                    />
+                                    <FormControlLabel
+                                        value="10+2"
+                                        control={<Radio />}
+                                        label="10+2"
+                                        className="radio-button-spacing"
+                                    />
+                                    <FormControlLabel
+                                        value="4+2"
+                                        control={<Radio />}
+                                        label="4+2"
+                                        className="radio-button-spacing"
+                                    />
+                                    <FormControlLabel
+                                        value="4+4"
+                                        control={<Radio />}
+                                        label="4+4"
+                                    />
+                                </RadioGroup>
+                            </FormControl>
+
+                            {/* Encryption Key Selection */}
+                            {activeKeys.length > 1 && (
+                                <FormControl
+                                    component="fieldset"
+                                    className={`download-method-control ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                >
+                                    <FormLabel component="legend" className="download-method-label">
+                                        Encryption Key:
+                                    </FormLabel>
+                                    <RadioGroup
+                                        row
+                                        value={uploadKeyId}
+                                        onChange={(e) => onUploadKeyChange(e.target.value)}
+                                    >
+                                        {activeKeys.map(key => (
+                                            <FormControlLabel
+                                                key={key.keyId}
+                                                value={key.keyId}
+                                                control={<Radio />}
+                                                label={key.label}
+                                                className="radio-button-spacing"
+                                            />
+                                        ))}
+                                    </RadioGroup>
+                                </FormControl>
+                            )}
+
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={compressionEnabled}
+                                        onChange={onCompressionToggle}
+                                    />
+                                }
+                                label="Compress chunks before encryption"
+                                className="download-method-label"
+                            />
+
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={deduplicationEnabled}
+                                        onChange={onDeduplicationToggle}
+                                    />
+                                }
+                                label="Deduplicate chunks across files"
+                                className="download-method-label"
+                            />
+                            {deduplicationEnabled && (
+                                <div className="section-spacing">
+                                    <p className={`reconstruct-instructions ${darkMode ? 'dark-mode' : 'light-mode'}`}>
+                                        {dedupStats
+                                            ? `Dedup store: ${dedupStats.chunks} chunks (${(dedupStats.bytes / 1024 / 1024).toFixed(2)} MB), ` +
+                                              `${dedupStats.references} references. `
+                                            : 'The dedup store is unavailable in this browser. '}
+                                        Select the manifests of files you no longer need to forget them; cleaning up
+                                        then deletes the chunks no remaining file uses.
+                                    </p>
+                                    <input
+                                        type="file"
+                                        onChange={onForgetDedupFiles}
+                                        multiple
+                                        disabled={!isInitialized || isProcessing}
+                                        accept=".json"
+                                        className={`file-input ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                    />
+                                    <Button
+                                        variant="outlined"
+                                        onClick={onCollectDedupGarbage}
+                                        disabled={isProcessing}
+                                        className="download-button-spacing"
+                                        startIcon={<DeleteSweep />}
+                                    >
+                                        Clean Up Dedup Store
+                                    </Button>
+                                </div>
+                            )}
+
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={signingEnabled}
+                                        onChange={onSigningToggle}
+                                    />
+                                }
+                                label="Sign the manifest with my signing key"
+                                className="download-method-label"
+                            />
+
+                            <TextField
+                                label="Share with (recipient public keys, one per line)"
+                                value={uploadRecipients}
+                                onChange={(e) => onUploadRecipientsChange(e.target.value)}
+                                disabled={!isInitialized || isProcessing}
+                                fullWidth
+                                multiline
+                                minRows={1}
+                                margin="normal"
+                            />
+
                             <input
                                 type="file"
                                 onChange={onFileUpload}
@@ -229,18 +621,509 @@ export const FileUploaderTemplate: React.FC<FileUploaderTemplateProps> = ({
                                 <CloudDownload /> Reconstruct File
                             </h2>
                             <p className={`reconstruct-instructions ${darkMode ? 'dark-mode' : 'light-mode'}`}>
-                                Select ALL chunk files (.enc) AND metadata.json, OR select the archive (.json) file.
+                                Select ALL chunk files (.enc) AND the manifest (.json), OR select the archive (.zip or .car) file.
                             </p>
+                            {recipientMode && (
+                                <>
+                                    <TextField
+                                        type="password"
+                                        label="Bundle passphrase"
+                                        value={bundlePassphrase}
+                                        onChange={(e) => onBundlePassphraseChange(e.target.value)}
+                                        fullWidth
+                                        margin="normal"
+                                    />
+                                    <Button
+                                        size="small"
+                                        onClick={onExitRecipientMode}
+                                        disabled={isProcessing}
+                                        className="download-button-spacing"
+                                        startIcon={<LockOpen />}
+                                    >
+                                        Use my own keystore instead
+                                    </Button>
+                                </>
+                            )}
                             <input
                                 type="file"
                                 onChange={onFileReconstruction}
                                 multiple
-                                disabled={!isInitialized || isProcessing}
-                                accept=".enc,.json"
+                                disabled={(!isInitialized && !(recipientMode && bundlePassphrase)) || isProcessing}
+                                accept=".enc,.json,.zip,.car"
                                 className={`file-input ${darkMode ? 'dark-mode' : 'light-mode'}`}
                             />
                         </div>
 
+                        <div className="section-spacing">
+                            <h2 className="section-header">
+                                <Storage /> Storage
+                            </h2>
+                            <p className={`reconstruct-instructions ${darkMode ? 'dark-mode' : 'light-mode'}`}>
+                                Uploads with the "Storage" download method go here, and files can be restored from it
+                                without selecting the chunks by hand. With several backends every chunk is copied to
+                                some of them (the replication factor), picked by weight.
+                            </p>
+                            {storageSettings.backends.map((backend, index) => (
+                                <div key={index} className={`storage-backend ${darkMode ? 'dark-mode' : 'light-mode'}`}>
+                                    <FormControl
+                                        component="fieldset"
+                                        className={`download-method-control ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                    >
+                                        <FormLabel component="legend" className="download-method-label">
+                                            Backend {index + 1}:
+                                        </FormLabel>
+                                        <RadioGroup
+                                            row
+                                            value={backend.type}
+                                            onChange={(e) => onStorageBackendChange(index, { type: e.target.value as StorageProviderType })}
+                                        >
+                                            <FormControlLabel
+                                                value="memory"
+                                                control={<Radio />}
+                                                label="Memory (this tab)"
+                                                className="radio-button-spacing"
+                                            />
+                                            <FormControlLabel
+                                                value="local"
+                                                control={<Radio />}
+                                                label="This browser"
+                                                className="radio-button-spacing"
+                                            />
+                                            <FormControlLabel
+                                                value="s3"
+                                                control={<Radio />}
+                                                label="S3-compatible"
+                                                className="radio-button-spacing"
+                                            />
+                                            <FormControlLabel
+                                                value="node"
+                                                control={<Radio />}
+                                                label="Storage node"
+                                            />
+                                        </RadioGroup>
+                                    </FormControl>
+
+                                    <div className="storage-settings">
+                                        <TextField
+                                            type="number"
+                                            label="Weight"
+                                            value={backend.weight}
+                                            onChange={(e) => onStorageBackendChange(index, { weight: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                                            size="small"
+                                            helperText="Relative share of the chunks it receives"
+                                            inputProps={{ min: 0, step: 0.5 }}
+                                        />
+                                        {backend.type === 'node' && (
+                                            <TextField
+                                                label="Node URL"
+                                                value={backend.nodeUrl}
+                                                onChange={(e) => onStorageBackendChange(index, { nodeUrl: e.target.value })}
+                                                size="small"
+                                                helperText="Start one with npm run storage-node; requests are signed with your signing key"
+                                            />
+                                        )}
+                                        {backend.type === 's3' && (
+                                            <>
+                                                <TextField
+                                                    label="Endpoint"
+                                                    value={backend.s3.endpoint}
+                                                    onChange={(e) => onS3SettingChange(index, 'endpoint', e.target.value)}
+                                                    size="small"
+                                                    helperText="e.g. http://localhost:9000 for MinIO"
+                                                />
+                                                <TextField
+                                                    label="Region"
+                                                    value={backend.s3.region}
+                                                    onChange={(e) => onS3SettingChange(index, 'region', e.target.value)}
+                                                    size="small"
+                                                />
+                                                <TextField
+                                                    label="Bucket"
+                                                    value={backend.s3.bucket}
+                                                    onChange={(e) => onS3SettingChange(index, 'bucket', e.target.value)}
+                                                    size="small"
+                                                />
+                                                <TextField
+                                                    label="Key prefix (optional)"
+                                                    value={backend.s3.prefix}
+                                                    onChange={(e) => onS3SettingChange(index, 'prefix', e.target.value)}
+                                                    size="small"
+                                                />
+                                                <TextField
+                                                    label="Access key ID"
+                                                    value={backend.s3.accessKeyId}
+                                                    onChange={(e) => onS3SettingChange(index, 'accessKeyId', e.target.value)}
+                                                    size="small"
+                                                />
+                                                <TextField
+                                                    type="password"
+                                                    label="Secret access key"
+                                                    value={backend.s3.secretAccessKey}
+                                                    onChange={(e) => onS3SettingChange(index, 'secretAccessKey', e.target.value)}
+                                                    size="small"
+                                                    helperText="Not saved - enter it again after a reload"
+                                                />
+                                            </>
+                                        )}
+                                    </div>
+
+                                    {storageSettings.backends.length > 1 && (
+                                        <Button
+                                            size="small"
+                                            color="error"
+                                            onClick={() => onRemoveStorageBackend(index)}
+                                            disabled={isProcessing}
+                                        >
+                                            Remove Backend
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+
+                            <Button
+                                variant="outlined"
+                                onClick={onAddStorageBackend}
+                                disabled={isProcessing}
+                                className="download-button-spacing"
+                                startIcon={<Storage />}
+                            >
+                                Add Backend
+                            </Button>
+                            <Button
+                                variant="outlined"
+                                onClick={onRefreshStorage}
+                                disabled={isProcessing}
+                                className="download-button-spacing"
+                                startIcon={<Loop />}
+                            >
+                                List Stored Files
+                            </Button>
+                            <Button
+                                variant="outlined"
+                                onClick={onScrubStorage}
+                                disabled={!isInitialized || isProcessing || scrubStatus !== ''}
+                                className="download-button-spacing"
+                                startIcon={<HealthAndSafety />}
+                            >
+                                Scrub Now
+                            </Button>
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={scrubSettings.automatic}
+                                        onChange={onAutomaticScrubToggle}
+                                    />
+                                }
+                                label={`Spot-check the storage every ${SCRUB_CONFIG.INTERVAL_MINUTES} min while unlocked`}
+                                className="download-method-label"
+                            />
+                            {scrubStatus && (
+                                <Alert severity="info" className="alert-spacing">
+                                    Scrubbing the storage: {scrubStatus}
+                                </Alert>
+                            )}
+
+                            {storageManifests.length > 0 && (
+                                <div className="chunk-list">
+                                    {storageManifests.map(manifestName => (
+                                        <div
+                                            key={manifestName}
+                                            className={`chunk-item ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                        >
+                                            <span className={`chunk-filename ${darkMode ? 'dark-mode' : 'light-mode'}`}>
+                                                <Description fontSize="small" /> {manifestName}
+                                            </span>
+                                            <Button
+                                                size="small"
+                                                variant="contained"
+                                                onClick={() => onStorageReconstruction(manifestName)}
+                                                disabled={(!isInitialized && !(recipientMode && bundlePassphrase)) || isProcessing}
+                                                startIcon={<Restore />}
+                                            >
+                                                Restore
+                                            </Button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {Object.values(scrubReports).length > 0 && (
+                                <div className="chunk-list">
+                                    {Object.values(scrubReports).map(report => (
+                                        <Alert
+                                            key={report.manifestName}
+                                            severity={report.findings.length === 0 ? 'success' : report.healthy ? 'info' : 'warning'}
+                                            className="alert-spacing"
+                                        >
+                                            <strong>{report.manifestName}</strong> - last verified {new Date(report.lastVerified).toLocaleString()}
+                                            {` (${report.mode === 'full' ? 'full check' : 'spot check'}, ${report.chunksVerified} of ${report.chunksTotal} chunks downloaded)`}
+                                            {report.findings.length > 0 && (
+                                                <ul className="keystore-findings">
+                                                    {report.findings.map((finding, index) => (
+                                                        <li key={index}>
+                                                            {finding.file}{finding.backend && ` on ${finding.backend}`}: {finding.issue}
+                                                            {finding.detail && ` - ${finding.detail}`}
+                                                            {finding.repaired ? ' - repaired' : ' - not repaired'}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </Alert>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {isInitialized && keyring.length > 0 && (
+                            <div className="section-spacing">
+                                <h2 className="section-header">
+                                    <VpnKey /> Key Management
+                                </h2>
+                                <div className="chunk-list">
+                                    {keyring.map((key, index) => (
+                                        <div
+                                            key={key.keyId}
+                                            className={`chunk-item ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                        >
+                                            <span className={`chunk-filename ${darkMode ? 'dark-mode' : 'light-mode'}`}>
+                                                <VpnKey fontSize="small" /> <strong>{key.label}</strong> {key.keyId}
+                                                {key.status === 'retired' && ' (retired - decryption only)'}
+                                            </span>
+                                            <span>
+                                                <Button
+                                                    size="small"
+                                                    variant="outlined"
+                                                    onClick={() => onOpenKeyDialog('export', key.keyId)}
+                                                    disabled={isProcessing}
+                                                >
+                                                    Export
+                                                </Button>
+                                                {index > 0 && key.status === 'active' && (
+                                                    <Button
+                                                        size="small"
+                                                        onClick={() => onOpenKeyDialog('retire', key.keyId)}
+                                                        disabled={isProcessing}
+                                                    >
+                                                        Retire
+                                                    </Button>
+                                                )}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('create')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<VpnKey />}
+                                >
+                                    New Key
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('import')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<GetApp />}
+                                >
+                                    Import Key
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('password')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<Lock />}
+                                >
+                                    Change Password
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('rotate')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<Autorenew />}
+                                >
+                                    Rotate Master Key
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('split')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<Archive />}
+                                >
+                                    Split Into Shares
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('restore')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<Restore />}
+                                >
+                                    Restore From Shares
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('phrase')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<Restore />}
+                                >
+                                    Restore From Phrase
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('share')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<Share />}
+                                >
+                                    Share File
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('bundle')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<Archive />}
+                                >
+                                    Create Share Bundle
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => onOpenKeyDialog('trust')}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<VerifiedUser />}
+                                >
+                                    Trust Signer
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    onClick={onCheckKeystore}
+                                    disabled={isProcessing}
+                                    className="download-button-spacing"
+                                    startIcon={<HealthAndSafety />}
+                                >
+                                    Check Keystore
+                                </Button>
+
+                                {keystoreReport && (
+                                    <Alert
+                                        severity={keystoreReport.healthy ? 'success' : 'warning'}
+                                        className="alert-spacing"
+                                        action={!keystoreReport.healthy && (
+                                            <Button color="inherit" size="small" onClick={() => onOpenKeyDialog('repair')} disabled={isProcessing}>
+                                                Repair
+                                            </Button>
+                                        )}
+                                    >
+                                        {keystoreReport.findings.length === 0
+                                            ? `Keystore is healthy (checked ${new Date(keystoreReport.checkedAt).toLocaleTimeString()})`
+                                            : (
+                                                <ul className="keystore-findings">
+                                                    {keystoreReport.findings.map((finding, index) => (
+                                                        <li key={index}>
+                                                            <strong>{finding.record}</strong>: {finding.detail}
+                                                            {finding.repaired !== undefined && (finding.repaired ? ' - repaired' : ' - not repaired')}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                    </Alert>
+                                )}
+
+                                {identityPublicKey && (
+                                    <TextField
+                                        label="Your public key (give it to people who want to share files with you)"
+                                        value={identityPublicKey}
+                                        InputProps={{ readOnly: true }}
+                                        onFocus={(e) => e.target.select()}
+                                        fullWidth
+                                        margin="normal"
+                                    />
+                                )}
+                                {signingPublicKey && (
+                                    <TextField
+                                        label="Your signing key (give it to people who should trust your manifests)"
+                                        value={signingPublicKey}
+                                        InputProps={{ readOnly: true }}
+                                        onFocus={(e) => e.target.select()}
+                                        fullWidth
+                                        margin="normal"
+                                    />
+                                )}
+
+                                {trustedSigners.length > 0 && (
+                                    <div className="chunk-list">
+                                        {trustedSigners.map(signer => (
+                                            <div
+                                                key={signer.signerId}
+                                                className={`chunk-item ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                            >
+                                                <span className={`chunk-filename ${darkMode ? 'dark-mode' : 'light-mode'}`}>
+                                                    <VerifiedUser fontSize="small" /> <strong>{signer.name}</strong> {signer.signerId}
+                                                </span>
+                                                <Button
+                                                    size="small"
+                                                    onClick={() => onRemoveTrustedSigner(signer.signerId)}
+                                                    disabled={isProcessing}
+                                                >
+                                                    Remove
+                                                </Button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <FormControl
+                                    component="fieldset"
+                                    className={`download-method-control ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                >
+                                    <FormLabel component="legend" className="download-method-label">
+                                        Lock After Inactivity:
+                                    </FormLabel>
+                                    <RadioGroup
+                                        row
+                                        value={String(sessionSettings.idleTimeoutMinutes)}
+                                        onChange={(e) => onIdleTimeoutChange(e.target.value)}
+                                    >
+                                        {SESSION_CONFIG.IDLE_TIMEOUT_OPTIONS.map(minutes => (
+                                            <FormControlLabel
+                                                key={minutes}
+                                                value={String(minutes)}
+                                                control={<Radio />}
+                                                label={minutes > 0 ? `${minutes} min` : 'Never'}
+                                                className="radio-button-spacing"
+                                            />
+                                        ))}
+                                    </RadioGroup>
+                                </FormControl>
+                                <FormControlLabel
+                                    control={
+                                        <Switch
+                                            checked={sessionSettings.lockOnHidden}
+                                            onChange={onLockOnHiddenToggle}
+                                        />
+                                    }
+                                    label="Lock when this tab is hidden"
+                                    className="download-method-label"
+                                />
+                                <Button
+                                    variant="contained"
+                                    color="warning"
+                                    onClick={onLockSession}
+                                    className="download-button-spacing"
+                                    startIcon={<Lock />}
+                                >
+                                    Lock Now
+                                </Button>
+                            </div>
+                        )}
+
                         {isProcessing && (
                             <Alert severity="info" className="alert-spacing alert-with-icon">
                                 <div className="processing-content">
@@ -296,6 +1179,7 @@ export const FileUploaderTemplate: React.FC<FileUploaderTemplateProps> = ({
                             </>
                         ) : (
                             <Alert severity="warning" className="password-instructions">
+                                {lockNotice && <>{lockNotice}. </>}
                                 Enter your password to unlock the encryption system.
                             </Alert>
                         )}
@@ -312,9 +1196,13 @@ export const FileUploaderTemplate: React.FC<FileUploaderTemplateProps> = ({
                             margin="normal"
                             autoFocus
                         />
+                        {initializationMode === 'setup' && renderStrengthMeter(password)}
                     </div>
                 </DialogContent>
                 <DialogActions>
+                    <Button onClick={onEnterRecipientMode} disabled={isProcessing} startIcon={<Archive />}>
+                        I received a share bundle
+                    </Button>
                     <Button
                         onClick={onPasswordSubmit}
                         variant="contained"
@@ -327,6 +1215,304 @@ export const FileUploaderTemplate: React.FC<FileUploaderTemplateProps> = ({
                 </DialogActions>
             </Dialog>
 
+            {/* Key Management Dialog */}
+            <Dialog open={keyDialogMode !== null} onClose={onCloseKeyDialog} maxWidth="sm" fullWidth>
+                <DialogTitle className="section-header">
+                    {keyDialogMode === 'rotate' ? <Autorenew /> : (keyDialogMode === 'password' ? <Lock /> : <VpnKey />)}
+                    {keyDialogMode && keyDialogTitles[keyDialogMode]}
+                </DialogTitle>
+                <DialogContent>
+                    <div className="dialog-content-padding">
+                        {keyDialogMode === 'password' && (
+                            <Alert severity="info" className="password-instructions">
+                                Your keys are re-wrapped with the new password. Existing chunk sets are not affected.
+                            </Alert>
+                        )}
+                        {keyDialogMode === 'rotate' && (
+                            <Alert severity="warning" className="password-instructions">
+                                A new master key will encrypt all future uploads. The current key is kept in your
+                                keyring so older files can still be decrypted.
+                            </Alert>
+                        )}
+                        {keyDialogMode === 'create' && (
+                            <Alert severity="info" className="password-instructions">
+                                Create a separate key, e.g. "team" or "archive". Export it to share it with others
+                                who need to decrypt the files you encrypt with it.
+                            </Alert>
+                        )}
+                        {keyDialogMode === 'import' && (
+                            <Alert severity="info" className="password-instructions">
+                                Paste the contents of an exported .key file and enter the password it was exported with.
+                            </Alert>
+                        )}
+                        {keyDialogMode === 'export' && (
+                            <Alert severity="warning" className="password-instructions">
+                                Anyone with the exported file and its export password can decrypt every file
+                                encrypted with key {keyForm.keyId}.
+                            </Alert>
+                        )}
+                        {keyDialogMode === 'repair' && (
+                            <Alert severity="info" className="password-instructions">
+                                Every key record is reduced to one copy in both localStorage and IndexedDB. Copies that
+                                don't open with your password are discarded; a plaintext master key is password-protected.
+                            </Alert>
+                        )}
+                        {keyDialogMode === 'retire' && (
+                            <Alert severity="info" className="password-instructions">
+                                Key {keyForm.keyId} will no longer be offered for new uploads. It stays in your
+                                keyring so files encrypted with it can still be decrypted.
+                            </Alert>
+                        )}
+
+                        {keyDialogMode === 'split' && (
+                            <Alert severity="info" className="password-instructions">
+                                The master key is split into shares; any threshold of them restore it, fewer reveal
+                                nothing. Each share downloads as its own text file.
+                            </Alert>
+                        )}
+                        {keyDialogMode === 'restore' && (
+                            <Alert severity="warning" className="password-instructions">
+                                Paste enough key shares, one per line. The restored key replaces your master key.
+                            </Alert>
+                        )}
+
+                        {keyDialogMode === 'share' && (
+                            <>
+                                <Alert severity="info" className="password-instructions">
+                                    Select a manifest (.json) you can decrypt. Its file key is wrapped for each
+                                    recipient and the updated manifest downloads under the same name - the chunks
+                                    stay as they are. Recipients reconstruct it with their own password.
+                                </Alert>
+                                <input
+                                    type="file"
+                                    onChange={onShareManifestSelect}
+                                    accept=".json"
+                                    className={`file-input ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                />
+                                <TextField
+                                    label="Recipient public keys (one per line)"
+                                    value={keyForm.recipients}
+                                    onChange={(e) => onKeyFormChange('recipients', e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && e.ctrlKey && onKeyManagementSubmit()}
+                                    error={!!keyFormError}
+                                    helperText={keyFormError}
+                                    fullWidth
+                                    multiline
+                                    minRows={3}
+                                    margin="normal"
+                                />
+                            </>
+                        )}
+
+                        {keyDialogMode === 'trust' && (
+                            <>
+                                <Alert severity="info" className="password-instructions">
+                                    Manifests signed with this key will show as signed by this name. Only add keys
+                                    you received from the signer through a channel you trust.
+                                </Alert>
+                                <TextField
+                                    label="Signer name"
+                                    value={keyForm.label}
+                                    onChange={(e) => onKeyFormChange('label', e.target.value)}
+                                    fullWidth
+                                    margin="normal"
+                                    autoFocus
+                                />
+                                <TextField
+                                    label="Signing public key"
+                                    value={keyForm.signerKey}
+                                    onChange={(e) => onKeyFormChange('signerKey', e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && onKeyManagementSubmit()}
+                                    error={!!keyFormError}
+                                    helperText={keyFormError}
+                                    fullWidth
+                                    margin="normal"
+                                />
+                            </>
+                        )}
+
+                        {keyDialogMode === 'bundle' && (
+                            <>
+                                <Alert severity="info" className="password-instructions">
+                                    Select the chunk files and manifest of one file, or its ZIP or CAR archive. The bundle
+                                    opens with this passphrase alone, in recipient mode - send the passphrase by a
+                                    different channel than the bundle.
+                                </Alert>
+                                <input
+                                    type="file"
+                                    onChange={onBundleFilesSelect}
+                                    multiple
+                                    accept=".enc,.json,.zip,.car"
+                                    className={`file-input ${darkMode ? 'dark-mode' : 'light-mode'}`}
+                                />
+                                {bundleFiles.length > 0 && <p>{bundleFiles.length} file(s) selected</p>}
+                            </>
+                        )}
+
+                        {keyDialogMode === 'split' && (
+                            <>
+                                <TextField
+                                    type="number"
+                                    label="Number of shares"
+                                    value={keyForm.shareCount}
+                                    onChange={(e) => onKeyFormChange('shareCount', e.target.value)}
+                                    fullWidth
+                                    margin="normal"
+                                />
+                                <TextField
+                                    type="number"
+                                    label="Shares needed to restore"
+                                    value={keyForm.shareThreshold}
+                                    onChange={(e) => onKeyFormChange('shareThreshold', e.target.value)}
+                                    fullWidth
+                                    margin="normal"
+                                />
+                            </>
+                        )}
+
+                        {keyDialogMode === 'phrase' && (
+                            <>
+                                <Alert severity="warning" className="password-instructions">
+                                    Enter the 24 words in order. The restored key replaces your master key.
+                                </Alert>
+                                <TextField
+                                    label="Recovery phrase"
+                                    value={keyForm.backup}
+                                    onChange={(e) => onKeyFormChange('backup', e.target.value)}
+                                    fullWidth
+                                    multiline
+                                    minRows={3}
+                                    margin="normal"
+                                />
+                            </>
+                        )}
+
+                        {keyDialogMode === 'restore' && (
+                            <TextField
+                                label="Key shares"
+                                value={keyForm.backup}
+                                onChange={(e) => onKeyFormChange('backup', e.target.value)}
+                                fullWidth
+                                multiline
+                                minRows={4}
+                                margin="normal"
+                            />
+                        )}
+
+                        {(keyDialogMode === 'create' || keyDialogMode === 'import') && (
+                            <TextField
+                                label={keyDialogMode === 'create' ? 'Key name' : 'Key name (optional)'}
+                                value={keyForm.label}
+                                onChange={(e) => onKeyFormChange('label', e.target.value)}
+                                fullWidth
+                                margin="normal"
+                            />
+                        )}
+
+                        {keyDialogMode === 'import' && (
+                            <>
+                                <TextField
+                                    label="Exported key"
+                                    value={keyForm.backup}
+                                    onChange={(e) => onKeyFormChange('backup', e.target.value)}
+                                    fullWidth
+                                    multiline
+                                    minRows={3}
+                                    margin="normal"
+                                />
+                                <TextField
+                                    type="password"
+                                    label="Export password"
+                                    value={keyForm.newPassword}
+                                    onChange={(e) => onKeyFormChange('newPassword', e.target.value)}
+                                    fullWidth
+                                    margin="normal"
+                                />
+                            </>
+                        )}
+
+                        {needsCurrentPassword && (
+                            <TextField
+                                type="password"
+                                label="Current password"
+                                value={keyForm.currentPassword}
+                                onChange={(e) => onKeyFormChange('currentPassword', e.target.value)}
+                                error={!!keyFormError}
+                                helperText={needsNewPassword ? '' : keyFormError}
+                                fullWidth
+                                margin="normal"
+                                autoFocus
+                            />
+                        )}
+
+                        {needsNewPassword && (
+                            <>
+                                <TextField
+                                    type="password"
+                                    label={keyDialogMode === 'password' ? 'New password' :
+                                        (keyDialogMode === 'export' ? 'Export password' : 'Bundle passphrase')}
+                                    value={keyForm.newPassword}
+                                    onChange={(e) => onKeyFormChange('newPassword', e.target.value)}
+                                    fullWidth
+                                    margin="normal"
+                                />
+                                {keyDialogMode === 'password' && renderStrengthMeter(keyForm.newPassword)}
+                                <TextField
+                                    type="password"
+                                    label={keyDialogMode === 'password' ? 'Confirm new password' :
+                                        (keyDialogMode === 'export' ? 'Confirm export password' : 'Confirm bundle passphrase')}
+                                    value={keyForm.confirmPassword}
+                                    onChange={(e) => onKeyFormChange('confirmPassword', e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && onKeyManagementSubmit()}
+                                    error={!!keyFormError}
+                                    helperText={keyFormError}
+                                    fullWidth
+                                    margin="normal"
+                                />
+                            </>
+                        )}
+                    </div>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={onCloseKeyDialog} disabled={isProcessing}>
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={onKeyManagementSubmit}
+                        variant="contained"
+                        disabled={isProcessing || (needsCurrentPassword && !keyForm.currentPassword)}
+                        startIcon={isProcessing ? <Loop className="rotating" /> : undefined}
+                    >
+                        {isProcessing ? 'Processing...' : (keyDialogMode ? keyDialogTitles[keyDialogMode] : '')}
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            {/* Recovery Phrase Dialog (shown once for a new master key) */}
+            <Dialog open={recoveryPhrase !== null} onClose={() => { }} maxWidth="sm" fullWidth>
+                <DialogTitle className="section-header">
+                    <VpnKey /> Your Recovery Phrase
+                </DialogTitle>
+                <DialogContent>
+                    <div className="dialog-content-padding">
+                        <Alert severity="warning" className="password-instructions">
+                            Write these 24 words down in order and keep them somewhere safe. They restore your
+                            master key if you forget your password. This is the only time they are shown.
+                        </Alert>
+                        <ol className="recovery-phrase-list">
+                            {(recoveryPhrase || '').split(' ').map((word, index) => (
+                                <li key={index}>{word}</li>
+                            ))}
+                        </ol>
+                    </div>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={onRecoveryPhraseDismiss} variant="contained" startIcon={<CheckCircle />}>
+                        I have written it down
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
             <Snackbar
                 open={notification?.open}
                 autoHideDuration={6000}
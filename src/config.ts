@@ -8,15 +8,58 @@ export const CHUNK_SIZE_OPTIONS = {
     XLARGE: 10 * 1024 * 1024 // 10MB - for very fast connections
 };
 
+// Content-defined chunking (FastCDC) sizes - boundaries follow the content, so edited
+// versions of a file keep sharing most of their chunks
+export const CDC_PARAMS = {
+    minSize: 256 * 1024,      // 256KB
+    avgSize: 1024 * 1024,     // 1MB - matches the default fixed chunk size
+    maxSize: 4 * 1024 * 1024  // 4MB
+};
+
+// Erasure coding presets: data chunks + parity chunks per stripe (any k of n chunks rebuild the stripe)
+export const ERASURE_CODING_OPTIONS: Record<string, { dataShards: number; parityShards: number } | null> = {
+    'none': null,
+    '10+2': { dataShards: 10, parityShards: 2 }, // 20% overhead, survives 2 lost chunks per 10
+    '4+2': { dataShards: 4, parityShards: 2 },   // 50% overhead, survives 2 lost chunks per 4
+    '4+4': { dataShards: 4, parityShards: 4 }    // 100% overhead, survives half the chunks being lost
+};
+
+// Codec used when "compress before encryption" is switched on
+export const COMPRESSION_CODEC: 'deflate' | 'gzip' = 'deflate';
+
 // Security settings
 export const SECURITY_CONFIG = {
-    PBKDF2_ITERATIONS: 100000,     // Key derivation iterations
+    // Password KDF for new wrapped keys; keys wrapped with weaker settings are re-wrapped on unlock
+    KDF_ALGORITHM: 'argon2id' as 'pbkdf2' | 'scrypt' | 'argon2id',
+    PBKDF2_ITERATIONS: 600000,     // PBKDF2-SHA256 iterations (OWASP 2023)
+    SCRYPT: { N: 2 ** 17, r: 8, p: 1 },                            // 128MB
+    ARGON2ID: { memoryKiB: 19456, iterations: 2, parallelism: 1 }, // 19MB, OWASP minimum
     AES_KEY_LENGTH: 256,           // AES-256
     IV_LENGTH: 12,                 // GCM IV length
-    SALT_LENGTH: 16,               // PBKDF2 salt length
+    SALT_LENGTH: 16,               // KDF salt length
+    HARDENED_KEYSTORE: true,       // Keep the master key only as non-extractable CryptoKeys (never as hex)
+    PASSWORD_MIN_LENGTH: 10,       // New unlock passwords: minimum length...
+    PASSWORD_MIN_ENTROPY: 50,      // ...and estimated entropy in bits
+    UNLOCK_FREE_ATTEMPTS: 3,       // Wrong unlock passwords allowed before back-off starts
+    UNLOCK_BASE_DELAY: 2000,       // First back-off delay, doubled after every further failure
+    UNLOCK_MAX_DELAY: 15 * 60 * 1000,
     MAX_FILE_SIZE: 100 * 1024 * 1024 * 1024, // 100GB max file size
 };
 
+// Session locking defaults (users can change them; see SessionManager)
+export const SESSION_CONFIG = {
+    IDLE_TIMEOUT_MINUTES: 15,        // Lock after this long without input (0 = never)
+    IDLE_TIMEOUT_OPTIONS: [5, 15, 60, 0],
+    LOCK_ON_HIDDEN: false,           // Lock as soon as the tab is hidden
+    IDLE_CHECK_INTERVAL: 15 * 1000   // How often the idle timer is checked
+};
+
+// Storage scrub: periodic audit and repair of the chunk sets in storage (see ScrubService)
+export const SCRUB_CONFIG = {
+    INTERVAL_MINUTES: 60,    // Automatic spot checks while unlocked, at most this often
+    SPOT_CHECK_RATE: 0.1     // Share of chunks downloaded and verified by a spot check; the rest are only looked up
+};
+
 // Storage keys (used internally by SecureKeyManager)
 export const STORAGE_KEYS = {
     KEY_STORAGE_PREFIX: 'secure_file_splitter_',
@@ -1,17 +1,22 @@
 // hooks/useFileUploader.ts
-import { useEffect, useState } from 'react';
-import { SecureKeyManager } from '../utils/keyManager';
-import { SecureCryptoUtils } from '../utils/cryptoUtils';
-
-interface FileMetadata {
-    originalFileName: string;
-    originalExtension: string;
-    originalSize: number;
-    totalChunks: number;
-    timestamp: number;
-    hash: string;
-    chunkSize: number;
-}
+import { useEffect, useRef, useState } from 'react';
+import { KeystoreReport, SecureKeyManager } from '../utils/keyManager';
+import { KeyInfo, SecureCryptoUtils } from '../utils/cryptoUtils';
+import { DownloadManager } from '../utils/downloadManager';
+import { DedupChunkStore, DedupStats } from '../services/dedupChunkStore';
+import { IpfsUploader } from '../services/ipfsUploader';
+import { ManifestService } from '../services/manifestService';
+import { ReplicatedStorage } from '../services/replicatedStorage';
+import { FileAuditReport, ScrubMode, ScrubService, ScrubSettings } from '../services/scrubService';
+import { LockReason, SessionManager, SessionSettings } from '../services/sessionManager';
+import { ShareBundleService } from '../services/shareBundleService';
+import { SignatureService, TrustedSigner } from '../services/signatureService';
+import { StorageProviders, StorageSettings } from '../services/storageProviders';
+import { UnlockThrottle } from '../services/unlockThrottle';
+import { IncorrectPasswordError } from '../utils/errors';
+import { PasswordPolicy } from '../utils/passwordPolicy';
+import { FileMetadata } from '../types/fileMetadata';
+import { SCRUB_CONFIG } from '../config';
 
 interface DownloadProgress {
     current: number;
@@ -20,6 +25,45 @@ interface DownloadProgress {
     currentFile: string;
 }
 
+export type KeyDialogMode = 'password' | 'rotate' | 'create' | 'import' | 'export' | 'retire' | 'split' | 'restore' | 'phrase' | 'share' | 'bundle' | 'trust' | 'repair';
+
+// Dialogs that only use keys which are already unlocked
+export const KEY_DIALOG_MODES_WITHOUT_PASSWORD: KeyDialogMode[] = ['share', 'bundle', 'trust'];
+
+export interface KeyManagementForm {
+    currentPassword: string;
+    newPassword: string;       // New unlock password, the export password for 'export' or the bundle passphrase
+    confirmPassword: string;
+    label: string;             // Name of a new or imported key, or of a trusted signer
+    backup: string;            // Exported key to import, key shares (one per line) or recovery phrase to restore from
+    keyId: string;             // Key to export or retire
+    shareCount: string;        // Key shares to create
+    shareThreshold: string;    // Shares needed to restore
+    recipients: string;        // Recipient public keys to share a manifest with, one per line
+    manifest: string;          // Manifest to share (file contents)
+    manifestName: string;
+    signerKey: string;         // Public signing key of a signer to trust
+}
+
+const EMPTY_KEY_FORM: KeyManagementForm = {
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+    label: '',
+    backup: '',
+    keyId: '',
+    shareCount: '5',
+    shareThreshold: '3',
+    recipients: '',
+    manifest: '',
+    manifestName: '',
+    signerKey: ''
+};
+
+// Public keys from a text field, one per line
+export const parseRecipientKeys = (text: string): string[] =>
+    text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+
 export const useFileUploader = (onNotification?: (message: string, severity: 'success' | 'info' | 'warning' | 'error') => void) => {
     const [isInitialized, setIsInitialized] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
@@ -29,8 +73,38 @@ export const useFileUploader = (onNotification?: (message: string, severity: 'su
     const [password, setPassword] = useState('');
     const [passwordError, setPasswordError] = useState('');
     const [initializationMode, setInitializationMode] = useState<'setup' | 'unlock'>('setup');
-    const [downloadMethod, setDownloadMethod] = useState<'auto' | 'manual' | 'zip'>('auto');
+    const [downloadMethod, setDownloadMethod] = useState<'auto' | 'manual' | 'zip' | 'car' | 'storage'>('auto');
     const [pendingChunks, setPendingChunks] = useState<{ blob: Blob; filename: string }[]>([]);
+    const [erasureMode, setErasureMode] = useState<string>('none');
+    const [compressionEnabled, setCompressionEnabled] = useState(false);
+    const [deduplicationEnabled, setDeduplicationEnabled] = useState(false);
+    const [chunkingMode, setChunkingMode] = useState<'fixed' | 'cdc'>('fixed');
+    const [keyDialogMode, setKeyDialogMode] = useState<KeyDialogMode | null>(null);
+    const [keyForm, setKeyForm] = useState<KeyManagementForm>(EMPTY_KEY_FORM);
+    const [keyFormError, setKeyFormError] = useState('');
+    const [keyring, setKeyring] = useState<KeyInfo[]>([]);
+    const [uploadKeyId, setUploadKeyId] = useState<string>('');
+    const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
+    const [identityPublicKey, setIdentityPublicKey] = useState<string | null>(null);
+    const [uploadRecipients, setUploadRecipients] = useState('');
+    const [bundleFiles, setBundleFiles] = useState<File[]>([]);
+    const [recipientMode, setRecipientMode] = useState(false);
+    const [bundlePassphrase, setBundlePassphrase] = useState('');
+    const [signingEnabled, setSigningEnabled] = useState(true);
+    const [signingPublicKey, setSigningPublicKey] = useState<string | null>(null);
+    const [trustedSigners, setTrustedSigners] = useState<TrustedSigner[]>([]);
+    const [sessionSettings, setSessionSettings] = useState<SessionSettings>(() => SessionManager.getSettings());
+    const [lockNotice, setLockNotice] = useState('');
+    const [keystoreReport, setKeystoreReport] = useState<KeystoreReport | null>(null);
+    const [storageSettings, setStorageSettings] = useState<StorageSettings>(() => StorageProviders.getSettings());
+    const [storageManifests, setStorageManifests] = useState<string[]>([]);
+    const [replicationFactor, setReplicationFactor] = useState(1);
+    const [ipfsApiUrl, setIpfsApiUrl] = useState(() => IpfsUploader.getApiUrl());
+    const [scrubReports, setScrubReports] = useState<Record<string, FileAuditReport>>(() => ScrubService.getReports());
+    const [scrubSettings, setScrubSettings] = useState<ScrubSettings>(() => ScrubService.getSettings());
+    const [scrubStatus, setScrubStatus] = useState('');
+    const [dedupStats, setDedupStats] = useState<DedupStats | null>(null);
+    const automaticScrub = useRef<() => void>(() => {});
 
     const CONSTANTS = {
         CHUNK_SIZE: 1024 * 1024, // 1MB
@@ -40,8 +114,18 @@ export const useFileUploader = (onNotification?: (message: string, severity: 'su
 
     useEffect(() => {
         checkInitialSetup();
+        return () => SessionManager.stop();
     }, []);
 
+    // Automatic spot checks of the storage while unlocked
+    useEffect(() => {
+        if (!isInitialized || !scrubSettings.automatic) {
+            return;
+        }
+        const timer = window.setInterval(() => automaticScrub.current(), SCRUB_CONFIG.INTERVAL_MINUTES * 60 * 1000);
+        return () => window.clearInterval(timer);
+    }, [isInitialized, scrubSettings.automatic]);
+
     const checkInitialSetup = async () => {
         try {
             const hasKey = await SecureKeyManager.hasMasterKey();
@@ -62,15 +146,34 @@ export const useFileUploader = (onNotification?: (message: string, severity: 'su
             setPasswordError('Password is required');
             return;
         }
+        if (initializationMode === 'setup') {
+            const strength = PasswordPolicy.evaluate(password);
+            if (!strength.acceptable) {
+                setPasswordError(strength.problems[0]);
+                return;
+            }
+        }
+        const delay = UnlockThrottle.remainingDelay();
+        if (delay > 0) {
+            setPasswordError(`Too many failed attempts - try again in ${UnlockThrottle.describeDelay(delay)}`);
+            return;
+        }
 
         setIsProcessing(true);
         setPasswordError('');
 
         try {
             await SecureCryptoUtils.initialize(password);
+            UnlockThrottle.recordSuccess();
+            refreshKeyring();
             setIsInitialized(true);
             setShowPasswordDialog(false);
             setPassword('');
+            setLockNotice('');
+            SessionManager.start(handleSessionLock);
+
+            // A newly generated master key: show its recovery phrase this one time
+            setRecoveryPhrase(SecureKeyManager.takeRecoveryPhrase());
 
             if (initializationMode === 'setup') {
                 onNotification?.('Secure key management system initialized!', 'success');
@@ -78,8 +181,399 @@ export const useFileUploader = (onNotification?: (message: string, severity: 'su
                 onNotification?.('System unlocked successfully!', 'success');
             }
         } catch (error: any) {
-            setPasswordError('Failed to initialize: ' + error.message);
+            if (error instanceof IncorrectPasswordError) {
+                const retryDelay = UnlockThrottle.recordFailure();
+                setPasswordError(retryDelay > 0
+                    ? `Incorrect password - try again in ${UnlockThrottle.describeDelay(retryDelay)}`
+                    : 'Incorrect password');
+            } else {
+                setPasswordError('Failed to initialize: ' + error.message);
+            }
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const refreshKeyring = () => {
+        const keys = SecureCryptoUtils.getKeyring();
+        setKeyring(keys);
+        // Fall back to the master key when the selected upload key is gone or retired
+        setUploadKeyId(prev => keys.some(key => key.keyId === prev && key.status === 'active') ? prev : keys[0].keyId);
+        setIdentityPublicKey(SecureCryptoUtils.getIdentity()?.publicKey || null);
+        setSigningPublicKey(SecureCryptoUtils.getSigningKey()?.publicKey || null);
+        setTrustedSigners(SignatureService.getTrustedSigners());
+    };
+
+    // The keys are gone (SessionManager already reset them): hide everything derived from them
+    const handleSessionLock = (reason: LockReason) => {
+        setIsInitialized(false);
+        setKeyring([]);
+        setIdentityPublicKey(null);
+        setSigningPublicKey(null);
+        setCurrentMetadata(null);
+        setRecoveryPhrase(null);
+        closeKeyDialog();
+
+        setLockNotice(SessionManager.describe(reason));
+        setInitializationMode('unlock');
+        setShowPasswordDialog(true);
+        onNotification?.(SessionManager.describe(reason), 'info');
+    };
+
+    const updateStorageSettings = (settings: StorageSettings) => {
+        StorageProviders.saveSettings(settings);
+        setStorageSettings(settings);
+        setStorageManifests([]);
+    };
+
+    const updateIpfsApiUrl = (apiUrl: string) => {
+        IpfsUploader.saveApiUrl(apiUrl.trim());
+        setIpfsApiUrl(apiUrl);
+    };
+
+    // Throws when a backend is not configured (e.g. S3 without credentials)
+    const getStorageProvider = (): ReplicatedStorage => StorageProviders.createReplicated(storageSettings);
+
+    // Manifests in the selected storage, i.e. the files that can be restored from it
+    const refreshStorageManifests = async () => {
+        setIsProcessing(true);
+        try {
+            const names = await getStorageProvider().list();
+            setStorageManifests(names.filter(name => ManifestService.isManifestFileName(name)));
+        } catch (error: any) {
+            onNotification?.('Could not list the storage: ' + error.message, 'error');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const refreshDedupStats = async () => {
+        try {
+            setDedupStats(await DedupChunkStore.getStats());
+        } catch (error) {
+            console.warn('⚠️ Dedup store unavailable:', error);
+            setDedupStats(null);
+        }
+    };
+
+    // Forget files (by their manifests): the shared chunks they referenced can then be cleaned up
+    const forgetDedupFiles = async (files: File[]) => {
+        setIsProcessing(true);
+        let released = 0;
+        try {
+            for (const file of files) {
+                const { metadata } = await ManifestService.openManifest(await file.text());
+                if (await DedupChunkStore.releaseManifest(metadata)) released++;
+            }
+            onNotification?.(released > 0
+                ? `Forgot ${released} file(s) - clean up the dedup store to free their chunks`
+                : 'None of these files hold chunks in the dedup store (or they were already forgotten)', 'info');
+        } catch (error: any) {
+            onNotification?.('Could not forget the files: ' + error.message, 'error');
+        } finally {
+            setIsProcessing(false);
+            await refreshDedupStats();
+        }
+    };
+
+    // Delete the shared chunks no remembered file refers to any more
+    const collectDedupGarbage = async () => {
+        setIsProcessing(true);
+        try {
+            const removed = await DedupChunkStore.collectGarbage();
+            onNotification?.(`Removed ${removed} unused chunk(s) from the dedup store`, 'success');
+        } catch (error: any) {
+            onNotification?.('Dedup store cleanup failed: ' + error.message, 'error');
+        } finally {
+            setIsProcessing(false);
+            await refreshDedupStats();
+        }
+    };
+
+    // Audit (and repair) every file in the storage. Background scrubs don't hold the session
+    // open and only speak up when they found something.
+    const runScrub = async (mode: ScrubMode, background: boolean = false) => {
+        if (ScrubService.isRunning()) {
+            if (!background) onNotification?.('A storage scrub is already running', 'info');
+            return;
+        }
+
+        let storage: ReplicatedStorage;
+        try {
+            storage = getStorageProvider();
+        } catch (error: any) {
+            if (!background) onNotification?.('Cannot scrub the storage: ' + error.message, 'error');
+            return;
+        }
+
+        const signal = SessionManager.beginJob(background);
+        setScrubStatus('Listing the storage...');
+        try {
+            const summary = await ScrubService.scrub(storage, mode, signal,
+                (done, total) => setScrubStatus(`Checked ${done} of ${total} files...`));
+            const unrepaired = summary.findings - summary.repaired;
+            if (!background || summary.findings > 0) {
+                onNotification?.(summary.findings === 0
+                    ? `Scrub checked ${summary.files} files - everything is intact`
+                    : `Scrub of ${summary.files} files found ${summary.findings} problem(s), repaired ${summary.repaired}`,
+                    unrepaired > 0 ? 'warning' : 'success');
+            }
+        } catch (error: any) {
+            if (!signal.aborted) {
+                onNotification?.('Storage scrub failed: ' + error.message, 'error');
+            }
+        } finally {
+            SessionManager.endJob(signal);
+            setScrubStatus('');
+            setScrubReports(ScrubService.getReports());
+        }
+    };
+
+    // The timer always runs the latest runScrub, i.e. against the current storage settings
+    automaticScrub.current = () => runScrub('spot', true);
+
+    const updateScrubSettings = (settings: ScrubSettings) => {
+        ScrubService.saveSettings(settings);
+        setScrubSettings(settings);
+    };
+
+    const checkKeystore = async () => {
+        setIsProcessing(true);
+        try {
+            const report = await SecureKeyManager.checkKeystore();
+            setKeystoreReport(report);
+            onNotification?.(report.healthy ? 'Keystore is healthy' : `Keystore check found ${report.findings.length} problem(s)`,
+                report.healthy ? 'success' : 'warning');
+        } catch (error: any) {
+            onNotification?.('Keystore check failed: ' + error.message, 'error');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const lockSession = () => {
+        SessionManager.lock('manual');
+    };
+
+    const updateSessionSettings = (settings: SessionSettings) => {
+        SessionManager.saveSettings(settings);
+        setSessionSettings(settings);
+    };
+
+    const removeTrustedSigner = (signerId: string) => {
+        SignatureService.removeTrustedSigner(signerId);
+        setTrustedSigners(SignatureService.getTrustedSigners());
+        onNotification?.(`Signer ${signerId} is no longer trusted`, 'info');
+    };
+
+    // Open a share bundle with its passphrase only - no keystore is set up or unlocked
+    const enterRecipientMode = () => {
+        setShowPasswordDialog(false);
+        setPassword('');
+        setPasswordError('');
+        setRecipientMode(true);
+    };
+
+    const exitRecipientMode = () => {
+        setRecipientMode(false);
+        setBundlePassphrase('');
+        setShowPasswordDialog(true);
+    };
+
+    const openKeyDialog = (mode: KeyDialogMode, keyId: string = '') => {
+        setKeyForm({ ...EMPTY_KEY_FORM, keyId });
+        setBundleFiles([]);
+        setKeyFormError('');
+        setKeyDialogMode(mode);
+    };
+
+    const closeKeyDialog = () => {
+        setKeyForm(EMPTY_KEY_FORM);
+        setKeyFormError('');
+        setKeyDialogMode(null);
+    };
+
+    const handleKeyManagementSubmit = async () => {
+        // Sharing only re-wraps a file key with keys that are already unlocked
+        const needsPassword = !KEY_DIALOG_MODES_WITHOUT_PASSWORD.includes(keyDialogMode!);
+        if (needsPassword && !keyForm.currentPassword) {
+            setKeyFormError('Current password is required');
+            return;
+        }
+        if (keyDialogMode === 'share' && (!keyForm.manifest || parseRecipientKeys(keyForm.recipients).length === 0)) {
+            setKeyFormError('Select a manifest and paste at least one recipient public key');
+            return;
+        }
+        if (keyDialogMode === 'trust' && (!keyForm.label.trim() || !keyForm.signerKey.trim())) {
+            setKeyFormError("Enter the signer's name and paste their public signing key");
+            return;
+        }
+        if (keyDialogMode === 'bundle' && bundleFiles.length === 0) {
+            setKeyFormError('Select the chunk files and manifest, or the ZIP archive');
+            return;
+        }
+        if (keyDialogMode === 'password' || keyDialogMode === 'export' || keyDialogMode === 'bundle') {
+            if (!keyForm.newPassword.trim()) {
+                setKeyFormError(keyDialogMode === 'password' ? 'New password is required' :
+                    (keyDialogMode === 'export' ? 'Export password is required' : 'Passphrase is required'));
+                return;
+            }
+            if (keyForm.newPassword !== keyForm.confirmPassword) {
+                setKeyFormError('Passwords do not match');
+                return;
+            }
+        }
+        if (keyDialogMode === 'password') {
+            const strength = PasswordPolicy.evaluate(keyForm.newPassword);
+            if (!strength.acceptable) {
+                setKeyFormError(strength.problems[0]);
+                return;
+            }
+        }
+        if (keyDialogMode === 'create' && !keyForm.label.trim()) {
+            setKeyFormError('Key name is required');
+            return;
+        }
+        if (keyDialogMode === 'restore' && !keyForm.backup.trim()) {
+            setKeyFormError('Paste the key shares, one per line');
+            return;
+        }
+        if (keyDialogMode === 'phrase' && !keyForm.backup.trim()) {
+            setKeyFormError('Enter your 24-word recovery phrase');
+            return;
+        }
+        if (keyDialogMode === 'import' && (!keyForm.backup.trim() || !keyForm.newPassword)) {
+            setKeyFormError('Paste the exported key and enter its export password');
+            return;
+        }
+        // Each of these dialogs is a guess at the unlock password, throttled like the unlock dialog
+        const delay = needsPassword ? UnlockThrottle.remainingDelay() : 0;
+        if (delay > 0) {
+            setKeyFormError(`Too many failed attempts - try again in ${UnlockThrottle.describeDelay(delay)}`);
+            return;
+        }
+
+        setIsProcessing(true);
+        setKeyFormError('');
+        const signal = SessionManager.beginJob();
+
+        try {
+            switch (keyDialogMode) {
+                case 'password':
+                    await SecureKeyManager.changePassword(keyForm.currentPassword, keyForm.newPassword);
+                    onNotification?.('Password changed successfully!', 'success');
+                    break;
+                case 'rotate': {
+                    const newKeyId = await SecureKeyManager.rotateMasterKey(keyForm.currentPassword);
+                    setRecoveryPhrase(SecureKeyManager.takeRecoveryPhrase());
+                    onNotification?.(`Master key rotated - new uploads use key ${newKeyId}`, 'success');
+                    break;
+                }
+                case 'create': {
+                    const keyId = await SecureKeyManager.createKey(keyForm.label, keyForm.currentPassword);
+                    onNotification?.(`Key "${keyForm.label.trim()}" (${keyId}) created`, 'success');
+                    break;
+                }
+                case 'import': {
+                    // The export password travels with the key; the same field holds it here
+                    const keyId = await SecureKeyManager.importKey(
+                        keyForm.backup,
+                        keyForm.newPassword,
+                        keyForm.currentPassword,
+                        keyForm.label || undefined
+                    );
+                    onNotification?.(`Key ${keyId} imported`, 'success');
+                    break;
+                }
+                case 'export': {
+                    const backup = await SecureKeyManager.exportKey(keyForm.keyId, keyForm.currentPassword, keyForm.newPassword);
+                    const label = SecureCryptoUtils.getKeyLabel(keyForm.keyId) || 'key';
+                    await DownloadManager.downloadWithDelay(new Blob([backup], { type: 'text/plain' }), `${label}_${keyForm.keyId}.key`, 0);
+                    onNotification?.(`Key "${label}" exported`, 'success');
+                    break;
+                }
+                case 'retire':
+                    await SecureKeyManager.retireKey(keyForm.keyId, keyForm.currentPassword);
+                    onNotification?.(`Key ${keyForm.keyId} retired - it is kept for decryption only`, 'success');
+                    break;
+                case 'split': {
+                    const shareCount = parseInt(keyForm.shareCount, 10);
+                    const shares = await SecureKeyManager.exportKeyShares(
+                        keyForm.currentPassword,
+                        shareCount,
+                        parseInt(keyForm.shareThreshold, 10)
+                    );
+                    for (let i = 0; i < shares.length; i++) {
+                        await DownloadManager.downloadWithDelay(
+                            new Blob([shares[i]], { type: 'text/plain' }),
+                            `key_share_${i + 1}_of_${shareCount}.txt`,
+                            i === 0 ? 0 : CONSTANTS.DOWNLOAD_DELAY
+                        );
+                    }
+                    onNotification?.(`Master key split into ${shareCount} shares - give each to a different person`, 'success');
+                    break;
+                }
+                case 'restore': {
+                    const keyId = await SecureKeyManager.importKeyFromShares(keyForm.backup.split(/\r?\n/), keyForm.currentPassword);
+                    onNotification?.(`Master key ${keyId} restored from shares`, 'success');
+                    break;
+                }
+                case 'phrase': {
+                    const keyId = await SecureKeyManager.importKeyFromRecoveryPhrase(keyForm.backup, keyForm.currentPassword);
+                    onNotification?.(`Master key ${keyId} restored from recovery phrase`, 'success');
+                    break;
+                }
+                case 'share': {
+                    const recipients = parseRecipientKeys(keyForm.recipients);
+                    const manifest = await ManifestService.addRecipients(keyForm.manifest, recipients);
+                    // Same name, so it replaces the old manifest next to the unchanged chunks
+                    await DownloadManager.downloadWithDelay(new Blob([manifest], { type: 'application/json' }), keyForm.manifestName, 0);
+                    onNotification?.(`${keyForm.manifestName} shared with ${recipients.length} recipient(s) - send them the updated manifest`, 'success');
+                    break;
+                }
+                case 'bundle': {
+                    const bundle = await ShareBundleService.createBundle(bundleFiles, keyForm.newPassword);
+                    await DownloadManager.createZipDownload(bundle.entries, bundle.name);
+                    onNotification?.('Share bundle created - send the passphrase separately from the bundle', 'success');
+                    break;
+                }
+                case 'repair': {
+                    const report = await SecureKeyManager.repairKeystore(keyForm.currentPassword);
+                    setKeystoreReport(report);
+                    onNotification?.(report.healthy ? 'Keystore repaired' : 'Some keystore problems could not be repaired',
+                        report.healthy ? 'success' : 'warning');
+                    break;
+                }
+                case 'trust': {
+                    const signer = await SignatureService.addTrustedSigner(keyForm.label, keyForm.signerKey);
+                    setTrustedSigners(SignatureService.getTrustedSigners());
+                    onNotification?.(`Manifests signed by "${signer.name}" (${signer.signerId}) are now trusted`, 'success');
+                    break;
+                }
+            }
+
+            // Don't load the keys again behind a lock that happened meanwhile
+            SessionManager.throwIfLocked(signal);
+
+            // Reload the keyring so new keys can encrypt and retired ones only decrypt
+            if (keyDialogMode !== 'password' && keyDialogMode !== 'export' && keyDialogMode !== 'split' &&
+                !KEY_DIALOG_MODES_WITHOUT_PASSWORD.includes(keyDialogMode!)) {
+                await SecureCryptoUtils.initialize(keyForm.currentPassword);
+                refreshKeyring();
+            }
+            if (needsPassword) UnlockThrottle.recordSuccess();
+            closeKeyDialog();
+        } catch (error: any) {
+            if (needsPassword && error instanceof IncorrectPasswordError) {
+                const retryDelay = UnlockThrottle.recordFailure();
+                setKeyFormError(retryDelay > 0
+                    ? `${error.message} - try again in ${UnlockThrottle.describeDelay(retryDelay)}`
+                    : error.message);
+            } else {
+                setKeyFormError(error.message);
+            }
         } finally {
+            SessionManager.endJob(signal);
             setIsProcessing(false);
         }
     };
@@ -96,6 +590,35 @@ export const useFileUploader = (onNotification?: (message: string, severity: 'su
         initializationMode,
         downloadMethod,
         pendingChunks,
+        erasureMode,
+        compressionEnabled,
+        deduplicationEnabled,
+        chunkingMode,
+        keyDialogMode,
+        keyForm,
+        keyFormError,
+        keyring,
+        uploadKeyId,
+        recoveryPhrase,
+        identityPublicKey,
+        uploadRecipients,
+        bundleFiles,
+        recipientMode,
+        bundlePassphrase,
+        signingEnabled,
+        signingPublicKey,
+        trustedSigners,
+        sessionSettings,
+        lockNotice,
+        keystoreReport,
+        storageSettings,
+        storageManifests,
+        replicationFactor,
+        ipfsApiUrl,
+        scrubReports,
+        scrubSettings,
+        scrubStatus,
+        dedupStats,
 
         // Constants
         CONSTANTS,
@@ -109,8 +632,38 @@ export const useFileUploader = (onNotification?: (message: string, severity: 'su
         setPasswordError,
         setDownloadMethod,
         setPendingChunks,
+        setErasureMode,
+        setCompressionEnabled,
+        setDeduplicationEnabled,
+        setChunkingMode,
+        setKeyForm,
+        setUploadKeyId,
+        setRecoveryPhrase,
+        setUploadRecipients,
+        setBundleFiles,
+        setBundlePassphrase,
+        setSigningEnabled,
+        setReplicationFactor,
 
         // Methods
-        handlePasswordSubmit
+        handlePasswordSubmit,
+        enterRecipientMode,
+        exitRecipientMode,
+        removeTrustedSigner,
+        lockSession,
+        updateSessionSettings,
+        checkKeystore,
+        updateStorageSettings,
+        getStorageProvider,
+        refreshStorageManifests,
+        updateIpfsApiUrl,
+        runScrub,
+        updateScrubSettings,
+        refreshDedupStats,
+        forgetDedupFiles,
+        collectDedupGarbage,
+        openKeyDialog,
+        closeKeyDialog,
+        handleKeyManagementSubmit
     };
 };
\ No newline at end of file
@@ -0,0 +1,171 @@
+// services/chunkSources.ts - Where the reconstruction services read a chunk set from
+import JSZip from 'jszip';
+import { CarFile } from '../utils/carFile';
+import { ManifestService } from './manifestService';
+import { ReplicatedStorage } from './replicatedStorage';
+import { StorageProvider } from './storageProviders';
+
+// What the manifest knows about a chunk, for sources that keep several copies of it
+export interface ChunkReadHints {
+    replicas?: string[];                              // Backends holding a copy (manifest placement map)
+    verify?: (data: Uint8Array) => Promise<boolean>;  // Integrity check, so a bad copy can be skipped
+}
+
+export interface ChunkSource {
+    readonly description: string;
+    readManifest(): Promise<string>;
+    listChunkNames(): string[];
+    readChunk(name: string, hints?: ChunkReadHints): Promise<Uint8Array | null>;
+}
+
+// Chunk files and manifest selected individually in the file picker
+export class FileListChunkSource implements ChunkSource {
+    readonly description = 'selected files';
+    private readonly files: Map<string, File>;
+
+    constructor(files: FileList | File[]) {
+        this.files = new Map(Array.from(files).map(f => [f.name, f]));
+    }
+
+    async readManifest(): Promise<string> {
+        const manifestFile = Array.from(this.files.values()).find(f => ManifestService.isManifestFileName(f.name));
+        if (!manifestFile) {
+            throw new Error('Manifest file not found. Please include the _manifest.json file.');
+        }
+        return manifestFile.text();
+    }
+
+    listChunkNames(): string[] {
+        return Array.from(this.files.keys()).filter(name => name.endsWith('.enc'));
+    }
+
+    async readChunk(name: string): Promise<Uint8Array | null> {
+        const file = this.files.get(name);
+        return file ? new Uint8Array(await file.arrayBuffer()) : null;
+    }
+}
+
+// ZIP archive produced by DownloadManager.createZipDownload
+export class ZipChunkSource implements ChunkSource {
+    readonly description = 'ZIP archive';
+
+    private constructor(private readonly zip: JSZip) {
+    }
+
+    static async load(zipFile: File): Promise<ZipChunkSource> {
+        return new ZipChunkSource(await JSZip.loadAsync(zipFile));
+    }
+
+    async readManifest(): Promise<string> {
+        const manifestFile = Object.keys(this.zip.files).find(f => ManifestService.isManifestFileName(f));
+        if (!manifestFile) throw new Error("Manifest not found in zip");
+        return this.zip.files[manifestFile].async('text');
+    }
+
+    listChunkNames(): string[] {
+        return Object.keys(this.zip.files).filter(f => f.endsWith('.enc'));
+    }
+
+    async readChunk(name: string): Promise<Uint8Array | null> {
+        const entry = this.zip.files[name];
+        return entry ? entry.async('uint8array') : null;
+    }
+}
+
+// Old single-JSON archive (metadata + chunk byte arrays), kept for backward compatibility
+export class ArchiveV0ChunkSource implements ChunkSource {
+    readonly description = 'JSON archive';
+
+    private constructor(private readonly archiveData: any) {
+    }
+
+    static async load(archiveFile: File): Promise<ArchiveV0ChunkSource> {
+        return new ArchiveV0ChunkSource(JSON.parse(await archiveFile.text()));
+    }
+
+    async readManifest(): Promise<string> {
+        return JSON.stringify(this.archiveData.metadata);
+    }
+
+    listChunkNames(): string[] {
+        return this.archiveData.chunks.map((chunk: any) => chunk.filename);
+    }
+
+    async readChunk(name: string): Promise<Uint8Array | null> {
+        const chunk = this.archiveData.chunks.find((c: any) => c.filename === name);
+        return chunk ? new Uint8Array(chunk.data) : null;
+    }
+}
+
+// CARv1 export (see CarFile.packChunkSet); chunks are listed under their CID file names
+export class CarChunkSource implements ChunkSource {
+    readonly description = 'CAR file';
+
+    private constructor(private readonly manifest: Uint8Array, private readonly chunks: Map<string, Uint8Array>) {
+    }
+
+    static async load(carFile: File): Promise<CarChunkSource> {
+        const { manifest, chunks } = await CarFile.unpackChunkSet(new Uint8Array(await carFile.arrayBuffer()));
+        return new CarChunkSource(manifest, chunks);
+    }
+
+    async readManifest(): Promise<string> {
+        return new TextDecoder().decode(this.manifest);
+    }
+
+    listChunkNames(): string[] {
+        return Array.from(this.chunks.keys()).map(cid => ManifestService.cidChunkFileName(cid));
+    }
+
+    async readChunk(name: string): Promise<Uint8Array | null> {
+        return this.chunks.get(name.replace(/\.enc$/, '')) || null;
+    }
+}
+
+// Chunk set kept by a storage provider, found through its manifest's name
+export class StorageChunkSource implements ChunkSource {
+    readonly description: string;
+
+    private constructor(
+        private readonly provider: StorageProvider,
+        private readonly manifestName: string,
+        private readonly chunkNames: string[]
+    ) {
+        this.description = provider.description;
+    }
+
+    // The chunk list is fetched up front: chunks are named by CID (or dedup ID), not after the
+    // manifest, so everything stored is listed
+    static async load(provider: StorageProvider, manifestName: string): Promise<StorageChunkSource> {
+        const names = await provider.list();
+        if (!names.includes(manifestName)) {
+            throw new Error(`Manifest ${manifestName} is not in ${provider.description}`);
+        }
+        return new StorageChunkSource(provider, manifestName, names.filter(name => name.endsWith('.enc')));
+    }
+
+    async readManifest(): Promise<string> {
+        const data = await this.provider.get(this.manifestName);
+        if (!data) {
+            throw new Error(`Manifest ${this.manifestName} is not in ${this.provider.description}`);
+        }
+        return new TextDecoder().decode(data);
+    }
+
+    listChunkNames(): string[] {
+        return this.chunkNames;
+    }
+
+    async readChunk(name: string, hints: ChunkReadHints = {}): Promise<Uint8Array | null> {
+        try {
+            if (this.provider instanceof ReplicatedStorage) {
+                return await this.provider.read(name, hints.replicas, hints.verify);
+            }
+            return await this.provider.get(name);
+        } catch (error) {
+            // Treated like a missing chunk, so parity can still take over
+            console.warn(`⚠️ Could not read ${name} from ${this.provider.description}:`, error);
+            return null;
+        }
+    }
+}
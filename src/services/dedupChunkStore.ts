@@ -0,0 +1,180 @@
+// services/dedupChunkStore.ts - Cross-file deduplicating store of encrypted chunks (IndexedDB)
+import { FileMetadata } from "../types/fileMetadata";
+
+export interface StoredChunk {
+    id: string;          // HMAC of the chunk plaintext under a master-derived key (hex)
+    data: Uint8Array;    // Encrypted chunk
+    hash: string;        // SHA-256 of `data`
+    refCount: number;    // Number of manifest entries pointing at this chunk
+    createdAt: number;
+}
+
+export interface DedupStats {
+    chunks: number;
+    bytes: number;
+    references: number;
+}
+
+export class DedupChunkStore {
+    private static readonly DB_NAME = 'SecureFileSplitterChunks';
+    private static readonly DB_VERSION = 1;
+    private static readonly STORE_NAME = 'chunks';
+    private static readonly RELEASED_KEY = 'secure_file_splitter_dedup_released';
+
+    static async get(id: string): Promise<StoredChunk | null> {
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readonly');
+            const result = await this.request<StoredChunk | undefined>(tx.objectStore(this.STORE_NAME).get(id));
+            return result || null;
+        } finally {
+            db.close();
+        }
+    }
+
+    // Take a reference to a stored chunk: the chunk, or null if it is not stored.
+    // Lookup and increment share one transaction, so concurrent uploads cannot lose a reference.
+    static async addRefIfStored(id: string): Promise<StoredChunk | null> {
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readwrite');
+            const store = tx.objectStore(this.STORE_NAME);
+            const chunk = await this.request<StoredChunk | undefined>(store.get(id));
+            if (!chunk) {
+                return null;
+            }
+            chunk.refCount++;
+            await this.request(store.put(chunk));
+            return chunk;
+        } finally {
+            db.close();
+        }
+    }
+
+    // Store a new chunk with one reference. If another upload stored it first, take a reference
+    // to that copy instead and return it (the caller must use its bytes); null when ours was stored.
+    static async putOrAddRef(id: string, data: Uint8Array, hash: string): Promise<StoredChunk | null> {
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readwrite');
+            const store = tx.objectStore(this.STORE_NAME);
+            const existing = await this.request<StoredChunk | undefined>(store.get(id));
+            if (existing) {
+                existing.refCount++;
+                await this.request(store.put(existing));
+                return existing;
+            }
+            const chunk: StoredChunk = { id, data, hash, refCount: 1, createdAt: Date.now() };
+            await this.request(store.put(chunk));
+            return null;
+        } finally {
+            db.close();
+        }
+    }
+
+    // Adjust the reference count of an existing chunk
+    static async addRef(id: string, delta: number = 1): Promise<void> {
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readwrite');
+            const store = tx.objectStore(this.STORE_NAME);
+            const chunk = await this.request<StoredChunk | undefined>(store.get(id));
+            if (!chunk) {
+                throw new Error(`Chunk ${id} is not in the dedup store`);
+            }
+            chunk.refCount = Math.max(0, chunk.refCount + delta);
+            await this.request(store.put(chunk));
+        } finally {
+            db.close();
+        }
+    }
+
+    // Drop the references held by a manifest when its file is forgotten. Each file is released
+    // only once; false if it holds no references (not deduplicated, or already released).
+    static async releaseManifest(metadata: FileMetadata): Promise<boolean> {
+        const released = this.getReleasedFiles();
+        if (!metadata.chunkRefs || !metadata.fileId || released.includes(metadata.fileId)) {
+            return false;
+        }
+
+        for (const ref of metadata.chunkRefs) {
+            try {
+                await this.addRef(ref.id, -1);
+            } catch (error) {
+                console.warn(`Could not release chunk ${ref.id}:`, error);
+            }
+        }
+        localStorage.setItem(this.RELEASED_KEY, JSON.stringify([...released, metadata.fileId]));
+        console.log(`♻️ Released ${metadata.chunkRefs.length} chunk references of ${metadata.originalFileName}`);
+        return true;
+    }
+
+    // Delete every chunk no manifest refers to any more; returns how many were removed
+    static async collectGarbage(): Promise<number> {
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readwrite');
+            const store = tx.objectStore(this.STORE_NAME);
+            const chunks = await this.request<StoredChunk[]>(store.getAll());
+            const unreferenced = chunks.filter(chunk => chunk.refCount <= 0);
+
+            for (const chunk of unreferenced) {
+                await this.request(store.delete(chunk.id));
+            }
+
+            console.log(`🗑️ Dedup store: removed ${unreferenced.length} unreferenced chunks`);
+            return unreferenced.length;
+        } finally {
+            db.close();
+        }
+    }
+
+    static async getStats(): Promise<DedupStats> {
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readonly');
+            const chunks = await this.request<StoredChunk[]>(tx.objectStore(this.STORE_NAME).getAll());
+            return {
+                chunks: chunks.length,
+                bytes: chunks.reduce((sum, chunk) => sum + chunk.data.length, 0),
+                references: chunks.reduce((sum, chunk) => sum + chunk.refCount, 0)
+            };
+        } finally {
+            db.close();
+        }
+    }
+
+    private static getReleasedFiles(): string[] {
+        try {
+            return JSON.parse(localStorage.getItem(this.RELEASED_KEY) || '[]');
+        } catch (error) {
+            console.warn('Released file list is unreadable, starting a new one:', error);
+            return [];
+        }
+    }
+
+    private static openDatabase(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('Chunk store open blocked'));
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+                    db.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+                }
+            };
+
+            request.onsuccess = () => resolve(request.result);
+        });
+    }
+
+    private static request<T>(request: IDBRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
@@ -1,19 +1,167 @@
 // services/fileEncryptionService.ts
+import { ChunkPlacement, ChunkReference, ErasureCodingInfo, FileMetadata } from "../types/fileMetadata";
+import { ChunkCodec, ChunkCompression } from "../utils/compression";
+import { ContentDefinedChunker, ContentDefinedChunkingParams } from "../utils/contentDefinedChunking";
 import { SecureCryptoUtils } from "../utils/cryptoUtils";
+import { Cid } from "../utils/cid";
+import { bytesToHex, hexToBytes } from "../utils/encoding";
+import { ReedSolomon } from "../utils/erasureCoding";
+import { MerkleTree } from "../utils/merkleTree";
+import { DedupChunkStore } from "./dedupChunkStore";
+import { ManifestService } from "./manifestService";
+import { PlacementEngine, PlacementOptions } from "./placementEngine";
+import { SessionManager } from "./sessionManager";
+import { SignatureService } from "./signatureService";
+
+export interface EncryptedChunk {
+    blob: Blob;
+    filename: string;
+    index: number;          // Data chunk index, or stripe index for parity chunks
+    hash: string;           // SHA-256 of the encrypted bytes (Merkle leaf for data chunks)
+    cid: string;            // CIDv1 of the encrypted bytes, also the file name (<cid>.enc)
+    replicas?: string[];    // Backends to store it on, when a placement was requested
+    kind: 'data' | 'parity';
+    deduplicated?: boolean; // Reused from the dedup store (only emitted with emitDeduplicated)
+}
+
+export interface EncryptionOptions {
+    // k-of-n erasure coding: every `dataShards` data chunks get `parityShards` parity chunks
+    erasureCoding?: { dataShards: number; parityShards: number } | null;
+
+    // Compress each chunk before encryption; chunks that don't shrink are stored as-is
+    compression?: ChunkCodec;
+
+    // Content-defined (FastCDC) boundaries instead of fixed `chunkSize` slices
+    contentDefinedChunking?: ContentDefinedChunkingParams | null;
+
+    // Reuse chunks already in the local dedup store instead of emitting new .enc files
+    deduplicate?: boolean;
+
+    // Also emit reused chunks (from the dedup store), for targets that must hold every chunk
+    // themselves: storage backends and CAR files
+    emitDeduplicated?: boolean;
+
+    // Keyring key that wraps the file key (defaults to the master key)
+    keyId?: string;
+
+    // Public keys (sfs-pub-v1:...) of people who can open this file with their own identity
+    recipients?: string[];
+
+    // Sign the metadata with our ECDSA signing key so readers can check who produced it
+    sign?: boolean;
+
+    // Replicated storage: each emitted chunk is assigned R of the N backends, recorded in the manifest
+    placement?: PlacementOptions | null;
+
+    // Aborted when the session locks: encryption stops before the next chunk
+    signal?: AbortSignal;
+}
+
+export interface EncryptionResult {
+    metadata: FileMetadata;                       // Plaintext metadata, for display only
+    manifest: { blob: Blob; filename: string };   // Encrypted manifest to ship with the chunks
+    stats: { emittedChunks: number; parityChunks: number; dedupedChunks: number };
+}
 
 export class FileEncryptionService {
     static async *encryptFileGenerator(
         file: File,
         chunkSize: number,
-        onProgressUpdate: (progress: any) => void
-    ) {
+        onProgressUpdate: (progress: any) => void,
+        options: EncryptionOptions = {}
+    ): AsyncGenerator<EncryptedChunk, EncryptionResult> {
+        // Dedup store references taken so far. Until the manifest exists nothing else can release
+        // them, so a run that stops early (session lock, error, consumer gone) gives them back.
+        const takenRefs: string[] = [];
+        let finished = false;
+        try {
+            const result = yield* this.encryptFile(file, chunkSize, onProgressUpdate, options, takenRefs);
+            finished = true;
+            return result;
+        } finally {
+            if (!finished && takenRefs.length > 0) {
+                await this.releaseRefs(takenRefs);
+            }
+        }
+    }
+
+    private static async *encryptFile(
+        file: File,
+        chunkSize: number,
+        onProgressUpdate: (progress: any) => void,
+        options: EncryptionOptions,
+        takenRefs: string[]
+    ): AsyncGenerator<EncryptedChunk, EncryptionResult> {
         console.log(`🔄 Processing file: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
 
-        const totalChunks = Math.ceil(file.size / chunkSize);
+        // Chunk boundaries: fixed offsets, or a first FastCDC pass over the file. Boundaries are
+        // needed up front because every chunk's AAD binds the total chunk count.
+        const cdc = options.contentDefinedChunking || null;
+        let chunkLengths: number[] | undefined;
+        if (cdc) {
+            onProgressUpdate({
+                current: 0,
+                total: 1,
+                status: 'encrypting',
+                currentFile: 'Finding content-defined chunk boundaries...'
+            });
+            chunkLengths = await new ContentDefinedChunker(cdc).computeChunkLengths(file);
+            console.log(`✂️ Content-defined chunking: ${chunkLengths.length} chunks (avg ${(file.size / Math.max(chunkLengths.length, 1) / 1024).toFixed(0)} KB)`);
+        }
+
+        const totalChunks = chunkLengths ? chunkLengths.length : Math.ceil(file.size / chunkSize);
         const extension = file.name.split('.').pop() || 'bin';
         const fileName = file.name.replace(`.${extension}`, '');
 
         const chunkHashes: string[] = [];
+        const chunkCids: string[] = [];
+
+        // Every file gets its own data key; only the wrapped form is kept in the metadata
+        const fileKey = await SecureCryptoUtils.generateFileKey();
+        const wrappedKey = await SecureCryptoUtils.wrapFileKey(fileKey, options.keyId);
+        const fileId = SecureCryptoUtils.generateFileId();
+
+        // Optional erasure coding: parity is computed per stripe of encrypted chunks
+        const rs = options.erasureCoding
+            ? new ReedSolomon(options.erasureCoding.dataShards, options.erasureCoding.parityShards)
+            : null;
+        const erasure: ErasureCodingInfo | undefined = rs ? {
+            dataShards: rs.dataShards,
+            parityShards: rs.parityShards,
+            encryptedLengths: [],
+            parityHashes: [],
+            parityCids: []
+        } : undefined;
+        let stripe: Uint8Array[] = [];
+
+        const compression = options.compression || 'none';
+        let compressedChunks = 0;
+
+        // Optional cross-file deduplication (keys differ per compression mode so framed and
+        // unframed copies of the same plaintext never get mixed up)
+        const dedupKeys = options.deduplicate ? {
+            idKey: await SecureCryptoUtils.deriveHmacKey(`sfs-dedup-id:${compression}`),
+            convergenceKey: await SecureCryptoUtils.deriveHmacKey(`sfs-dedup-key:${compression}`)
+        } : null;
+        const chunkRefs: ChunkReference[] = [];
+        let dedupedChunks = 0;
+        const emittedFiles = new Set<string>();
+        let emittedChunks = 0;
+
+        const placement: ChunkPlacement | undefined = options.placement ? {
+            replicas: options.placement.replicas,
+            backends: options.placement.backends,
+            chunks: {}
+        } : undefined;
+        if (options.placement) {
+            PlacementEngine.validate(options.placement);
+        }
+        const place = (filename: string): string[] | undefined => {
+            if (!placement || !options.placement) return undefined;
+            placement.chunks[filename] = PlacementEngine.place(filename, options.placement);
+            return placement.chunks[filename];
+        };
+        let parityChunks = 0;
 
         // We don't accumulate encryptedChunks here anymore to save memory
         // The consumer (FileUploader) decides what to do with them
@@ -28,26 +176,126 @@ export class FileEncryptionService {
         console.log(`🔐 Encrypting ${totalChunks} chunks...`);
 
         let lastUpdateTime = Date.now();
+        let offset = 0;
 
         for (let i = 0; i < totalChunks; i++) {
+            SessionManager.throwIfLocked(options.signal);
             try {
-                const start = i * chunkSize;
-                const end = Math.min(start + chunkSize, file.size);
+                const start = offset;
+                const end = chunkLengths ? start + chunkLengths[i] : Math.min(start + chunkSize, file.size);
+                offset = end;
                 const chunkBlob = file.slice(start, end);
                 let chunkBuffer = await chunkBlob.arrayBuffer();
                 let chunkData = new Uint8Array(chunkBuffer);
 
-                // Calculate hash of the original chunk
-                const chunkHash = await SecureCryptoUtils.calculateHash(chunkData);
+                // Deduplication: a chunk already in the store is referenced, not encrypted again
+                let chunkRef: ChunkReference | null = null;
+                let encrypted: Uint8Array | null = null;
+                if (dedupKeys) {
+                    chunkRef = await this.deriveChunkReference(dedupKeys, chunkData);
+                    chunkRefs.push(chunkRef);
+
+                    const existing = await DedupChunkStore.addRefIfStored(chunkRef.id);
+                    if (existing) {
+                        takenRefs.push(chunkRef.id);
+                        encrypted = existing.data;
+                        dedupedChunks++;
+                    }
+                }
+                let isNewChunk = encrypted === null;
+
+                if (!encrypted) {
+                    // Compress first (ciphertext doesn't compress), recording the codec in the chunk itself
+                    if (compression !== 'none') {
+                        const { framed, codec } = await ChunkCompression.frame(chunkData, compression);
+                        chunkData = framed;
+                        if (codec !== 'none') compressedChunks++;
+                    }
+
+                    if (chunkRef) {
+                        // Deduplicated chunks live outside any one file: own key, bound to their ID
+                        const chunkKey = await SecureCryptoUtils.importChunkKey(chunkRef.key);
+                        encrypted = await SecureCryptoUtils.encryptChunk(chunkData, chunkKey, hexToBytes(chunkRef.id));
+                    } else {
+                        // Encrypt the chunk, bound to this file and position
+                        const aad = SecureCryptoUtils.buildChunkAad(fileId, i, totalChunks);
+                        encrypted = await SecureCryptoUtils.encryptChunk(chunkData, fileKey, aad);
+                    }
+                }
+
+                // Hash the encrypted chunk - this is the Merkle leaf, checkable without the key
+                let chunkHash = await SecureCryptoUtils.calculateHash(encrypted);
+
+                if (chunkRef && isNewChunk) {
+                    // Another upload may have stored the same chunk since the lookup; then its copy is used
+                    const stored = await DedupChunkStore.putOrAddRef(chunkRef.id, encrypted, chunkHash);
+                    takenRefs.push(chunkRef.id);
+                    if (stored) {
+                        encrypted = stored.data;
+                        chunkHash = stored.hash;
+                        isNewChunk = false;
+                        dedupedChunks++;
+                    }
+                }
+
+                const chunkCid = Cid.fromSha256(chunkHash);
                 chunkHashes.push(chunkHash);
+                chunkCids.push(chunkCid);
+
+                // Yield new chunks immediately; deduplicated ones are already stored locally, and are
+                // only yielded (once per file) when the target needs its own copy
+                const filename = ManifestService.cidChunkFileName(chunkCid);
+                if (isNewChunk || (options.emitDeduplicated && !emittedFiles.has(filename))) {
+                    const blob = new Blob([encrypted as any]);
+                    emittedFiles.add(filename);
 
-                // Encrypt the chunk
-                const encrypted = await SecureCryptoUtils.encryptChunk(chunkData);
-                const blob = new Blob([encrypted as any]);
-                const filename = `${fileName}_chunk_${i.toString().padStart(4, '0')}.enc`;
+                    emittedChunks++;
+                    yield {
+                        blob,
+                        filename,
+                        index: i,
+                        hash: chunkHash,
+                        cid: chunkCid,
+                        replicas: place(filename),
+                        kind: 'data',
+                        deduplicated: !isNewChunk
+                    };
+                }
+
+                // Close the stripe once it is full (or the file ends) and emit its parity chunks
+                if (rs && erasure) {
+                    erasure.encryptedLengths.push(encrypted.length);
+                    stripe.push(encrypted);
+
+                    if (stripe.length === rs.dataShards || i === totalChunks - 1) {
+                        const stripeIndex = erasure.parityHashes.length;
+                        const parityHashes: string[] = [];
+                        const parityCids: string[] = [];
+
+                        const parityShards = this.encodeStripe(rs, stripe);
+                        for (let p = 0; p < parityShards.length; p++) {
+                            const parityHash = await SecureCryptoUtils.calculateHash(parityShards[p]);
+                            const parityCid = Cid.fromSha256(parityHash);
+                            parityHashes.push(parityHash);
+                            parityCids.push(parityCid);
+                            parityChunks++;
+                            const filename = ManifestService.cidChunkFileName(parityCid);
+                            yield {
+                                blob: new Blob([parityShards[p] as any]),
+                                filename,
+                                index: stripeIndex,
+                                hash: parityHash,
+                                cid: parityCid,
+                                replicas: place(filename),
+                                kind: 'parity'
+                            };
+                        }
 
-                // Yield the chunk immediately
-                yield { blob, filename, index: i };
+                        erasure.parityHashes.push(parityHashes);
+                        erasure.parityCids!.push(parityCids);
+                        stripe = [];
+                    }
+                }
 
                 // Throttle progress updates
                 const now = Date.now();
@@ -76,23 +324,89 @@ export class FileEncryptionService {
             }
         }
 
-        // Calculate composite hash
-        const combinedHashes = new TextEncoder().encode(chunkHashes.join(''));
-        const finalHash = await SecureCryptoUtils.calculateHash(combinedHashes);
+        if (compression !== 'none') {
+            console.log(`🗜️ Compressed ${compressedChunks}/${totalChunks} chunks with ${compression}`);
+        }
+
+        if (dedupKeys) {
+            console.log(`♻️ Deduplicated ${dedupedChunks}/${totalChunks} chunks`);
+        }
+
+        // Merkle root over the encrypted chunk hashes
+        const merkleRoot = await MerkleTree.computeRoot(chunkHashes);
 
-        const metadata = {
+        const metadata: FileMetadata = {
             originalFileName: fileName,
             originalExtension: extension,
             originalSize: file.size,
             totalChunks: totalChunks,
             timestamp: Date.now(),
-            hash: finalHash,
-            hashType: 'composite',
-            chunkSize: chunkSize
+            hash: merkleRoot,
+            hashType: 'merkle',
+            chunkHashes: chunkHashes,
+            chunkCids: chunkCids,
+            chunkSize: cdc ? cdc.avgSize : chunkSize,
+            chunking: cdc ? { mode: 'cdc', ...cdc } : undefined,
+            chunkLengths: chunkLengths,
+            wrappedKey: wrappedKey,
+            fileId: fileId,
+            erasure: erasure,
+            compression: compression !== 'none' ? compression : undefined,
+            chunkRefs: dedupKeys ? chunkRefs : undefined,
+            placement: placement
+        };
+
+        SessionManager.throwIfLocked(options.signal);
+        if (options.sign) {
+            metadata.signature = await SignatureService.sign(metadata);
+        }
+
+        // Seal the metadata into an encrypted manifest and return it as the generator result
+        const manifestText = await ManifestService.sealManifest(metadata, fileKey, options.keyId, options.recipients);
+
+        return {
+            metadata,
+            manifest: {
+                blob: new Blob([manifestText], { type: 'application/json' }),
+                filename: ManifestService.manifestFileName(fileId)
+            },
+            stats: { emittedChunks, parityChunks, dedupedChunks }
         };
+    }
+
+    private static async releaseRefs(chunkIds: string[]): Promise<void> {
+        for (const id of chunkIds) {
+            try {
+                await DedupChunkStore.addRef(id, -1);
+            } catch (error) {
+                console.warn(`Could not release chunk ${id}:`, error);
+            }
+        }
+        console.log(`♻️ Encryption stopped early - released ${chunkIds.length} chunk references`);
+    }
 
-        // Yield metadata as the last item (or return it)
-        // We'll return it so the generator result is the metadata
-        return metadata;
+    // Chunk ID and key for the dedup store: both are keyed hashes of the plaintext, so equal
+    // chunks map to the same stored ciphertext while the ID reveals nothing about the content
+    private static async deriveChunkReference(
+        keys: { idKey: CryptoKey; convergenceKey: CryptoKey },
+        chunkData: Uint8Array
+    ): Promise<ChunkReference> {
+        const id = await SecureCryptoUtils.hmac(keys.idKey, chunkData);
+        const key = await SecureCryptoUtils.hmac(keys.convergenceKey, chunkData);
+        return { id: bytesToHex(id), key: bytesToHex(key) };
+    }
+
+    // Pad the stripe's chunks to a common length (a short final stripe gets all-zero
+    // shards) and compute its parity
+    static encodeStripe(rs: ReedSolomon, stripe: Uint8Array[]): Uint8Array[] {
+        const shardLength = Math.max(...stripe.map(chunk => chunk.length));
+        const shards = Array.from({ length: rs.dataShards }, (_, i) => {
+            const shard = new Uint8Array(shardLength);
+            if (i < stripe.length) {
+                shard.set(stripe[i]);
+            }
+            return shard;
+        });
+        return rs.encode(shards);
     }
 }
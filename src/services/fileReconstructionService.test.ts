@@ -0,0 +1,126 @@
+import { SECURITY_CONFIG } from '../config';
+import { FileMetadata } from '../types/fileMetadata';
+import { SecureCryptoUtils } from '../utils/cryptoUtils';
+import { DownloadManager } from '../utils/downloadManager';
+import { LEGACY_PBKDF2_ITERATIONS } from '../utils/passwordKdf';
+import { FileEncryptionService } from './fileEncryptionService';
+import { FileReconstructionService } from './fileReconstructionService';
+import { ManifestService } from './manifestService';
+
+const CHUNK_SIZE = 1024;
+
+interface EncryptedFile {
+    metadata: FileMetadata;
+    manifest: File;
+    chunks: File[];    // Data chunks in order, named <cid>.enc
+}
+
+function content(length: number, seed: number): Uint8Array {
+    return Uint8Array.from({ length }, (_, i) => (i * 31 + seed) & 0xff);
+}
+
+async function encrypt(data: Uint8Array, name: string): Promise<EncryptedFile> {
+    const generator = FileEncryptionService.encryptFileGenerator(new File([data as BlobPart], name), CHUNK_SIZE, () => undefined);
+    const chunks: File[] = [];
+    let step = await generator.next();
+    while (!step.done) {
+        chunks.push(new File([step.value.blob], step.value.filename));
+        step = await generator.next();
+    }
+    const { metadata, manifest } = step.value;
+    return { metadata, manifest: new File([manifest.blob], manifest.filename), chunks };
+}
+
+async function reconstruct(files: File[]): Promise<Uint8Array> {
+    let restored: Blob | null = null;
+    jest.spyOn(DownloadManager, 'downloadWithDelay').mockImplementation(async blob => {
+        restored = blob;
+    });
+    await FileReconstructionService.reconstructFromChunks(files as unknown as FileList);
+    return new Uint8Array(await restored!.arrayBuffer());
+}
+
+// The same chunk file name with other bytes in it
+function withBytesOf(target: File, source: File): File {
+    return new File([source], target.name);
+}
+
+describe('FileReconstructionService round trip', () => {
+    const kdf = { algorithm: SECURITY_CONFIG.KDF_ALGORITHM, iterations: SECURITY_CONFIG.PBKDF2_ITERATIONS };
+    const original = content(2500, 7);
+    let encrypted: EncryptedFile;
+
+    beforeAll(async () => {
+        SECURITY_CONFIG.KDF_ALGORITHM = 'pbkdf2';
+        SECURITY_CONFIG.PBKDF2_ITERATIONS = LEGACY_PBKDF2_ITERATIONS;
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        localStorage.clear();
+        await SecureCryptoUtils.initialize('correct horse battery staple');
+        encrypted = await encrypt(original, 'secret-report.pdf');
+    });
+
+    afterAll(() => {
+        SECURITY_CONFIG.KDF_ALGORITHM = kdf.algorithm;
+        SECURITY_CONFIG.PBKDF2_ITERATIONS = kdf.iterations;
+        jest.restoreAllMocks();
+    });
+
+    test('encrypts into opaque chunks and an encrypted manifest, and reconstructs the file', async () => {
+        const { metadata, manifest, chunks } = encrypted;
+
+        expect(chunks).toHaveLength(3);
+        expect(chunks.every(chunk => /^[a-z2-7]+\.enc$/.test(chunk.name))).toBe(true);
+        expect(manifest.name).toBe(ManifestService.manifestFileName(metadata.fileId!));
+        expect(await manifest.text()).not.toContain('secret-report');
+
+        expect(Array.from(await reconstruct([manifest, ...chunks]))).toEqual(Array.from(original));
+    });
+
+    test('swapped chunks are rejected and named', async () => {
+        const [first, second, third] = encrypted.chunks;
+        const swapped = [withBytesOf(first, second), withBytesOf(second, first), third];
+
+        await expect(reconstruct([encrypted.manifest, ...swapped])).rejects.toThrow(/holds chunk 1 of this file - chunk files were swapped/);
+    });
+
+    test('a dropped last chunk is rejected', async () => {
+        await expect(reconstruct([encrypted.manifest, ...encrypted.chunks.slice(0, 2)])).rejects.toThrow('Missing 1 chunk files');
+
+        // The chunk AAD binds the total, so chunk 1 of 3 cannot pass as the last of 2 either
+        const { fileKey } = await ManifestService.openManifest(await encrypted.manifest.text());
+        const chunk = new Uint8Array(await encrypted.chunks[1].arrayBuffer());
+        const aad = (index: number, total: number) => SecureCryptoUtils.buildChunkAad(encrypted.metadata.fileId!, index, total);
+        expect(await SecureCryptoUtils.tryDecryptChunk(chunk, fileKey, aad(1, 3))).not.toBeNull();
+        expect(await SecureCryptoUtils.tryDecryptChunk(chunk, fileKey, aad(1, 2))).toBeNull();
+    });
+
+    test('a chunk from another file is rejected', async () => {
+        const other = await encrypt(content(2500, 99), 'other.pdf');
+        const mixed = [encrypted.chunks[0], withBytesOf(encrypted.chunks[1], other.chunks[1]), encrypted.chunks[2]];
+
+        await expect(reconstruct([encrypted.manifest, ...mixed])).rejects.toThrow(/1 \(.*\): does not match its hash in the manifest/);
+    });
+
+    test('flipping any byte of the chunk AAD fails authentication', async () => {
+        const { fileKey } = await ManifestService.openManifest(await encrypted.manifest.text());
+        const chunk = new Uint8Array(await encrypted.chunks[0].arrayBuffer());
+        const aad = SecureCryptoUtils.buildChunkAad(encrypted.metadata.fileId!, 0, 3);
+
+        for (let i = 0; i < aad.length; i++) {
+            const flipped = aad.slice();
+            flipped[i] ^= 0x01;
+            expect(await SecureCryptoUtils.tryDecryptChunk(chunk, fileKey, flipped)).toBeNull();
+        }
+    });
+
+    test('a tampered manifest is rejected before any chunk is read', async () => {
+        const manifest = JSON.parse(await encrypted.manifest.text());
+        const ciphertext: string = manifest.ciphertext;
+        manifest.ciphertext = (ciphertext[0] === 'A' ? 'B' : 'A') + ciphertext.substring(1);
+        const tampered = new File([JSON.stringify(manifest)], encrypted.manifest.name);
+
+        await expect(reconstruct([tampered, ...encrypted.chunks])).rejects.toThrow('Manifest decryption failed');
+    });
+});
@@ -1,97 +1,340 @@
 // services/fileReconstructionService.ts
+import { FileMetadata } from "../types/fileMetadata";
+import { ChunkCompression } from "../utils/compression";
 import { SecureCryptoUtils } from "../utils/cryptoUtils";
 import { DownloadManager } from "../utils/downloadManager";
+import { hexToBytes } from "../utils/encoding";
+import { ReedSolomon } from "../utils/erasureCoding";
+import { MerkleProof, MerkleTree } from "../utils/merkleTree";
+import { ArchiveV0ChunkSource, CarChunkSource, ChunkSource, FileListChunkSource, StorageChunkSource, ZipChunkSource } from "./chunkSources";
+import { DedupChunkStore, StoredChunk } from "./dedupChunkStore";
+import { FileEncryptionService } from "./fileEncryptionService";
+import { ChunkFileEntry, ManifestService } from "./manifestService";
+import { SessionManager } from "./sessionManager";
+import { SignatureService, SignatureStatus } from "./signatureService";
+import { StorageProvider } from "./storageProviders";
+
+export interface ReconstructionResult {
+    success: boolean;
+    message: string;
+    metadata: FileMetadata;
+    hashMatch: boolean;
+    signature: SignatureStatus;
+    chunksProcessed: number;
+    chunksRecovered: number;
+    reconstructedSize: number;
+}
 
 export class FileReconstructionService {
-    static async reconstructFromArchiveV0(archiveFile: File) {
-        const archiveText = await archiveFile.text();
-        const archiveData = JSON.parse(archiveText);
-        const metadata = archiveData.metadata;
+    // Decrypt the chunk expected at `index`. Chunks written with a file ID are authenticated
+    // against (file ID, index, total, is-last); the old format decrypts without additional data.
+    private static async decryptChunkAt(
+        data: Uint8Array,
+        fileKey: CryptoKey | undefined,
+        metadata: FileMetadata,
+        index: number,
+        chunkName: string
+    ): Promise<Uint8Array> {
+        if (metadata.chunkRefs) {
+            // Deduplicated chunk: its own key, bound to its ID rather than to this file
+            const ref = metadata.chunkRefs[index];
+            const chunkKey = await SecureCryptoUtils.importChunkKey(ref.key);
+            const decrypted = await SecureCryptoUtils.tryDecryptChunk(data, chunkKey, hexToBytes(ref.id));
+            if (!decrypted) {
+                throw new Error(`Chunk ${index} (${chunkName}) failed authentication against its dedup reference`);
+            }
+            return decrypted;
+        }
 
-        console.log(`🔄 Reconstructing from archive: ${metadata.originalFileName}.${metadata.originalExtension}`);
+        if (!metadata.fileId) {
+            return SecureCryptoUtils.decryptChunk(data, fileKey);
+        }
 
-        const decryptedChunks: Uint8Array[] = [];
+        const aad = SecureCryptoUtils.buildChunkAad(metadata.fileId, index, metadata.totalChunks);
+        const decrypted = await SecureCryptoUtils.tryDecryptChunk(data, fileKey, aad);
+        if (decrypted) {
+            return decrypted;
+        }
+
+        throw new Error(await this.diagnoseChunkFailure(data, fileKey, metadata, index, chunkName));
+    }
 
-        for (let i = 0; i < archiveData.chunks.length; i++) {
-            const chunkData = new Uint8Array(archiveData.chunks[i].data);
-            const decrypted = await SecureCryptoUtils.decryptChunk(chunkData);
-            decryptedChunks.push(decrypted);
+    // Work out why a chunk failed authentication so the error can say exactly what is wrong
+    private static async diagnoseChunkFailure(
+        data: Uint8Array,
+        fileKey: CryptoKey | undefined,
+        metadata: FileMetadata,
+        index: number,
+        chunkName: string
+    ): Promise<string> {
+        const fileId = metadata.fileId!;
+        const total = metadata.totalChunks;
+
+        // Does it belong to this file, just at another position?
+        for (let candidate = 0; candidate < total; candidate++) {
+            if (candidate === index) continue;
+            const aad = SecureCryptoUtils.buildChunkAad(fileId, candidate, total);
+            if (await SecureCryptoUtils.tryDecryptChunk(data, fileKey, aad)) {
+                return `Chunk ${index} (${chunkName}) is out of order: it is chunk ${candidate} of this file. ` +
+                    `Chunk files were reordered or renamed.`;
+            }
         }
 
-        // For V0 (small files), we can still use combineChunks or just Blob array
-        const blob = new Blob(decryptedChunks as any);
+        // Was it encrypted without position binding (old format mixed into a new chunk set)?
+        if (await SecureCryptoUtils.tryDecryptChunk(data, fileKey)) {
+            return `Chunk ${index} (${chunkName}) uses the old chunk format without file binding and cannot be ` +
+                `mixed into this chunk set.`;
+        }
 
-        await DownloadManager.downloadWithDelay(
-            blob,
-            `${metadata.originalFileName}_reconstructed.${metadata.originalExtension}`,
-            0
-        );
+        return `Chunk ${index} (${chunkName}) failed authentication: it belongs to another file, ` +
+            `the chunk set was truncated, or the data is corrupted.`;
+    }
 
-        return {
-            success: true,
-            message: `✅ File reconstructed from archive! Size: ${(blob.size / 1024 / 1024).toFixed(2)} MB`
-        };
+    // Chunks are checked against their Merkle leaf before decryption, so a chunk that is in the
+    // wrong place is recognised by its hash rather than by trying its tag at every position
+    private static diagnoseLeafMismatch(chunkHash: string, metadata: FileMetadata): string {
+        const data = (metadata.chunkHashes || []).indexOf(chunkHash);
+        if (data >= 0) {
+            return `holds chunk ${data} of this file - chunk files were swapped or renamed`;
+        }
+        const parity = (metadata.erasure?.parityHashes || []).findIndex(stripe => stripe.includes(chunkHash));
+        if (parity >= 0) {
+            return `holds a parity chunk of stripe ${parity} - chunk files were swapped or renamed`;
+        }
+        return 'does not match its hash in the manifest: it belongs to another file or is corrupted';
+    }
+
+    static async reconstructFromArchiveV0(archiveFile: File, signal?: AbortSignal): Promise<ReconstructionResult> {
+        return this.reconstructFromSource(await ArchiveV0ChunkSource.load(archiveFile), undefined, signal);
     }
 
-    static async reconstructFromChunks(files: FileList) {
-        const metadataFile = Array.from(files).find(f => f.name.endsWith('_metadata.json'));
-        if (!metadataFile) {
-            throw new Error('Metadata file not found. Please include the _metadata.json file.');
+    // `passphrase` opens share bundles without a keystore; `signal` cancels between chunks (session lock)
+    static async reconstructFromChunks(files: FileList, passphrase?: string, signal?: AbortSignal): Promise<ReconstructionResult> {
+        return this.reconstructFromSource(new FileListChunkSource(files), passphrase, signal);
+    }
+
+    static async reconstructFromArchive(archiveFile: File, passphrase?: string, signal?: AbortSignal): Promise<ReconstructionResult> {
+        if (archiveFile.name.endsWith('.zip')) {
+            return await this.reconstructFromZip(archiveFile, passphrase, signal);
+        } else if (archiveFile.name.endsWith('.car')) {
+            return await this.reconstructFromCar(archiveFile, passphrase, signal);
+        } else if (archiveFile.name.endsWith('_encrypted_archive.json')) {
+            // Keep old JSON method for backward compatibility
+            return await this.reconstructFromArchiveV0(archiveFile, signal);
         }
+        throw new Error('Unsupported archive format');
+    }
 
-        const metadataText = await metadataFile.text();
-        const metadata = JSON.parse(metadataText);
+    static async reconstructFromZip(zipFile: File, passphrase?: string, signal?: AbortSignal): Promise<ReconstructionResult> {
+        return this.reconstructFromSource(await ZipChunkSource.load(zipFile), passphrase, signal);
+    }
 
-        console.log(`🔄 Reconstructing: ${metadata.originalFileName}.${metadata.originalExtension}`);
+    static async reconstructFromCar(carFile: File, passphrase?: string, signal?: AbortSignal): Promise<ReconstructionResult> {
+        return this.reconstructFromSource(await CarChunkSource.load(carFile), passphrase, signal);
+    }
+
+    // Pull a chunk set back from a storage provider by its manifest
+    static async reconstructFromStorage(
+        provider: StorageProvider,
+        manifestName: string,
+        passphrase?: string,
+        signal?: AbortSignal
+    ): Promise<ReconstructionResult> {
+        return this.reconstructFromSource(await StorageChunkSource.load(provider, manifestName), passphrase, signal);
+    }
+
+    // Check one encrypted chunk against the manifest without touching the rest of the set
+    static async verifyChunk(encryptedChunk: Uint8Array, metadata: FileMetadata, index: number): Promise<boolean> {
+        if (metadata.hashType !== 'merkle' || !metadata.chunkHashes) {
+            throw new Error('Per-chunk verification requires a Merkle manifest');
+        }
+        const proof = await this.getChunkProof(metadata, index);
+        return MerkleTree.verifyChunk(encryptedChunk, proof, metadata.hash);
+    }
+
+    // Whether a data chunk passes AES-GCM authentication at its position - proves the manifest
+    // and the chunk belong together, which the hash alone does not
+    static async verifyChunkTag(
+        encryptedChunk: Uint8Array,
+        fileKey: CryptoKey | undefined,
+        metadata: FileMetadata,
+        index: number
+    ): Promise<boolean> {
+        try {
+            await this.decryptChunkAt(encryptedChunk, fileKey, metadata, index, `chunk ${index}`);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    // Re-create a chunk file from the rest of its chunk set: a data chunk from another copy,
+    // the dedup store or its stripe's parity, a parity chunk by re-encoding its stripe.
+    // Null when too little of the set survived.
+    static async rebuildChunk(source: ChunkSource, metadata: FileMetadata, entry: ChunkFileEntry): Promise<Uint8Array | null> {
+        const { dataChunks, parityChunks } = this.indexChunkNames(source.listChunkNames(), metadata);
+        const erasure = metadata.erasure;
+
+        try {
+            if (entry.kind === 'data') {
+                const data = await this.readDataChunk(source, metadata, entry.index, dataChunks);
+                if (data || !erasure) {
+                    return data;
+                }
+                const rebuilt = await this.recoverStripe(source, metadata, Math.floor(entry.index / erasure.dataShards), dataChunks, parityChunks);
+                return rebuilt.get(entry.index) || null;
+            }
+
+            if (!erasure || entry.parityIndex === undefined) {
+                return null;
+            }
+            const first = entry.index * erasure.dataShards;
+            const last = Math.min(first + erasure.dataShards, metadata.totalChunks);
+            const stripe: Uint8Array[] = [];
+            let recovered: Map<number, Uint8Array> | null = null;
+            for (let index = first; index < last; index++) {
+                let chunk = await this.readDataChunk(source, metadata, index, dataChunks);
+                if (!chunk) {
+                    recovered = recovered || await this.recoverStripe(source, metadata, entry.index, dataChunks, parityChunks);
+                    chunk = recovered.get(index)!;
+                }
+                stripe.push(chunk);
+            }
+
+            const rs = new ReedSolomon(erasure.dataShards, erasure.parityShards);
+            const parity = FileEncryptionService.encodeStripe(rs, stripe)[entry.parityIndex];
+            if (entry.hash && await SecureCryptoUtils.calculateHash(parity) !== entry.hash) {
+                console.warn(`⚠️ Re-encoded parity ${entry.name} does not match its hash`);
+                return null;
+            }
+            return parity;
+        } catch (error) {
+            console.warn(`⚠️ Could not rebuild ${entry.name}:`, error);
+            return null;
+        }
+    }
+
+    // Inclusion proof of a chunk in the manifest's Merkle root
+    static async getChunkProof(metadata: FileMetadata, index: number): Promise<MerkleProof> {
+        if (!metadata.chunkHashes) {
+            throw new Error('Manifest has no chunk hashes');
+        }
+        const tree = await MerkleTree.build(metadata.chunkHashes);
+        return tree.getProof(index);
+    }
+
+    private static async reconstructFromSource(source: ChunkSource, passphrase?: string, signal?: AbortSignal): Promise<ReconstructionResult> {
+        // Decrypt the manifest before anything else
+        const { metadata, fileKey } = await ManifestService.openManifest(await source.readManifest(), passphrase);
+
+        console.log(`🔄 Reconstructing from ${source.description}: ${metadata.originalFileName}.${metadata.originalExtension}`);
         console.log(`📊 Expected: ${metadata.totalChunks} chunks, ${(metadata.originalSize / 1024 / 1024).toFixed(2)} MB`);
 
-        const chunkFiles = Array.from(files)
-            .filter(f => f.name.endsWith('.enc'))
-            .sort((a, b) => {
-                const aMatch = a.name.match(/chunk_(\d+)/);
-                const bMatch = b.name.match(/chunk_(\d+)/);
-                const aNum = aMatch ? parseInt(aMatch[1]) : 0;
-                const bNum = bMatch ? parseInt(bMatch[1]) : 0;
-                return aNum - bNum;
-            });
+        const { dataChunks, parityChunks } = this.indexChunkNames(source.listChunkNames(), metadata);
 
-        if (chunkFiles.length !== metadata.totalChunks) {
-            const missing = metadata.totalChunks - chunkFiles.length;
-            throw new Error(`Missing ${missing} chunk files! Expected ${metadata.totalChunks}, found ${chunkFiles.length}. Please ensure all chunk files are selected.`);
+        // Without parity every chunk has to be there (deduplicated ones may come from the local store)
+        if (!metadata.erasure && !metadata.chunkRefs && dataChunks.size < metadata.totalChunks) {
+            const missing = metadata.totalChunks - dataChunks.size;
+            throw new Error(`Missing ${missing} chunk files! Expected ${metadata.totalChunks}, found ${dataChunks.size}. Please ensure all chunk files are selected.`);
         }
 
-        console.log(`🔓 Decrypting ${chunkFiles.length} chunks...`);
+        // The manifest's chunk hashes must add up to its Merkle root before we trust them
+        if (metadata.hashType === 'merkle') {
+            const root = await MerkleTree.computeRoot(metadata.chunkHashes || []);
+            if (root !== metadata.hash) {
+                throw new Error('Manifest integrity check failed - chunk hashes do not match the Merkle root');
+            }
+        }
+
+        // Who produced this chunk set (the signature covers the Merkle root checked above)
+        const signature = await SignatureService.verify(metadata);
+        console.log(`✍️ Manifest ${SignatureService.describe(signature)}`);
+        if (signature.state === 'invalid') {
+            // eslint-disable-next-line no-restricted-globals
+            if (!confirm('The manifest signature is invalid - it was forged or altered after signing. Continue anyway?')) {
+                throw new Error('User cancelled due to an invalid manifest signature');
+            }
+        }
+
+        if (metadata.compression) {
+            ChunkCompression.assertCanDecompress(metadata.compression);
+        }
+
+        console.log(`🔓 Decrypting ${metadata.totalChunks} chunks...`);
 
         const decryptedChunks: Uint8Array[] = [];
-        const chunkHashes: string[] = [];
+        const plaintextHashes: string[] = [];
+        const corruptChunks: string[] = [];
+        const leafMismatches = new Map<string, string>();
+        const recoveredChunks = new Map<number, Uint8Array>();
+        let recoveredCount = 0;
+
+        for (let i = 0; i < metadata.totalChunks; i++) {
+            SessionManager.throwIfLocked(signal);
+            const name = dataChunks.get(i) || `chunk ${i}`;
+            let data = recoveredChunks.get(i) || await this.readDataChunk(source, metadata, i, dataChunks, leafMismatches);
+            recoveredChunks.delete(i);
+
+            if (!data) {
+                if (!metadata.erasure) {
+                    // Keep checking the remaining chunks so every corrupt one can be named
+                    corruptChunks.push(`${i} (${name})${leafMismatches.has(name) ? `: ${leafMismatches.get(name)}` : ''}`);
+                    continue;
+                }
+
+                // Rebuild the whole stripe from whatever survived
+                console.warn(`⚠️ Chunk ${i} (${name}) is missing or corrupt, recovering from parity...`);
+                const rebuilt = await this.recoverStripe(source, metadata, Math.floor(i / metadata.erasure.dataShards), dataChunks, parityChunks);
+                rebuilt.forEach((chunk, index) => recoveredChunks.set(index, chunk));
+                recoveredCount += rebuilt.size;
+                data = recoveredChunks.get(i)!;
+                recoveredChunks.delete(i);
+            }
+
+            if (corruptChunks.length > 0) {
+                continue;
+            }
 
-        for (let i = 0; i < chunkFiles.length; i++) {
-            const file = chunkFiles[i];
             try {
-                let buffer = await file.arrayBuffer();
-                const decrypted = await SecureCryptoUtils.decryptChunk(new Uint8Array(buffer));
+                let decrypted = await this.decryptChunkAt(data, fileKey, metadata, i, name);
+                if (metadata.compression) {
+                    decrypted = await ChunkCompression.unframe(decrypted);
+                }
+                if (metadata.chunkLengths && decrypted.length !== metadata.chunkLengths[i]) {
+                    throw new Error(`expected ${metadata.chunkLengths[i]} bytes, got ${decrypted.length}`);
+                }
                 decryptedChunks.push(decrypted);
 
                 // If composite hash, calculate hash of this chunk
                 if (metadata.hashType === 'composite') {
-                    const chunkHash = await SecureCryptoUtils.calculateHash(decrypted);
-                    chunkHashes.push(chunkHash);
+                    plaintextHashes.push(await SecureCryptoUtils.calculateHash(decrypted));
                 }
 
-                console.log(`✅ Decrypted chunk ${i + 1}/${chunkFiles.length}: ${decrypted.length} bytes`);
-
-                // Help GC
-                (buffer as any) = null;
+                console.log(`✅ Decrypted chunk ${i + 1}/${metadata.totalChunks}: ${decrypted.length} bytes`);
             } catch (error: any) {
-                throw new Error(`Failed to decrypt chunk ${i} (${file.name}): ${error.message}`);
+                throw new Error(`Failed to decrypt chunk ${i} (${name}): ${error.message}`);
             }
+
+            // Help GC
+            data = null;
+        }
+
+        if (corruptChunks.length > 0) {
+            throw new Error(`Missing or corrupt chunks: ${corruptChunks.join(', ')}`);
+        }
+
+        if (recoveredCount > 0) {
+            console.log(`🩹 Recovered ${recoveredCount} chunks from parity`);
         }
 
         // Verify integrity
         let hashMatch = false;
 
-        if (metadata.hashType === 'composite') {
-            const combinedHashes = new TextEncoder().encode(chunkHashes.join(''));
+        if (metadata.hashType === 'merkle') {
+            // Every chunk matched its leaf and the leaves match the root
+            hashMatch = true;
+        } else if (metadata.hashType === 'composite') {
+            const combinedHashes = new TextEncoder().encode(plaintextHashes.join(''));
             const finalHash = await SecureCryptoUtils.calculateHash(combinedHashes);
             hashMatch = finalHash === metadata.hash;
         } else {
@@ -126,90 +369,189 @@ export class FileReconstructionService {
 
         return {
             success: true,
-            reconstructed: decryptedChunks, // Return chunks instead of combined array to save memory in return value too?
+            message: `✅ File reconstructed from ${source.description}! Size: ${(blob.size / 1024 / 1024).toFixed(2)} MB`,
             metadata,
             hashMatch,
-            chunkFiles
+            signature,
+            chunksProcessed: metadata.totalChunks,
+            chunksRecovered: recoveredCount,
+            reconstructedSize: blob.size
         };
     }
 
-    static async reconstructFromArchive(archiveFile: File) {
-        if (archiveFile.name.endsWith('.zip')) {
-            return await this.reconstructFromZip(archiveFile);
-        } else if (archiveFile.name.endsWith('_encrypted_archive.json')) {
-            // Keep old JSON method for backward compatibility
-            return await this.reconstructFromArchiveV0(archiveFile);
+    // Read data chunk `index` from the source, falling back to the local dedup store for
+    // deduplicated chunks that were not shipped with this upload
+    private static async readDataChunk(
+        source: ChunkSource,
+        metadata: FileMetadata,
+        index: number,
+        dataChunks: Map<number, string>,
+        leafMismatches?: Map<string, string>
+    ): Promise<Uint8Array | null> {
+        const expectedHash = metadata.chunkHashes?.[index];
+        const data = await this.readVerifiedChunk(source, metadata, dataChunks.get(index), expectedHash, leafMismatches);
+        const ref = metadata.chunkRefs?.[index];
+        if (data || !ref) {
+            return data;
         }
-        throw new Error('Unsupported archive format');
+
+        let stored: StoredChunk | null = null;
+        try {
+            stored = await DedupChunkStore.get(ref.id);
+        } catch (error) {
+            console.warn('⚠️ Dedup store unavailable:', error);
+        }
+        if (!stored) {
+            return null;
+        }
+
+        if (expectedHash && await SecureCryptoUtils.calculateHash(stored.data) !== expectedHash) {
+            console.warn(`⚠️ Stored chunk ${ref.id} does not match its hash in the manifest`);
+            return null;
+        }
+
+        console.log(`♻️ Chunk ${index} read from the dedup store`);
+        return stored.data;
     }
 
-    static async reconstructFromZip(zipFile: File) {
-        const JSZip = require('jszip'); // or import JSZip from 'jszip'
+    // Read a chunk and check it against its Merkle leaf; null if it is missing or corrupt (why goes
+    // into `leafMismatches`). Replicated sources get the placement and the check, to fall back to another copy.
+    private static async readVerifiedChunk(
+        source: ChunkSource,
+        metadata: FileMetadata,
+        name: string | undefined,
+        expectedHash: string | undefined,
+        leafMismatches?: Map<string, string>
+    ): Promise<Uint8Array | null> {
+        if (!name) {
+            return null;
+        }
 
-        const zip = await JSZip.loadAsync(zipFile);
+        let verified: Uint8Array | null = null;
+        const verify = async (candidate: Uint8Array) => {
+            const valid = !expectedHash || await SecureCryptoUtils.calculateHash(candidate) === expectedHash;
+            if (valid) verified = candidate;
+            return valid;
+        };
 
-        // Find metadata
-        const metadataFile = Object.keys(zip.files).find(f => f.endsWith('_metadata.json'));
-        if (!metadataFile) throw new Error("Metadata not found in zip");
+        const data = await source.readChunk(name, { replicas: metadata.placement?.chunks[name], verify });
+        if (!data) {
+            return null;
+        }
 
-        // @ts-ignore
-        const metadata = JSON.parse(await zip.files[metadataFile].async('text'));
+        if (data !== verified && !(await verify(data))) {
+            const reason = this.diagnoseLeafMismatch(await SecureCryptoUtils.calculateHash(data), metadata);
+            console.warn(`⚠️ Chunk ${name} ${reason}`);
+            leafMismatches?.set(name, reason);
+            return null;
+        }
 
-        // Get chunks in order
-        const chunkFiles = Object.keys(zip.files)
-            .filter(f => f.endsWith('.enc'))
-            .sort((a, b) => {
-                const aMatch = a.match(/chunk_(\d+)/);
-                const bMatch = b.match(/chunk_(\d+)/);
-                const aNum = aMatch ? parseInt(aMatch[1]) : 0;
-                const bNum = bMatch ? parseInt(bMatch[1]) : 0;
-                return aNum - bNum;
-            });
+        return data;
+    }
 
-        // Decrypt chunks
-        const decryptedChunks = [];
-        const chunkHashes: string[] = [];
+    // Rebuild the missing data chunks of one stripe from its surviving data and parity chunks
+    private static async recoverStripe(
+        source: ChunkSource,
+        metadata: FileMetadata,
+        stripe: number,
+        dataChunks: Map<number, string>,
+        parityChunks: Map<string, string>
+    ): Promise<Map<number, Uint8Array>> {
+        const erasure = metadata.erasure!;
+        const rs = new ReedSolomon(erasure.dataShards, erasure.parityShards);
+
+        const first = stripe * erasure.dataShards;
+        const last = Math.min(first + erasure.dataShards, metadata.totalChunks);
+        const shardLength = Math.max(...erasure.encryptedLengths.slice(first, last));
+
+        const pad = (chunk: Uint8Array) => {
+            const shard = new Uint8Array(shardLength);
+            shard.set(chunk);
+            return shard;
+        };
 
-        for (const fileName of chunkFiles) {
-            const chunkData = await zip.files[fileName].async('uint8array');
-            const decrypted = await SecureCryptoUtils.decryptChunk(chunkData);
-            decryptedChunks.push(decrypted);
+        const shards: (Uint8Array | null)[] = [];
+        const missing: number[] = [];
 
-            if (metadata.hashType === 'composite') {
-                const chunkHash = await SecureCryptoUtils.calculateHash(decrypted);
-                chunkHashes.push(chunkHash);
+        for (let j = 0; j < erasure.dataShards; j++) {
+            const index = first + j;
+            if (index >= metadata.totalChunks) {
+                // Short final stripe: the encoder used all-zero shards here
+                shards.push(new Uint8Array(shardLength));
+                continue;
             }
+            const chunk = await this.readDataChunk(source, metadata, index, dataChunks);
+            if (!chunk) missing.push(index);
+            shards.push(chunk ? pad(chunk) : null);
         }
 
-        // Verify integrity
-        let hashMatch = false;
-        if (metadata.hashType === 'composite') {
-            const combinedHashes = new TextEncoder().encode(chunkHashes.join(''));
-            const finalHash = await SecureCryptoUtils.calculateHash(combinedHashes);
-            hashMatch = finalHash === metadata.hash;
-        } else {
-            // Legacy
-            const reconstructed = SecureCryptoUtils.combineChunks(decryptedChunks);
-            const reconstructedHash = await SecureCryptoUtils.calculateHash(reconstructed);
-            hashMatch = reconstructedHash === metadata.hash;
+        for (let p = 0; p < erasure.parityShards; p++) {
+            const parity = await this.readVerifiedChunk(source, metadata, parityChunks.get(`${stripe}_${p}`), erasure.parityHashes[stripe]?.[p]);
+            shards.push(parity);
         }
 
-        if (!hashMatch) {
-            // eslint-disable-next-line no-restricted-globals
-            if (!confirm('Hash verification failed. Download anyway?')) {
-                throw new Error('User cancelled');
+        const available = shards.filter(shard => shard !== null).length;
+        if (available < erasure.dataShards) {
+            throw new Error(`Cannot recover stripe ${stripe}: only ${available} of the ${erasure.dataShards} required chunks survived ` +
+                `(missing or corrupt data chunks: ${missing.join(', ')})`);
+        }
+
+        const rebuilt = rs.reconstruct(shards);
+        const recovered = new Map<number, Uint8Array>();
+
+        for (const index of missing) {
+            const chunk = rebuilt[index - first].slice(0, erasure.encryptedLengths[index]);
+            if (metadata.chunkHashes && await SecureCryptoUtils.calculateHash(chunk) !== metadata.chunkHashes[index]) {
+                throw new Error(`Recovered chunk ${index} does not match its hash - parity data is inconsistent`);
             }
+            recovered.set(index, chunk);
         }
 
-        // Reconstruct file
-        const blob = new Blob(decryptedChunks as any);
+        return recovered;
+    }
 
-        await DownloadManager.downloadWithDelay(
-            blob,
-            `${metadata.originalFileName}_reconstructed.${metadata.originalExtension}`,
-            0
-        );
+    // Map data chunk files by index and parity files by stripe: by CID (<cid>.enc) for current
+    // manifests, otherwise <id>.enc for deduplicated chunks and the positional names
+    // ..._chunk_0000.enc / ..._parity_0000_00.enc
+    private static indexChunkNames(
+        names: string[],
+        metadata: FileMetadata
+    ): { dataChunks: Map<number, string>; parityChunks: Map<string, string> } {
+        const dataChunks = new Map<number, string>();
+        const parityChunks = new Map<string, string>();
+
+        const available = new Set(names);
+        if (metadata.chunkCids || metadata.chunkRefs) {
+            for (let index = 0; index < metadata.totalChunks; index++) {
+                const name = ManifestService.contentChunkFileName(metadata, index);
+                if (name && available.has(name)) {
+                    dataChunks.set(index, name);
+                }
+            }
+        }
+
+        if (metadata.erasure?.parityCids) {
+            metadata.erasure.parityCids.forEach((stripeCids, stripe) => stripeCids.forEach((cid, p) => {
+                const name = ManifestService.cidChunkFileName(cid);
+                if (available.has(name)) {
+                    parityChunks.set(`${stripe}_${p}`, name);
+                }
+            }));
+            return { dataChunks, parityChunks };
+        }
+
+        for (const name of names) {
+            const parityMatch = name.match(/_parity_(\d+)_(\d+)\.enc$/);
+            if (parityMatch) {
+                parityChunks.set(`${parseInt(parityMatch[1])}_${parseInt(parityMatch[2])}`, name);
+                continue;
+            }
+            const chunkMatch = name.match(/chunk_(\d+)/);
+            if (chunkMatch && !metadata.chunkRefs && !metadata.chunkCids) {
+                dataChunks.set(parseInt(chunkMatch[1]), name);
+            }
+        }
 
-        return { success: true, message: 'File reconstructed from ZIP!' };
+        return { dataChunks, parityChunks };
     }
-}
\ No newline at end of file
+}
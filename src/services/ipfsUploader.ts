@@ -0,0 +1,73 @@
+// services/ipfsUploader.ts - Import CAR exports into an IPFS node through its HTTP RPC API (Kubo)
+export interface IpfsImportResult {
+    root: string;
+    pinned: boolean;
+    blockCount: number | null;
+}
+
+export class IpfsUploader {
+    static readonly DEFAULT_API_URL = 'http://127.0.0.1:5001';
+    private static readonly STORAGE_KEY = 'secure_file_splitter_ipfs_api';
+
+    // Empty = only download the CAR file
+    static getApiUrl(): string {
+        return localStorage.getItem(this.STORAGE_KEY) || '';
+    }
+
+    static saveApiUrl(apiUrl: string): void {
+        if (apiUrl) {
+            localStorage.setItem(this.STORAGE_KEY, apiUrl);
+        } else {
+            localStorage.removeItem(this.STORAGE_KEY);
+        }
+    }
+
+    // POST /api/v0/dag/import, pinning the root (which links every chunk). The node must allow
+    // this origin: ipfs config --json API.HTTPHeaders.Access-Control-Allow-Origin '["<origin>"]'
+    static async importCar(car: Blob, apiUrl: string = this.DEFAULT_API_URL): Promise<IpfsImportResult> {
+        const url = `${apiUrl.replace(/\/+$/, '')}/api/v0/dag/import?pin-roots=true&stats=true`;
+        const form = new FormData();
+        form.append('file', car, 'chunks.car');
+
+        let response: Response;
+        try {
+            response = await fetch(url, { method: 'POST', body: form });
+        } catch (error) {
+            throw new Error(`Cannot reach the IPFS API at ${apiUrl} - is the node running and does it allow this origin (CORS)?`);
+        }
+
+        const text = await response.text();
+        if (!response.ok) {
+            throw new Error(`IPFS import failed: HTTP ${response.status} ${this.errorMessage(text)}`);
+        }
+
+        // The answer is newline-delimited JSON: one line per root, plus a stats line
+        const result: IpfsImportResult = { root: '', pinned: false, blockCount: null };
+        for (const line of text.split('\n').filter(Boolean)) {
+            const entry = JSON.parse(line);
+            if (entry.Root) {
+                result.root = entry.Root.Cid['/'];
+                if (entry.Root.PinErrorMsg) {
+                    throw new Error(`IPFS imported ${result.root} but could not pin it: ${entry.Root.PinErrorMsg}`);
+                }
+                result.pinned = true;
+            } else if (entry.Stats) {
+                result.blockCount = entry.Stats.BlockCount;
+            }
+        }
+
+        if (!result.root) {
+            throw new Error('IPFS import returned no root');
+        }
+        console.log(`🌐 Imported into IPFS: root ${result.root}${result.blockCount !== null ? `, ${result.blockCount} blocks` : ''}`);
+        return result;
+    }
+
+    private static errorMessage(text: string): string {
+        try {
+            return JSON.parse(text).Message || text;
+        } catch (error) {
+            return text;
+        }
+    }
+}
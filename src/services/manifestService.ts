@@ -0,0 +1,304 @@
+// services/manifestService.ts
+import { EncryptedManifest, FileMetadata, ManifestHeader } from "../types/fileMetadata";
+import { SecureCryptoUtils } from "../utils/cryptoUtils";
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes } from "../utils/encoding";
+import { SecureKeyManager } from "../utils/keyManager";
+import { PasswordKdf } from "../utils/passwordKdf";
+import { RecipientCrypto } from "../utils/recipientCrypto";
+
+export interface OpenedManifest {
+    metadata: FileMetadata;
+    fileKey: CryptoKey | undefined; // undefined = legacy chunks encrypted directly with the master key
+}
+
+// A chunk file a manifest refers to, as stored
+export interface ChunkFileEntry {
+    name: string;
+    kind: 'data' | 'parity';
+    index: number;          // Data chunk index, or stripe index for parity chunks
+    parityIndex?: number;   // Position of a parity chunk in its stripe
+    hash?: string;          // SHA-256 of the encrypted bytes, when the manifest records it
+}
+
+export class ManifestService {
+    static readonly FORMAT = 'sfs-manifest';
+    static readonly VERSION = 1;
+
+    // Opaque names: only the random file ID appears, never the original file name
+    static manifestFileName(fileId: string): string {
+        return `${fileId}_manifest.json`;
+    }
+
+    // Positional names of chunk sets written before chunks were content-addressed
+    static chunkFileName(fileId: string, index: number): string {
+        return `${fileId}_chunk_${index.toString().padStart(4, '0')}.enc`;
+    }
+
+    // Deduplicated chunks are named by their keyed-hash ID, shared across files
+    static dedupChunkFileName(chunkId: string): string {
+        return `${chunkId}.enc`;
+    }
+
+    // Content-addressed chunks (current format) are named by their CID
+    static cidChunkFileName(cid: string): string {
+        return `${cid}.enc`;
+    }
+
+    // File name data chunk `index` of this manifest is stored under, when it doesn't depend on position
+    static contentChunkFileName(metadata: FileMetadata, index: number): string | null {
+        if (metadata.chunkCids) {
+            return this.cidChunkFileName(metadata.chunkCids[index]);
+        }
+        if (metadata.chunkRefs) {
+            return this.dedupChunkFileName(metadata.chunkRefs[index].id);
+        }
+        return null;
+    }
+
+    // Every chunk file of a chunk set, data then parity, each name once (deduplicated chunks can
+    // repeat within a file). Empty for old manifests without a file ID, whose names aren't known.
+    static chunkFiles(metadata: FileMetadata): ChunkFileEntry[] {
+        const fileId = metadata.fileId;
+        if (!fileId && !metadata.chunkCids) {
+            return [];
+        }
+
+        const entries = new Map<string, ChunkFileEntry>();
+        for (let index = 0; index < metadata.totalChunks; index++) {
+            const name = this.contentChunkFileName(metadata, index) || this.chunkFileName(fileId!, index);
+            if (!entries.has(name)) {
+                entries.set(name, { name, kind: 'data', index, hash: metadata.chunkHashes?.[index] });
+            }
+        }
+
+        metadata.erasure?.parityHashes.forEach((hashes, stripe) => hashes.forEach((hash, parityIndex) => {
+            const cid = metadata.erasure!.parityCids?.[stripe]?.[parityIndex];
+            const name = cid ? this.cidChunkFileName(cid) : this.parityFileName(fileId!, stripe, parityIndex);
+            entries.set(name, { name, kind: 'parity', index: stripe, parityIndex, hash });
+        }));
+
+        return Array.from(entries.values());
+    }
+
+    static parityFileName(fileId: string, stripe: number, parityIndex: number): string {
+        return `${fileId}_parity_${stripe.toString().padStart(4, '0')}_${parityIndex.toString().padStart(2, '0')}.enc`;
+    }
+
+    // Manifest (new) or plaintext metadata (legacy) file
+    static isManifestFileName(name: string): boolean {
+        return name.endsWith('_manifest.json') || name.endsWith('_metadata.json');
+    }
+
+    // Encrypt the metadata with the file key; the header is bound in as additional data.
+    // `keyId` names the key that wrapped the file key (the master key by default);
+    // `recipients` are public keys of people who get their own wrapped copy of the file key.
+    static async sealManifest(
+        metadata: FileMetadata,
+        fileKey: CryptoKey,
+        keyId: string = SecureCryptoUtils.getKeyId(),
+        recipients: string[] = []
+    ): Promise<string> {
+        const { wrappedKey, ...body } = metadata;
+        if (!wrappedKey) {
+            throw new Error('Cannot seal a manifest without a wrapped file key');
+        }
+
+        const header: ManifestHeader = {
+            format: this.FORMAT,
+            version: this.VERSION,
+            keyId,
+            kdf: null,
+            keyLabel: SecureCryptoUtils.getKeyLabel(keyId)
+        };
+        const manifest = await this.encryptManifest(header, wrappedKey, body, fileKey);
+
+        for (const recipient of recipients) {
+            await this.addRecipientWrap(manifest, fileKey, recipient);
+        }
+
+        return JSON.stringify(manifest, null, 2);
+    }
+
+    // Share an existing chunk set: add recipients to its manifest. Only the file key is wrapped
+    // again - the chunks and the encrypted metadata stay exactly as they are.
+    static async addRecipients(text: string, recipients: string[]): Promise<string> {
+        const manifest = this.parseManifest(text);
+        if (!manifest) {
+            throw new Error('Only encrypted manifests can be shared - re-upload files made by older versions');
+        }
+
+        // Opening it first proves we can read it and that it is intact
+        const { fileKey } = await this.openManifest(text);
+        for (const recipient of recipients) {
+            await this.addRecipientWrap(manifest, fileKey!, recipient);
+        }
+
+        return JSON.stringify(manifest, null, 2);
+    }
+
+    // Reseal a manifest for a share bundle: the file key is wrapped only with `passphrase`
+    // (its KDF parameters go into the header), so it opens without any keystore. Recipients and
+    // the key label are left out - the bundle goes to someone outside the keyring.
+    static async sealPassphraseManifest(text: string, passphrase: string): Promise<string> {
+        const source = this.parseManifest(text);
+        if (!source) {
+            throw new Error('Only encrypted manifests can be bundled - re-upload files made by older versions');
+        }
+
+        const { metadata, fileKey } = await this.openManifest(text);
+        const { wrappedKey: _ownerWrappedKey, ...body } = metadata;
+        const { data, kdf } = await SecureKeyManager.wrapWithPassphrase(fileKey!, passphrase);
+
+        const header: ManifestHeader = {
+            format: this.FORMAT,
+            version: this.VERSION,
+            keyId: source.header.keyId,
+            kdf
+        };
+        const manifest = await this.encryptManifest(header, data, body, fileKey!);
+
+        console.log(`🔑 Manifest resealed for a passphrase (${kdf.algorithm})`);
+        return JSON.stringify(manifest, null, 2);
+    }
+
+    // Decrypt a manifest before anything else touches the chunks.
+    // Plaintext metadata written by older versions is accepted as-is; share bundles need `passphrase`.
+    static async openManifest(text: string, passphrase?: string): Promise<OpenedManifest> {
+        const manifest = this.parseManifest(text);
+
+        if (!manifest) {
+            console.log('ℹ️ Plaintext (legacy) metadata detected');
+            const metadata: FileMetadata = JSON.parse(text);
+            const fileKey = metadata.wrappedKey
+                ? await this.unwrapWithAnyKey(metadata.wrappedKey)
+                : undefined;
+            return { metadata, fileKey };
+        }
+
+        const fileKey = await this.unlockFileKey(manifest, passphrase);
+
+        let body: ArrayBuffer;
+        try {
+            body = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: hexToBytes(manifest.iv), additionalData: this.headerBytes(manifest.header) as BufferSource },
+                fileKey,
+                base64ToBytes(manifest.ciphertext) as BufferSource
+            );
+        } catch (error) {
+            throw new Error('Manifest decryption failed - the manifest was tampered with or is corrupted');
+        }
+
+        const metadata: FileMetadata = JSON.parse(new TextDecoder().decode(body));
+        return { metadata, fileKey };
+    }
+
+    // Parse manifest text: the encrypted manifest, or null for legacy plaintext metadata
+    private static parseManifest(text: string): EncryptedManifest | null {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(text);
+        } catch (error) {
+            throw new Error('Manifest is not valid JSON');
+        }
+
+        if (!parsed.header || parsed.header.format !== this.FORMAT) {
+            return null;
+        }
+        if (parsed.header.version > this.VERSION) {
+            throw new Error(`Unsupported manifest version ${parsed.header.version}`);
+        }
+        return parsed;
+    }
+
+    private static async encryptManifest(
+        header: ManifestHeader,
+        wrappedKey: string,
+        body: Omit<FileMetadata, 'wrappedKey'>,
+        fileKey: CryptoKey
+    ): Promise<EncryptedManifest> {
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv, additionalData: this.headerBytes(header) as BufferSource },
+            fileKey,
+            new TextEncoder().encode(JSON.stringify(body)) as BufferSource
+        );
+
+        return {
+            header,
+            wrappedKey,
+            iv: bytesToHex(iv),
+            ciphertext: bytesToBase64(new Uint8Array(ciphertext))
+        };
+    }
+
+    // Get the file key: with the passphrase for share bundles, through our keyring if we hold
+    // the key named in the header, otherwise through a recipient wrap addressed to our identity
+    private static async unlockFileKey(manifest: EncryptedManifest, passphrase?: string): Promise<CryptoKey> {
+        if (manifest.header.kdf) {
+            if (!passphrase) {
+                throw new Error('This is a password-protected share bundle - open it in recipient mode with its passphrase');
+            }
+            console.log(`🔑 Opening share bundle (${PasswordKdf.describe(manifest.header.kdf)})`);
+            return SecureKeyManager.unwrapWithPassphrase(manifest.wrappedKey, passphrase, manifest.header.kdf);
+        }
+
+        const keyId = manifest.header.keyId;
+        const keyName = manifest.header.keyLabel ? `"${manifest.header.keyLabel}" (${keyId})` : keyId;
+
+        if (SecureCryptoUtils.getCryptoKeyById(keyId)) {
+            if (keyId !== SecureCryptoUtils.getKeyId()) {
+                console.log(`🗝️ Manifest uses keyring key ${keyName}`);
+            }
+            return SecureCryptoUtils.unwrapFileKey(manifest.wrappedKey, keyId);
+        }
+
+        const identity = SecureCryptoUtils.getIdentity();
+        const wrap = identity && manifest.recipients?.find(candidate => candidate.recipientId === identity.recipientId);
+        if (identity && wrap) {
+            console.log(`📨 Manifest was shared with you (recipient ${identity.recipientId})`);
+            return RecipientCrypto.unwrapAsRecipient(wrap, identity.privateKey);
+        }
+
+        throw new Error(`This file was encrypted with key ${keyName}, which is not in your keyring, ` +
+            `and it was not shared with you. Import that key, or ask the owner to add you as a recipient.`);
+    }
+
+    // Wrap the file key for one more recipient (skipped if they already have a wrap)
+    private static async addRecipientWrap(manifest: EncryptedManifest, fileKey: CryptoKey, recipient: string): Promise<void> {
+        const wrap = await RecipientCrypto.wrapForRecipient(fileKey, recipient);
+        const recipients = manifest.recipients || [];
+        if (recipients.some(existing => existing.recipientId === wrap.recipientId)) {
+            console.log(`ℹ️ Recipient ${wrap.recipientId} already has access`);
+            return;
+        }
+
+        manifest.recipients = [...recipients, wrap];
+        console.log(`📨 File key wrapped for recipient ${wrap.recipientId}`);
+    }
+
+    // Legacy metadata doesn't say which key wrapped its file key: try the master key, then the keyring
+    private static async unwrapWithAnyKey(wrappedKey: string): Promise<CryptoKey> {
+        const keyIds = SecureCryptoUtils.getKeyring().map(key => key.keyId);
+
+        for (const keyId of keyIds) {
+            try {
+                return await SecureCryptoUtils.unwrapFileKey(wrappedKey, keyId);
+            } catch (error) {
+                // Not this one
+            }
+        }
+
+        throw new Error(`Failed to unwrap file key with any of your ${keyIds.length} keys - wrong keyring or corrupted metadata`);
+    }
+
+    // Canonical header encoding used as additional data (fixed field order)
+    private static headerBytes(header: ManifestHeader): Uint8Array {
+        return new TextEncoder().encode(JSON.stringify({
+            format: header.format,
+            version: header.version,
+            keyId: header.keyId,
+            kdf: header.kdf,
+            keyLabel: header.keyLabel // Absent in older manifests - JSON.stringify leaves it out
+        }));
+    }
+}
@@ -0,0 +1,58 @@
+import { PlacementEngine, PlacementTarget } from './placementEngine';
+
+const chunkIds = Array.from({ length: 2000 }, (_, i) => `chunk-${i}`);
+
+function countFirstChoices(backends: PlacementTarget[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const chunkId of chunkIds) {
+        const [first] = PlacementEngine.place(chunkId, { backends, replicas: 1 });
+        counts[first] = (counts[first] || 0) + 1;
+    }
+    return counts;
+}
+
+describe('PlacementEngine', () => {
+    const backends: PlacementTarget[] = [
+        { id: 'local', weight: 1 },
+        { id: 's3', weight: 1 },
+        { id: 'node', weight: 1 }
+    ];
+
+    test('placement is deterministic and picks R distinct backends', () => {
+        const placement = PlacementEngine.place('chunk-1', { backends, replicas: 2 });
+
+        expect(PlacementEngine.place('chunk-1', { backends: [...backends].reverse(), replicas: 2 })).toEqual(placement);
+        expect(new Set(placement).size).toBe(2);
+        expect(PlacementEngine.place('chunk-1', { backends, replicas: 3 }).sort()).toEqual(['local', 'node', 's3']);
+    });
+
+    test('chunks are spread in proportion to the weights', () => {
+        const counts = countFirstChoices([{ id: 'small', weight: 1 }, { id: 'large', weight: 3 }]);
+
+        expect(counts.large / chunkIds.length).toBeGreaterThan(0.7);
+        expect(counts.large / chunkIds.length).toBeLessThan(0.8);
+    });
+
+    test('adding a backend only moves chunks onto the new backend', () => {
+        const grown = [...backends, { id: 'extra', weight: 1 }];
+        let moved = 0;
+
+        for (const chunkId of chunkIds) {
+            const before = PlacementEngine.place(chunkId, { backends, replicas: 2 });
+            const after = PlacementEngine.place(chunkId, { backends: grown, replicas: 2 });
+            const added = after.filter(id => !before.includes(id));
+            expect(added.every(id => id === 'extra')).toBe(true);
+            moved += added.length;
+        }
+        // The new backend takes about its share (1/4 of 2 copies per chunk)
+        expect(moved / (chunkIds.length * 2)).toBeGreaterThan(0.2);
+        expect(moved / (chunkIds.length * 2)).toBeLessThan(0.3);
+    });
+
+    test('rejects impossible configurations', () => {
+        expect(() => PlacementEngine.validate({ backends: [], replicas: 1 })).toThrow('No storage backends configured');
+        expect(() => PlacementEngine.validate({ backends, replicas: 4 })).toThrow('between 1 and 3');
+        expect(() => PlacementEngine.validate({ backends, replicas: 0 })).toThrow('between 1 and 3');
+        expect(() => PlacementEngine.validate({ backends: [{ id: 'broken', weight: 0 }], replicas: 1 })).toThrow('positive weight');
+    });
+});
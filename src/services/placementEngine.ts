@@ -0,0 +1,53 @@
+// services/placementEngine.ts - Which storage backends hold the copies of each chunk
+import { sha256 } from '@noble/hashes/sha2';
+
+export interface PlacementTarget {
+    id: string;       // Stable backend ID (StorageProviders.backendId)
+    weight: number;   // Relative share of the chunks
+}
+
+export interface PlacementOptions {
+    backends: PlacementTarget[];
+    replicas: number; // R: copies of every chunk, at most one per backend
+}
+
+const encoder = new TextEncoder();
+
+export class PlacementEngine {
+    // Weighted rendezvous (highest random weight) hashing: every backend gets a pseudo-random
+    // score per chunk and the R best win. Deterministic, needs no shared state, and adding or
+    // removing a backend only moves the chunks that backend wins or held.
+    static place(chunkId: string, options: PlacementOptions): string[] {
+        this.validate(options);
+        return options.backends
+            .map(backend => ({ id: backend.id, score: this.score(chunkId, backend) }))
+            .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : 1))
+            .slice(0, options.replicas)
+            .map(backend => backend.id);
+    }
+
+    static validate(options: PlacementOptions): void {
+        if (options.backends.length === 0) {
+            throw new Error('No storage backends configured');
+        }
+        if (!Number.isInteger(options.replicas) || options.replicas < 1 || options.replicas > options.backends.length) {
+            throw new Error(`Replication factor must be between 1 and ${options.backends.length} (the number of backends)`);
+        }
+        const invalid = options.backends.find(backend => !(backend.weight > 0));
+        if (invalid) {
+            throw new Error(`Backend ${invalid.id} needs a positive weight`);
+        }
+    }
+
+    // weight / -ln(u), with u uniform in (0, 1) from a hash of (backend, chunk): the chance of
+    // a backend ranking first is proportional to its weight
+    private static score(chunkId: string, backend: PlacementTarget): number {
+        const digest = sha256(encoder.encode(`${backend.id}\n${chunkId}`));
+        let value = 0;
+        for (let i = 0; i < 6; i++) {
+            value = value * 256 + digest[i];
+        }
+        const u = (value + 0.5) / 2 ** 48;
+        return backend.weight / -Math.log(u);
+    }
+}
@@ -0,0 +1,140 @@
+// services/replicatedStorage.ts - Several storage backends used together, each chunk on R of them
+import { PlacementOptions } from './placementEngine';
+import { StorageProvider } from './storageProviders';
+
+export interface StorageBackend {
+    id: string;
+    weight: number;
+    provider: StorageProvider;
+}
+
+export class ReplicatedStorage implements StorageProvider {
+    readonly description: string;
+
+    constructor(readonly backends: StorageBackend[]) {
+        if (backends.length === 0) {
+            throw new Error('No storage backends configured');
+        }
+        this.description = backends.length === 1
+            ? backends[0].provider.description
+            : `${backends.length} storage backends`;
+    }
+
+    // What the placement engine needs for an upload with `replicas` copies per chunk
+    placementOptions(replicas: number): PlacementOptions {
+        return { backends: this.backends.map(({ id, weight }) => ({ id, weight })), replicas };
+    }
+
+    // Write one chunk to the backends the placement picked; returns those that stored it.
+    // Only a chunk no backend accepted is an error - missing copies are reported and can be
+    // re-created later, the manifest still names every intended replica.
+    async putReplicas(chunkId: string, data: Uint8Array, backendIds: string[]): Promise<string[]> {
+        const targets = backendIds.map(id => this.backend(id));
+        const results = await Promise.all(targets.map(async target => {
+            try {
+                await target.provider.put(chunkId, data);
+                return target.id;
+            } catch (error) {
+                console.warn(`⚠️ Could not store ${chunkId} on ${target.provider.description}:`, error);
+                return null;
+            }
+        }));
+
+        const stored = results.filter((id): id is string => id !== null);
+        if (stored.length === 0) {
+            throw new Error(`None of the ${targets.length} backends picked for ${chunkId} could store it`);
+        }
+        return stored;
+    }
+
+    // Manifests go to every backend, so each one can list and restore its files
+    async put(chunkId: string, data: Uint8Array): Promise<void> {
+        await this.putReplicas(chunkId, data, this.backends.map(backend => backend.id));
+    }
+
+    async get(chunkId: string): Promise<Uint8Array | null> {
+        return this.read(chunkId);
+    }
+
+    // Read from whichever replica answers first. Every candidate is asked whether it has the
+    // chunk; the chunk is then downloaded from them in the order they answered, moving on to
+    // the next one when a download fails or `verify` rejects the data. Replicas unknown to this
+    // configuration are skipped; without any known replica every backend is asked.
+    async read(
+        chunkId: string,
+        replicas?: string[],
+        verify?: (data: Uint8Array) => Promise<boolean>
+    ): Promise<Uint8Array | null> {
+        const known = (replicas || []).filter(id => this.backends.some(backend => backend.id === id)).map(id => this.backend(id));
+        const candidates = known.length > 0 ? known : this.backends;
+
+        const answered: StorageBackend[] = [];
+        let outstanding = candidates.length;
+        let wakeUp = () => {};
+        const nextAnswer = () => new Promise<void>(resolve => { wakeUp = resolve; });
+
+        candidates.forEach(candidate => {
+            candidate.provider.has(chunkId)
+                .then(found => {
+                    if (found) answered.push(candidate);
+                })
+                .catch(error => console.warn(`⚠️ ${candidate.provider.description} did not answer for ${chunkId}:`, error))
+                .then(() => {
+                    outstanding--;
+                    wakeUp();
+                });
+        });
+
+        for (let next = 0; ; next++) {
+            while (answered.length <= next && outstanding > 0) {
+                await nextAnswer();
+            }
+            if (answered.length <= next) {
+                return null;
+            }
+
+            const replica = answered[next];
+            try {
+                const data = await replica.provider.get(chunkId);
+                if (data && (!verify || await verify(data))) {
+                    if (next > 0) {
+                        console.log(`🔁 ${chunkId} read from fallback replica ${replica.id}`);
+                    }
+                    return data;
+                }
+                console.warn(`⚠️ Replica of ${chunkId} on ${replica.provider.description} is ${data ? 'corrupt' : 'gone'}`);
+            } catch (error) {
+                console.warn(`⚠️ Could not read ${chunkId} from ${replica.provider.description}:`, error);
+            }
+        }
+    }
+
+    async has(chunkId: string): Promise<boolean> {
+        const answers = await Promise.all(this.backends.map(backend => backend.provider.has(chunkId).catch(() => false)));
+        return answers.some(Boolean);
+    }
+
+    async delete(chunkId: string): Promise<void> {
+        await Promise.all(this.backends.map(backend => backend.provider.delete(chunkId)));
+    }
+
+    // Union of what the reachable backends hold
+    async list(prefix: string = ''): Promise<string[]> {
+        const lists = await Promise.all(this.backends.map(backend => backend.provider.list(prefix).catch(error => {
+            console.warn(`⚠️ Could not list ${backend.provider.description}:`, error);
+            return null;
+        })));
+        if (lists.every(list => list === null)) {
+            throw new Error('None of the storage backends could be listed');
+        }
+        return Array.from(new Set(lists.flatMap(list => list || []))).sort();
+    }
+
+    private backend(id: string): StorageBackend {
+        const backend = this.backends.find(candidate => candidate.id === id);
+        if (!backend) {
+            throw new Error(`Unknown storage backend ${id}`);
+        }
+        return backend;
+    }
+}
@@ -0,0 +1,124 @@
+// services/s3StorageProvider.ts - Chunks as objects in an S3-compatible bucket (AWS S3, MinIO, ...)
+import { AwsSigV4, EMPTY_PAYLOAD_HASH } from '../utils/awsSigV4';
+import { StorageProvider } from './storageProviders';
+
+export interface S3Settings {
+    endpoint: string;          // e.g. http://localhost:9000 for a local MinIO
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;   // Only kept in memory
+    prefix: string;            // Optional key prefix inside the bucket, e.g. "sfs/"
+}
+
+// Path-style requests (endpoint/bucket/key), which every S3-compatible server accepts.
+// The bucket needs a CORS rule allowing this origin, the methods below and the
+// authorization, x-amz-date and x-amz-content-sha256 headers.
+export class S3StorageProvider implements StorageProvider {
+    readonly description: string;
+
+    constructor(private readonly settings: S3Settings) {
+        if (!settings.endpoint || !settings.bucket) {
+            throw new Error('S3 storage needs an endpoint and a bucket');
+        }
+        if (!settings.accessKeyId || !settings.secretAccessKey) {
+            throw new Error('S3 storage needs an access key and a secret key');
+        }
+        this.description = `S3 bucket ${settings.bucket} at ${settings.endpoint}`;
+    }
+
+    async put(chunkId: string, data: Uint8Array): Promise<void> {
+        const response = await this.send('PUT', this.objectUrl(chunkId), data);
+        await this.expectOk(response, `upload ${chunkId}`);
+    }
+
+    async get(chunkId: string): Promise<Uint8Array | null> {
+        const response = await this.send('GET', this.objectUrl(chunkId));
+        if (response.status === 404) return null;
+        await this.expectOk(response, `download ${chunkId}`);
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
+    async has(chunkId: string): Promise<boolean> {
+        const response = await this.send('HEAD', this.objectUrl(chunkId));
+        if (response.status === 404) return false;
+        await this.expectOk(response, `check ${chunkId}`);
+        return true;
+    }
+
+    async delete(chunkId: string): Promise<void> {
+        const response = await this.send('DELETE', this.objectUrl(chunkId));
+        if (response.status !== 404) {
+            await this.expectOk(response, `delete ${chunkId}`);
+        }
+    }
+
+    // ListObjectsV2, following continuation tokens
+    async list(prefix: string = ''): Promise<string[]> {
+        const ids: string[] = [];
+        let continuationToken: string | null = null;
+
+        do {
+            const url = new URL(this.bucketUrl());
+            url.searchParams.set('list-type', '2');
+            url.searchParams.set('prefix', this.settings.prefix + prefix);
+            if (continuationToken) {
+                url.searchParams.set('continuation-token', continuationToken);
+            }
+
+            const response = await this.send('GET', url.toString());
+            await this.expectOk(response, 'list the bucket');
+            const xml = await response.text();
+
+            ids.push(...this.xmlValues(xml, 'Key').map(key => key.substring(this.settings.prefix.length)));
+            continuationToken = this.xmlValues(xml, 'IsTruncated')[0] === 'true'
+                ? this.xmlValues(xml, 'NextContinuationToken')[0] || null
+                : null;
+        } while (continuationToken);
+
+        return ids.sort();
+    }
+
+    private async send(method: string, url: string, body?: Uint8Array): Promise<Response> {
+        const payloadHash = body ? await AwsSigV4.sha256Hex(body) : EMPTY_PAYLOAD_HASH;
+        const headers = await AwsSigV4.sign(
+            { method, url, payloadHash, headers: body ? { 'content-type': 'application/octet-stream' } : {} },
+            this.settings,
+            this.settings.region
+        );
+
+        try {
+            return await fetch(url, { method, headers, body: body as BodyInit | undefined });
+        } catch (error) {
+            // fetch only rejects when the request never got an answer (offline, DNS, CORS)
+            throw new Error(`Cannot reach ${this.settings.endpoint} - check the endpoint and the bucket's CORS rules`);
+        }
+    }
+
+    private async expectOk(response: Response, action: string): Promise<void> {
+        if (response.ok) return;
+        const text = await response.text().catch(() => '');
+        const code = this.xmlValues(text, 'Code')[0];
+        throw new Error(`Failed to ${action}: HTTP ${response.status}${code ? ` (${code})` : ''}`);
+    }
+
+    private bucketUrl(): string {
+        return `${this.settings.endpoint.replace(/\/+$/, '')}/${AwsSigV4.encode(this.settings.bucket)}`;
+    }
+
+    private objectUrl(chunkId: string): string {
+        const key = this.settings.prefix + chunkId;
+        return `${this.bucketUrl()}/${key.split('/').map(segment => AwsSigV4.encode(segment)).join('/')}`;
+    }
+
+    // The list and error responses are small, flat XML documents
+    private xmlValues(xml: string, tag: string): string[] {
+        const values: string[] = [];
+        const pattern = new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g');
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(xml)) !== null) {
+            values.push(match[1].replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&'));
+        }
+        return values;
+    }
+}
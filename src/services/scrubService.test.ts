@@ -0,0 +1,96 @@
+import { SECURITY_CONFIG } from '../config';
+import { FileMetadata } from '../types/fileMetadata';
+import { SecureCryptoUtils } from '../utils/cryptoUtils';
+import { LEGACY_PBKDF2_ITERATIONS } from '../utils/passwordKdf';
+import { FileEncryptionService } from './fileEncryptionService';
+import { FileReconstructionService } from './fileReconstructionService';
+import { ReplicatedStorage } from './replicatedStorage';
+import { ScrubService } from './scrubService';
+import { MemoryStorageProvider } from './storageProviders';
+
+interface StoredFile {
+    storage: ReplicatedStorage;
+    metadata: FileMetadata;
+    manifestName: string;
+    chunkNames: string[];    // Data chunks in order
+}
+
+// Encrypt a file with every chunk on both in-memory backends
+async function storeFile(): Promise<StoredFile> {
+    const storage = new ReplicatedStorage([
+        { id: 'a', weight: 1, provider: new MemoryStorageProvider() },
+        { id: 'b', weight: 1, provider: new MemoryStorageProvider() }
+    ]);
+    const data = Uint8Array.from({ length: 2500 }, (_, i) => (i * 31 + 7) & 0xff);
+    const generator = FileEncryptionService.encryptFileGenerator(new File([data as BlobPart], 'ledger.xlsx'), 1024, () => undefined, {
+        placement: storage.placementOptions(2)
+    });
+
+    const chunkNames: string[] = [];
+    let step = await generator.next();
+    while (!step.done) {
+        await storage.putReplicas(step.value.filename, new Uint8Array(await step.value.blob.arrayBuffer()), step.value.replicas!);
+        chunkNames.push(step.value.filename);
+        step = await generator.next();
+    }
+    const { metadata, manifest } = step.value;
+    await storage.put(manifest.filename, new Uint8Array(await manifest.blob.arrayBuffer()));
+    return { storage, metadata, manifestName: manifest.filename, chunkNames };
+}
+
+describe('ScrubService', () => {
+    const kdf = { algorithm: SECURITY_CONFIG.KDF_ALGORITHM, iterations: SECURITY_CONFIG.PBKDF2_ITERATIONS };
+
+    beforeAll(async () => {
+        SECURITY_CONFIG.KDF_ALGORITHM = 'pbkdf2';
+        SECURITY_CONFIG.PBKDF2_ITERATIONS = LEGACY_PBKDF2_ITERATIONS;
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        localStorage.clear();
+        await SecureCryptoUtils.initialize('correct horse battery staple');
+    });
+
+    afterAll(() => {
+        SECURITY_CONFIG.KDF_ALGORITHM = kdf.algorithm;
+        SECURITY_CONFIG.PBKDF2_ITERATIONS = kdf.iterations;
+        jest.restoreAllMocks();
+    });
+
+    test('a corrupt copy and a missing copy are rewritten from the other replica', async () => {
+        const { storage, manifestName, chunkNames } = await storeFile();
+        const [a, b] = storage.backends.map(backend => backend.provider);
+        const original = await b.get(chunkNames[0]);
+
+        const corrupt = (await a.get(chunkNames[0]))!;
+        corrupt[corrupt.length - 1] ^= 0x01;
+        await a.put(chunkNames[0], corrupt);
+        await b.delete(chunkNames[1]);
+
+        const report = await ScrubService.scrubFile(storage, manifestName, 'full');
+
+        expect(report.findings).toEqual([
+            expect.objectContaining({ file: chunkNames[0], backend: 'a', issue: 'corrupt', repaired: true }),
+            expect.objectContaining({ file: chunkNames[1], backend: 'b', issue: 'missing', repaired: true })
+        ]);
+        expect(report.healthy).toBe(true);
+        expect(Array.from((await a.get(chunkNames[0]))!)).toEqual(Array.from(original!));
+        expect(await b.has(chunkNames[1])).toBe(true);
+        expect((await ScrubService.scrubFile(storage, manifestName, 'full')).findings).toEqual([]);
+    });
+
+    test('a copy that matches its hash but fails authentication is corrupt, not ok', async () => {
+        const { storage, manifestName, chunkNames } = await storeFile();
+        const verifyChunkTag = FileReconstructionService.verifyChunkTag.bind(FileReconstructionService);
+        jest.spyOn(FileReconstructionService, 'verifyChunkTag').mockImplementation((data, fileKey, metadata, index) =>
+            index === 2 ? Promise.resolve(false) : verifyChunkTag(data, fileKey, metadata, index));
+
+        const report = await ScrubService.scrubFile(storage, manifestName, 'full');
+
+        // Both replicas hold the same bytes, so neither can repair the other
+        expect(report.findings).toHaveLength(2);
+        expect(report.findings).toEqual(expect.arrayContaining(['a', 'b'].map(backend =>
+            expect.objectContaining({ file: chunkNames[2], backend, issue: 'corrupt', repaired: false }))));
+        expect(report.findings[0].detail).toContain('fails authentication');
+        expect(report.healthy).toBe(false);
+    });
+});
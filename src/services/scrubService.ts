@@ -0,0 +1,348 @@
+// services/scrubService.ts - Audit the chunk sets in storage and repair missing or corrupt copies
+import { SCRUB_CONFIG } from '../config';
+import { FileMetadata } from '../types/fileMetadata';
+import { SecureCryptoUtils } from '../utils/cryptoUtils';
+import { ChunkSource, StorageChunkSource } from './chunkSources';
+import { FileReconstructionService } from './fileReconstructionService';
+import { ChunkFileEntry, ManifestService, OpenedManifest } from './manifestService';
+import { PlacementEngine } from './placementEngine';
+import { ReplicatedStorage, StorageBackend } from './replicatedStorage';
+import { SessionManager } from './sessionManager';
+
+// 'full' downloads and verifies every copy; 'spot' verifies a sample and only looks up the rest
+export type ScrubMode = 'full' | 'spot';
+
+export type ScrubIssue =
+    | 'missing'              // A backend that should hold the file doesn't
+    | 'corrupt'              // The copy doesn't match its hash or fails AES-GCM authentication
+    | 'unreachable'          // The backend could not be asked
+    | 'unreadable-manifest'; // No copy of the manifest opens with the keys in this keyring
+
+export interface ScrubFinding {
+    file: string;            // Stored file name (manifest or chunk)
+    backend: string | null;  // Backend ID the finding is about, null for the whole file
+    issue: ScrubIssue;
+    repaired: boolean;
+    detail?: string;
+}
+
+// Kept per manifest name only - reports never contain original file names
+export interface FileAuditReport {
+    manifestName: string;
+    lastVerified: number;
+    mode: ScrubMode;
+    chunksTotal: number;
+    chunksVerified: number;  // Chunks whose copies were downloaded and checked (the rest were looked up)
+    findings: ScrubFinding[];
+    healthy: boolean;        // Nothing found, or everything found was repaired
+}
+
+export interface ScrubSettings {
+    automatic: boolean;      // Spot-check the storage in the background while unlocked
+}
+
+export interface ScrubSummary {
+    files: number;
+    findings: number;
+    repaired: number;
+}
+
+type CopyState = 'ok' | Extract<ScrubIssue, 'missing' | 'corrupt' | 'unreachable'>;
+
+export class ScrubService {
+    private static readonly REPORTS_KEY = 'secure_file_splitter_scrub_reports';
+    private static readonly SETTINGS_KEY = 'secure_file_splitter_scrub_settings';
+    private static running = false;
+
+    static getSettings(): ScrubSettings {
+        try {
+            const stored = localStorage.getItem(this.SETTINGS_KEY);
+            return { automatic: false, ...(stored ? JSON.parse(stored) : {}) };
+        } catch (error) {
+            return { automatic: false };
+        }
+    }
+
+    static saveSettings(settings: ScrubSettings): void {
+        localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+    }
+
+    // Last audit of every file, by manifest name
+    static getReports(): Record<string, FileAuditReport> {
+        try {
+            const stored = localStorage.getItem(this.REPORTS_KEY);
+            return stored ? JSON.parse(stored) : {};
+        } catch (error) {
+            return {};
+        }
+    }
+
+    static isRunning(): boolean {
+        return this.running;
+    }
+
+    // Walk every manifest in the storage and audit its chunk set. Each file's report is saved as
+    // soon as it is done, so a scrub cut short by a session lock still leaves what it found.
+    static async scrub(
+        storage: ReplicatedStorage,
+        mode: ScrubMode,
+        signal?: AbortSignal,
+        onProgress?: (done: number, total: number) => void
+    ): Promise<ScrubSummary> {
+        if (this.running) {
+            throw new Error('A scrub is already running');
+        }
+        this.running = true;
+
+        try {
+            const names = await storage.list();
+            const manifests = names.filter(name => ManifestService.isManifestFileName(name));
+            const summary: ScrubSummary = { files: 0, findings: 0, repaired: 0 };
+            console.log(`🧽 Scrubbing ${manifests.length} files (${mode} check) on ${storage.description}`);
+
+            for (const manifestName of manifests) {
+                SessionManager.throwIfLocked(signal);
+                onProgress?.(summary.files, manifests.length);
+
+                const report = await this.scrubFile(storage, manifestName, mode, signal);
+                this.saveReport(report);
+                summary.files++;
+                summary.findings += report.findings.length;
+                summary.repaired += report.findings.filter(finding => finding.repaired).length;
+            }
+            onProgress?.(summary.files, manifests.length);
+
+            // Files that are no longer stored have nothing left to report on
+            const reports = this.getReports();
+            Object.keys(reports).filter(name => !manifests.includes(name)).forEach(name => delete reports[name]);
+            localStorage.setItem(this.REPORTS_KEY, JSON.stringify(reports));
+
+            console.log(`🧽 Scrub done: ${summary.files} files, ${summary.findings} findings, ${summary.repaired} repaired`);
+            return summary;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    // Audit one file: every copy of its manifest, then every copy of each chunk it names
+    static async scrubFile(
+        storage: ReplicatedStorage,
+        manifestName: string,
+        mode: ScrubMode,
+        signal?: AbortSignal
+    ): Promise<FileAuditReport> {
+        const findings: ScrubFinding[] = [];
+        const report = (chunksTotal: number, chunksVerified: number): FileAuditReport => ({
+            manifestName,
+            lastVerified: Date.now(),
+            mode,
+            chunksTotal,
+            chunksVerified,
+            findings,
+            healthy: findings.every(finding => finding.repaired)
+        });
+
+        const opened = await this.scrubManifest(storage, manifestName, findings);
+        if (!opened) {
+            return report(0, 0);
+        }
+
+        const { metadata, fileKey } = opened;
+        const entries = ManifestService.chunkFiles(metadata);
+        let source: ChunkSource | null = null;
+        const rebuild = async (entry: ChunkFileEntry) => {
+            source = source || await StorageChunkSource.load(storage, manifestName);
+            return FileReconstructionService.rebuildChunk(source, metadata, entry);
+        };
+
+        let chunksVerified = 0;
+        for (const entry of entries) {
+            SessionManager.throwIfLocked(signal);
+            const verify = mode === 'full' || Math.random() < SCRUB_CONFIG.SPOT_CHECK_RATE;
+            await this.scrubChunk(storage, metadata, fileKey, entry, verify, rebuild, findings);
+            if (verify) chunksVerified++;
+        }
+
+        return report(entries.length, chunksVerified);
+    }
+
+    // The manifest lives on every backend. The first copy that opens is the reference; copies
+    // that are missing or differ from it are rewritten.
+    private static async scrubManifest(
+        storage: ReplicatedStorage,
+        manifestName: string,
+        findings: ScrubFinding[]
+    ): Promise<OpenedManifest | null> {
+        const copies = await Promise.all(storage.backends.map(async backend => {
+            try {
+                const data = await backend.provider.get(manifestName);
+                return data ? new TextDecoder().decode(data) : null;
+            } catch (error) {
+                return undefined;
+            }
+        }));
+
+        let reference: { text: string; opened: OpenedManifest } | null = null;
+        for (const text of copies) {
+            if (!text || (reference && text === reference.text)) continue;
+            try {
+                reference = { text, opened: await ManifestService.openManifest(text) };
+                break;
+            } catch (error) {
+                // Corrupt, or for a key this keyring doesn't have - try the next copy
+            }
+        }
+
+        if (!reference) {
+            findings.push({
+                file: manifestName,
+                backend: null,
+                issue: 'unreadable-manifest',
+                repaired: false,
+                detail: 'No copy opens with the keys in this keyring - its chunks were not checked'
+            });
+            return null;
+        }
+
+        const data = new TextEncoder().encode(reference.text);
+        for (let i = 0; i < storage.backends.length; i++) {
+            const copy = copies[i];
+            if (copy === reference.text) continue;
+            const issue = copy === undefined ? 'unreachable' : copy === null ? 'missing' : 'corrupt';
+            findings.push({
+                file: manifestName,
+                backend: storage.backends[i].id,
+                issue,
+                repaired: issue !== 'unreachable' && await this.writeCopy(storage.backends[i], manifestName, data)
+            });
+        }
+
+        return reference.opened;
+    }
+
+    // Check the copies of one chunk file on the backends meant to hold it, then rewrite the
+    // missing and corrupt ones from a good copy (or a rebuilt one)
+    private static async scrubChunk(
+        storage: ReplicatedStorage,
+        metadata: FileMetadata,
+        fileKey: CryptoKey | undefined,
+        entry: ChunkFileEntry,
+        verify: boolean,
+        rebuild: (entry: ChunkFileEntry) => Promise<Uint8Array | null>,
+        findings: ScrubFinding[]
+    ): Promise<void> {
+        const holders = await this.holders(storage, metadata, entry.name);
+        const states = new Map<StorageBackend, CopyState>();
+        let good: Uint8Array | null = null;
+
+        // A copy is intact when it matches its hash and, for data chunks, passes AES-GCM
+        // authentication. Copies that match the hash are the same bytes, so one tag check covers them.
+        let hashedCopyAuthentic: boolean | null = null;
+        const isIntact = async (data: Uint8Array): Promise<boolean> => {
+            if (entry.hash && await SecureCryptoUtils.calculateHash(data) !== entry.hash) {
+                return false;
+            }
+            if (entry.kind !== 'data') {
+                return true;
+            }
+            if (!entry.hash) {
+                return FileReconstructionService.verifyChunkTag(data, fileKey, metadata, entry.index);
+            }
+            if (hashedCopyAuthentic === null) {
+                hashedCopyAuthentic = await FileReconstructionService.verifyChunkTag(data, fileKey, metadata, entry.index);
+            }
+            return hashedCopyAuthentic;
+        };
+
+        for (const holder of holders) {
+            try {
+                if (!verify) {
+                    states.set(holder, await holder.provider.has(entry.name) ? 'ok' : 'missing');
+                    continue;
+                }
+
+                const data = await holder.provider.get(entry.name);
+                if (!data) {
+                    states.set(holder, 'missing');
+                    continue;
+                }
+
+                const valid = await isIntact(data);
+                states.set(holder, valid ? 'ok' : 'corrupt');
+                if (valid && !good) good = data;
+            } catch (error) {
+                states.set(holder, 'unreachable');
+            }
+        }
+
+        const damaged = holders.filter(holder => states.get(holder) !== 'ok');
+        if (damaged.length === 0) {
+            return;
+        }
+
+        // Any good copy will do: one downloaded above, another holder's, or one rebuilt from the rest
+        if (!good) {
+            const intact = holders.filter(holder => states.get(holder) === 'ok').map(holder => holder.id);
+            good = intact.length > 0
+                ? await storage.read(entry.name, intact, isIntact)
+                : null;
+        }
+        if (!good && holders.some(holder => states.get(holder) !== 'unreachable')) {
+            const rebuilt = await rebuild(entry);
+            good = rebuilt && await isIntact(rebuilt) ? rebuilt : null;
+        }
+
+        for (const holder of damaged) {
+            const issue = states.get(holder) as Exclude<CopyState, 'ok'>;
+            findings.push({
+                file: entry.name,
+                backend: holder.id,
+                issue,
+                repaired: issue !== 'unreachable' && !!good && await this.writeCopy(holder, entry.name, good),
+                detail: !good && issue !== 'unreachable'
+                    ? (hashedCopyAuthentic === false
+                        ? `Chunk ${entry.index} matches its hash but fails authentication, and no authentic copy could be rebuilt`
+                        : 'No intact copy left and it could not be rebuilt')
+                    : undefined
+            });
+        }
+    }
+
+    // Backends meant to hold a chunk file: the manifest's placement (backends no longer configured
+    // are left out), else whichever backends have it, else where an upload would put it now
+    private static async holders(storage: ReplicatedStorage, metadata: FileMetadata, name: string): Promise<StorageBackend[]> {
+        const placed = (metadata.placement?.chunks[name] || [])
+            .map(id => storage.backends.find(backend => backend.id === id))
+            .filter((backend): backend is StorageBackend => !!backend);
+        if (placed.length > 0) {
+            return placed;
+        }
+
+        const found = await Promise.all(storage.backends.map(backend => backend.provider.has(name).catch(() => false)));
+        const holding = storage.backends.filter((_, i) => found[i]);
+        if (holding.length > 0) {
+            return holding;
+        }
+
+        const replicas = Math.min(metadata.placement?.replicas || 1, storage.backends.length);
+        return PlacementEngine.place(name, storage.placementOptions(replicas))
+            .map(id => storage.backends.find(backend => backend.id === id)!);
+    }
+
+    private static async writeCopy(backend: StorageBackend, name: string, data: Uint8Array): Promise<boolean> {
+        try {
+            await backend.provider.put(name, data);
+            console.log(`🩹 Restored ${name} on ${backend.provider.description}`);
+            return true;
+        } catch (error) {
+            console.warn(`⚠️ Could not restore ${name} on ${backend.provider.description}:`, error);
+            return false;
+        }
+    }
+
+    private static saveReport(report: FileAuditReport): void {
+        const reports = this.getReports();
+        reports[report.manifestName] = report;
+        localStorage.setItem(this.REPORTS_KEY, JSON.stringify(reports));
+    }
+}
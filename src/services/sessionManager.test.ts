@@ -0,0 +1,67 @@
+import { SESSION_CONFIG } from '../config';
+import { SessionManager } from './sessionManager';
+
+const MINUTE = 60 * 1000;
+
+describe('SessionManager', () => {
+    let onLock: jest.Mock;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        localStorage.clear();
+        onLock = jest.fn();
+        SessionManager.start(onLock);
+    });
+
+    afterEach(() => {
+        SessionManager.stop();
+        jest.useRealTimers();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('locks after the idle timeout without input', () => {
+        jest.advanceTimersByTime(SESSION_CONFIG.IDLE_TIMEOUT_MINUTES * MINUTE - SESSION_CONFIG.IDLE_CHECK_INTERVAL);
+        expect(onLock).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(SESSION_CONFIG.IDLE_CHECK_INTERVAL);
+        expect(onLock).toHaveBeenCalledWith('idle');
+        expect(SessionManager.isActive()).toBe(false);
+    });
+
+    test('input restarts the idle timeout', () => {
+        jest.advanceTimersByTime(10 * MINUTE);
+        window.dispatchEvent(new KeyboardEvent('keydown'));
+        jest.advanceTimersByTime(10 * MINUTE);
+        expect(onLock).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(5 * MINUTE);
+        expect(onLock).toHaveBeenCalledWith('idle');
+    });
+
+    test('a running job keeps the session unlocked, a background job does not', () => {
+        const upload = SessionManager.beginJob();
+        jest.advanceTimersByTime(60 * MINUTE);
+        expect(onLock).not.toHaveBeenCalled();
+
+        SessionManager.endJob(upload);
+        const scrub = SessionManager.beginJob(true);
+        jest.advanceTimersByTime(SESSION_CONFIG.IDLE_TIMEOUT_MINUTES * MINUTE);
+        expect(onLock).toHaveBeenCalledWith('idle');
+        expect(scrub.aborted).toBe(true);
+        expect(() => SessionManager.throwIfLocked(scrub)).toThrow('Session locked');
+    });
+
+    test('an idle timeout of 0 never locks', () => {
+        SessionManager.saveSettings({ idleTimeoutMinutes: 0, lockOnHidden: false });
+        jest.advanceTimersByTime(24 * 60 * MINUTE);
+        expect(onLock).not.toHaveBeenCalled();
+    });
+});
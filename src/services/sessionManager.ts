@@ -0,0 +1,146 @@
+// services/sessionManager.ts - Locking the unlocked keys after inactivity, when the tab is hidden, or on demand
+import { SESSION_CONFIG } from "../config";
+import { SecureCryptoUtils } from "../utils/cryptoUtils";
+import { SecureKeyManager } from "../utils/keyManager";
+
+export type LockReason = 'manual' | 'idle' | 'hidden';
+
+export interface SessionSettings {
+    idleTimeoutMinutes: number;   // 0 = never lock for inactivity
+    lockOnHidden: boolean;
+}
+
+export class SessionManager {
+    private static readonly STORAGE_KEY = 'secure_file_splitter_session_settings';
+    private static readonly ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+    private static onLock: ((reason: LockReason) => void) | null = null;
+    private static lastActivity = 0;
+    private static idleTimer: ReturnType<typeof setInterval> | null = null;
+    private static jobs = new Set<AbortController>();
+    private static backgroundJobs = new Set<AbortController>();
+
+    static getSettings(): SessionSettings {
+        const defaults: SessionSettings = {
+            idleTimeoutMinutes: SESSION_CONFIG.IDLE_TIMEOUT_MINUTES,
+            lockOnHidden: SESSION_CONFIG.LOCK_ON_HIDDEN
+        };
+        try {
+            return { ...defaults, ...JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}') };
+        } catch (error) {
+            console.warn('Session settings are unreadable, using the defaults:', error);
+            return defaults;
+        }
+    }
+
+    static saveSettings(settings: SessionSettings): void {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    }
+
+    // Start watching for inactivity once the keys are unlocked; `onLock` brings back the unlock dialog
+    static start(onLock: (reason: LockReason) => void): void {
+        this.stop();
+        this.onLock = onLock;
+        this.lastActivity = Date.now();
+
+        this.ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.recordActivity, { passive: true }));
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+        window.addEventListener('pagehide', this.handlePageHide);
+        this.idleTimer = setInterval(this.checkIdle, SESSION_CONFIG.IDLE_CHECK_INTERVAL);
+        console.log('⏱️ Session started');
+    }
+
+    static stop(): void {
+        this.ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.recordActivity));
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        window.removeEventListener('pagehide', this.handlePageHide);
+        if (this.idleTimer) {
+            clearInterval(this.idleTimer);
+            this.idleTimer = null;
+        }
+        this.onLock = null;
+    }
+
+    static isActive(): boolean {
+        return this.onLock !== null;
+    }
+
+    // Cancel running jobs, forget every unlocked key and ask for the password again
+    static lock(reason: LockReason = 'manual'): void {
+        const onLock = this.onLock;
+        this.stop();
+
+        this.jobs.forEach(job => job.abort());
+        this.jobs.clear();
+        this.backgroundJobs.forEach(job => job.abort());
+        this.backgroundJobs.clear();
+        SecureCryptoUtils.reset();
+        SecureKeyManager.forgetWorkingKey();
+
+        console.log(`🔒 Session locked (${reason})`);
+        onLock?.(reason);
+    }
+
+    // Register a job that uses the unlocked keys; its signal is aborted when the session locks.
+    // A running job counts as activity, so a long upload is not cut off by the idle timeout -
+    // except background jobs (the storage scrub), which must never keep a session unlocked.
+    static beginJob(background: boolean = false): AbortSignal {
+        const job = new AbortController();
+        (background ? this.backgroundJobs : this.jobs).add(job);
+        return job.signal;
+    }
+
+    static endJob(signal: AbortSignal): void {
+        this.jobs.forEach(job => {
+            if (job.signal === signal) {
+                this.jobs.delete(job);
+                this.lastActivity = Date.now();
+            }
+        });
+        this.backgroundJobs.forEach(job => {
+            if (job.signal === signal) this.backgroundJobs.delete(job);
+        });
+    }
+
+    // Thrown by jobs that stop because the session was locked under them
+    static throwIfLocked(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            throw new Error('Session locked - the job was cancelled');
+        }
+    }
+
+    static describe(reason: LockReason): string {
+        switch (reason) {
+            case 'manual':
+                return 'Session locked';
+            case 'idle':
+                return `Session locked after ${this.getSettings().idleTimeoutMinutes} minutes of inactivity`;
+            case 'hidden':
+                return 'Session locked because the tab was hidden';
+        }
+    }
+
+    private static recordActivity = () => {
+        SessionManager.lastActivity = Date.now();
+    };
+
+    private static checkIdle = () => {
+        const { idleTimeoutMinutes } = SessionManager.getSettings();
+        if (idleTimeoutMinutes <= 0 || SessionManager.jobs.size > 0) return;
+
+        if (Date.now() - SessionManager.lastActivity >= idleTimeoutMinutes * 60 * 1000) {
+            SessionManager.lock('idle');
+        }
+    };
+
+    // Leaving the page ends the session like a lock does
+    private static handlePageHide = () => {
+        SecureKeyManager.forgetWorkingKey();
+    };
+
+    private static handleVisibilityChange = () => {
+        if (document.visibilityState === 'hidden' && SessionManager.getSettings().lockOnHidden) {
+            SessionManager.lock('hidden');
+        }
+    };
+}
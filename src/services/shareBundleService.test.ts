@@ -0,0 +1,91 @@
+import { SECURITY_CONFIG } from '../config';
+import { FileMetadata } from '../types/fileMetadata';
+import { SecureCryptoUtils } from '../utils/cryptoUtils';
+import { DamagedBundleError, IncorrectPasswordError } from '../utils/errors';
+import { LEGACY_PBKDF2_ITERATIONS } from '../utils/passwordKdf';
+import { ManifestService } from './manifestService';
+import { ShareBundleService } from './shareBundleService';
+
+const PASSPHRASE = 'orbit lantern velvet seventeen';
+const FILE_ID = '0123456789abcdef0123456789abcdef';
+
+// A bundle for an empty chunk set, opened the way a recipient without a keystore opens it
+async function createBundleManifest(): Promise<string> {
+    const fileKey = await SecureCryptoUtils.generateFileKey();
+    const metadata = {
+        fileId: FILE_ID,
+        originalFileName: 'notes',
+        originalExtension: 'txt',
+        originalSize: 0,
+        totalChunks: 0,
+        timestamp: Date.now(),
+        hash: 'abc',
+        chunkSize: 1024,
+        wrappedKey: await SecureCryptoUtils.wrapFileKey(fileKey)
+    } as FileMetadata;
+    const manifest = new File([await ManifestService.sealManifest(metadata, fileKey)], ManifestService.manifestFileName(FILE_ID));
+
+    const bundle = await ShareBundleService.createBundle([manifest], PASSPHRASE);
+    SecureCryptoUtils.reset();
+    return bundle.entries[0].blob.text();
+}
+
+function editHeader(text: string, edit: (header: any) => void): string {
+    const manifest = JSON.parse(text);
+    edit(manifest.header);
+    return JSON.stringify(manifest);
+}
+
+describe('ShareBundleService passphrase bundles', () => {
+    const kdf = { algorithm: SECURITY_CONFIG.KDF_ALGORITHM, iterations: SECURITY_CONFIG.PBKDF2_ITERATIONS };
+    let bundle: string;
+
+    beforeAll(async () => {
+        SECURITY_CONFIG.KDF_ALGORITHM = 'pbkdf2';
+        SECURITY_CONFIG.PBKDF2_ITERATIONS = LEGACY_PBKDF2_ITERATIONS;
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        localStorage.clear();
+        await SecureCryptoUtils.initialize('correct horse battery staple');
+        bundle = await createBundleManifest();
+    });
+
+    afterAll(() => {
+        SECURITY_CONFIG.KDF_ALGORITHM = kdf.algorithm;
+        SECURITY_CONFIG.PBKDF2_ITERATIONS = kdf.iterations;
+        jest.restoreAllMocks();
+    });
+
+    test('opens with the passphrase alone', async () => {
+        const { metadata } = await ManifestService.openManifest(bundle, PASSPHRASE);
+
+        expect(metadata.originalFileName).toBe('notes');
+        expect(metadata.wrappedKey).toBeUndefined();
+    });
+
+    test('a wrong passphrase is reported as such', async () => {
+        await expect(ManifestService.openManifest(bundle, 'wrong passphrase')).rejects.toBeInstanceOf(IncorrectPasswordError);
+        await expect(ManifestService.openManifest(bundle)).rejects.toThrow('password-protected share bundle');
+    });
+
+    test('hostile KDF parameters are refused before deriving, as a damaged bundle', async () => {
+        const hostile = [
+            editHeader(bundle, header => { header.kdf = { algorithm: 'argon2id', memoryKiB: 2 ** 32, iterations: 2, parallelism: 1, salt: header.kdf.salt }; }),
+            editHeader(bundle, header => { header.kdf = { ...header.kdf, iterations: 1 }; }),
+            editHeader(bundle, header => { header.kdf = { ...header.kdf, algorithm: 'none' }; })
+        ];
+
+        for (const text of hostile) {
+            await expect(ManifestService.openManifest(text, PASSPHRASE)).rejects.toBeInstanceOf(DamagedBundleError);
+        }
+    });
+
+    test('a malformed wrapped key is a damaged bundle, not a wrong passphrase', async () => {
+        const manifest = JSON.parse(bundle);
+
+        for (const wrappedKey of ['not hex', manifest.wrappedKey.substring(2)]) {
+            const text = JSON.stringify({ ...manifest, wrappedKey });
+            await expect(ManifestService.openManifest(text, PASSPHRASE)).rejects.toBeInstanceOf(DamagedBundleError);
+        }
+    });
+});
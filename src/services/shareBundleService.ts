@@ -0,0 +1,71 @@
+// services/shareBundleService.ts - Password-protected bundles for sending one file to someone without a keystore
+import { ArchiveV0ChunkSource, CarChunkSource, ChunkSource, FileListChunkSource, ZipChunkSource } from "./chunkSources";
+import { DedupChunkStore } from "./dedupChunkStore";
+import { ManifestService } from "./manifestService";
+
+export interface ShareBundle {
+    entries: { blob: Blob; filename: string }[];
+    name: string;   // Archive name (opaque file ID)
+}
+
+export class ShareBundleService {
+    // Package a chunk set (chunk files + manifest, or its ZIP) with a manifest that only
+    // `passphrase` opens. Deduplicated chunks missing from the selection come from the local store.
+    static async createBundle(files: File[], passphrase: string): Promise<ShareBundle> {
+        const source = await this.openSource(files);
+        const manifestText = await source.readManifest();
+
+        const manifest = await ManifestService.sealPassphraseManifest(manifestText, passphrase);
+        const { metadata } = await ManifestService.openManifest(manifestText);
+        if (!metadata.fileId) {
+            throw new Error('Only encrypted manifests can be bundled - re-upload files made by older versions');
+        }
+
+        const entries: { blob: Blob; filename: string }[] = [
+            { blob: new Blob([manifest], { type: 'application/json' }), filename: ManifestService.manifestFileName(metadata.fileId) }
+        ];
+        const names = new Set(source.listChunkNames());
+
+        for (const name of Array.from(names)) {
+            const data = await source.readChunk(name);
+            if (data) {
+                entries.push({ blob: new Blob([data as BlobPart]), filename: name });
+            }
+        }
+
+        for (let i = 0; i < (metadata.chunkRefs || []).length; i++) {
+            const ref = metadata.chunkRefs![i];
+            const name = ManifestService.contentChunkFileName(metadata, i)!;
+            if (names.has(name)) continue;
+
+            const stored = await DedupChunkStore.get(ref.id);
+            if (!stored) {
+                throw new Error(`Chunk ${ref.id} is neither selected nor in the local chunk store`);
+            }
+            entries.push({ blob: new Blob([stored.data as BlobPart]), filename: name });
+            names.add(name);
+        }
+
+        console.log(`📦 Share bundle ready: ${entries.length - 1} chunk files + manifest`);
+        return { entries, name: `${metadata.fileId}_bundle` };
+    }
+
+    private static async openSource(files: File[]): Promise<ChunkSource> {
+        const zipFile = files.find(f => f.name.endsWith('.zip'));
+        if (zipFile) {
+            return ZipChunkSource.load(zipFile);
+        }
+
+        const carFile = files.find(f => f.name.endsWith('.car'));
+        if (carFile) {
+            return CarChunkSource.load(carFile);
+        }
+
+        const archiveFile = files.find(f => f.name.endsWith('_encrypted_archive.json'));
+        if (archiveFile) {
+            return ArchiveV0ChunkSource.load(archiveFile);
+        }
+
+        return new FileListChunkSource(files);
+    }
+}
@@ -0,0 +1,98 @@
+import { FileMetadata } from '../types/fileMetadata';
+import { SecureCryptoUtils } from '../utils/cryptoUtils';
+import { SigningCrypto } from '../utils/signingCrypto';
+import { SignatureService } from './signatureService';
+
+type SigningKey = { privateKey: CryptoKey; publicKey: string; signerId: string };
+
+async function createSigningKey(): Promise<SigningKey> {
+    const keyPair = await SigningCrypto.generateKeyPair();
+    const publicKey = await SigningCrypto.exportPublicKey(keyPair.publicKey);
+    const { signerId } = await SigningCrypto.importPublicKey(publicKey);
+    return { privateKey: keyPair.privateKey, publicKey, signerId };
+}
+
+function testMetadata(): FileMetadata {
+    return {
+        fileId: '0123456789abcdef0123456789abcdef',
+        originalFileName: 'report',
+        originalExtension: 'pdf',
+        originalSize: 2048,
+        totalChunks: 2,
+        timestamp: 1700000000000,
+        hash: 'aa'.repeat(32),
+        hashType: 'merkle',
+        chunkHashes: ['bb'.repeat(32), 'cc'.repeat(32)],
+        chunkSize: 1024,
+        wrappedKey: 'dd'.repeat(60)
+    };
+}
+
+describe('SignatureService', () => {
+    let alice: SigningKey;
+    let bob: SigningKey;
+
+    // Sign as `signer`, then verify as `viewer` (whose own key always counts as trusted)
+    async function signAs(signer: SigningKey, metadata: FileMetadata): Promise<FileMetadata> {
+        jest.spyOn(SecureCryptoUtils, 'getSigningKey').mockReturnValue(signer);
+        return { ...metadata, signature: await SignatureService.sign(metadata) };
+    }
+
+    function viewAs(viewer: SigningKey | null): void {
+        jest.spyOn(SecureCryptoUtils, 'getSigningKey').mockReturnValue(viewer);
+    }
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        alice = await createSigningKey();
+        bob = await createSigningKey();
+    });
+
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('unsigned', async () => {
+        expect(await SignatureService.verify(testMetadata())).toEqual({ state: 'unsigned' });
+    });
+
+    test('trusted: our own key, or a signer on the trusted list', async () => {
+        const signed = await signAs(alice, testMetadata());
+
+        viewAs(alice);
+        expect(await SignatureService.verify(signed)).toEqual({ state: 'trusted', signerId: alice.signerId, signerName: 'you' });
+
+        viewAs(bob);
+        await SignatureService.addTrustedSigner('Alice', alice.publicKey);
+        expect(await SignatureService.verify(signed)).toEqual({ state: 'trusted', signerId: alice.signerId, signerName: 'Alice' });
+    });
+
+    test('untrusted: a valid signature by a signer nobody vouched for', async () => {
+        const signed = await signAs(alice, testMetadata());
+
+        viewAs(bob);
+        expect(await SignatureService.verify(signed)).toEqual({ state: 'untrusted', signerId: alice.signerId });
+    });
+
+    test('invalid: one metadata field edited after signing', async () => {
+        const signed = await signAs(alice, testMetadata());
+        viewAs(alice);
+
+        expect((await SignatureService.verify({ ...signed, originalFileName: 'invoice' })).state).toBe('invalid');
+        expect((await SignatureService.verify({ ...signed, chunkHashes: ['cc'.repeat(32), 'bb'.repeat(32)] })).state).toBe('invalid');
+        // The wrapped key is left out of the signature: re-wrapping for a recipient keeps it valid
+        expect((await SignatureService.verify({ ...signed, wrappedKey: 'ee'.repeat(60) })).state).toBe('trusted');
+    });
+
+    test('invalid: a trusted signer ID borrowed by another key', async () => {
+        const signed = await signAs(bob, testMetadata());
+        viewAs(alice);
+
+        const forged = { ...signed, signature: { ...signed.signature!, signerId: alice.signerId } };
+        expect(await SignatureService.verify(forged)).toEqual({ state: 'invalid', signerId: bob.signerId });
+    });
+});
@@ -0,0 +1,121 @@
+// services/signatureService.ts - Signing manifests and checking them against the trusted signers list
+import { FileMetadata, ManifestSignature } from "../types/fileMetadata";
+import { SecureCryptoUtils } from "../utils/cryptoUtils";
+import { SigningCrypto } from "../utils/signingCrypto";
+
+export type SignatureState = 'trusted' | 'untrusted' | 'unsigned' | 'invalid';
+
+export interface SignatureStatus {
+    state: SignatureState;
+    signerId?: string;
+    signerName?: string;    // From the trusted signers list ("you" for our own key)
+}
+
+export interface TrustedSigner {
+    signerId: string;
+    name: string;
+    publicKey: string;
+    addedAt: number;
+}
+
+export class SignatureService {
+    private static readonly STORAGE_KEY = 'secure_file_splitter_trusted_signers';
+    private static readonly DOMAIN = 'sfs-manifest-signature-v1\n';
+
+    // Sign the metadata with our signing key (covers the Merkle root and every other field)
+    static async sign(metadata: FileMetadata): Promise<ManifestSignature> {
+        const signingKey = SecureCryptoUtils.getSigningKey();
+        if (!signingKey) {
+            throw new Error('No signing key loaded - unlock the system with your password first');
+        }
+
+        const value = await SigningCrypto.sign(this.signedBytes(metadata), signingKey.privateKey);
+        console.log(`✍️ Manifest signed by ${signingKey.signerId}`);
+        return { signerId: signingKey.signerId, publicKey: signingKey.publicKey, value };
+    }
+
+    static async verify(metadata: FileMetadata): Promise<SignatureStatus> {
+        const signature = metadata.signature;
+        if (!signature) {
+            return { state: 'unsigned' };
+        }
+
+        let valid = false;
+        let signerId = signature.signerId;
+        try {
+            const signer = await SigningCrypto.importPublicKey(signature.publicKey);
+            // The ID must belong to the key that signed, or a forger could borrow a trusted name
+            valid = signer.signerId === signature.signerId &&
+                await SigningCrypto.verify(this.signedBytes(metadata), signature.value, signer.publicKey);
+            signerId = signer.signerId;
+        } catch (error) {
+            valid = false;
+        }
+
+        if (!valid) {
+            return { state: 'invalid', signerId };
+        }
+
+        if (signerId === SecureCryptoUtils.getSigningKey()?.signerId) {
+            return { state: 'trusted', signerId, signerName: 'you' };
+        }
+        const trusted = this.getTrustedSigners().find(candidate => candidate.signerId === signerId);
+        return trusted
+            ? { state: 'trusted', signerId, signerName: trusted.name }
+            : { state: 'untrusted', signerId };
+    }
+
+    // Text for the reconstruction result
+    static describe(status: SignatureStatus): string {
+        switch (status.state) {
+            case 'trusted':
+                return `signed by ${status.signerName} (${status.signerId})`;
+            case 'untrusted':
+                return `signed by unknown signer ${status.signerId} - not in your trusted signers`;
+            case 'unsigned':
+                return 'unsigned';
+            case 'invalid':
+                return 'INVALID SIGNATURE - the manifest was forged or altered after signing';
+        }
+    }
+
+    static getTrustedSigners(): TrustedSigner[] {
+        try {
+            return JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '[]');
+        } catch (error) {
+            console.warn('Trusted signers list is unreadable, ignoring it:', error);
+            return [];
+        }
+    }
+
+    static async addTrustedSigner(name: string, publicKey: string): Promise<TrustedSigner> {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            throw new Error('Signer name is required');
+        }
+
+        const { signerId } = await SigningCrypto.importPublicKey(publicKey);
+        const signers = this.getTrustedSigners();
+        if (signers.some(signer => signer.signerId === signerId)) {
+            throw new Error(`Signer ${signerId} is already trusted`);
+        }
+
+        const signer: TrustedSigner = { signerId, name: trimmedName, publicKey: publicKey.trim(), addedAt: Date.now() };
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify([...signers, signer]));
+        console.log(`🤝 Trusted signer "${trimmedName}" (${signerId}) added`);
+        return signer;
+    }
+
+    static removeTrustedSigner(signerId: string): void {
+        const signers = this.getTrustedSigners().filter(signer => signer.signerId !== signerId);
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(signers));
+        console.log(`🗑️ Trusted signer ${signerId} removed`);
+    }
+
+    // Everything but the wrapped key (it differs per keyring and is re-wrapped when sharing)
+    // and the signature itself, in the order the fields were written
+    private static signedBytes(metadata: FileMetadata): Uint8Array {
+        const { wrappedKey, signature, ...body } = metadata;
+        return new TextEncoder().encode(this.DOMAIN + JSON.stringify(body));
+    }
+}
@@ -0,0 +1,139 @@
+// services/storageNodeProvider.ts - Chunks on a self-hosted storage node (server/), authenticated with our signing key
+import {
+    StorageNodeChunkList,
+    StorageNodeError,
+    StorageNodeManifestList,
+    StorageNodeQuota,
+    StorageNodeTokenClaims
+} from '../types/storageNode';
+import { Cid } from '../utils/cid';
+import { SecureCryptoUtils } from '../utils/cryptoUtils';
+import { base64ToBytes, bytesToBase64Url } from '../utils/encoding';
+import { SigningCrypto } from '../utils/signingCrypto';
+import { ManifestService } from './manifestService';
+import { StorageProvider } from './storageProviders';
+
+const TOKEN_LIFETIME = 5 * 60 * 1000;
+const TOKEN_RENEW_MARGIN = 30 * 1000;
+
+// The node addresses chunks by the SHA-256 of their bytes and checks it on upload, so only
+// content-addressed chunks (<cid>.enc) and manifests can be kept there
+export class StorageNodeProvider implements StorageProvider {
+    readonly description: string;
+    private readonly endpoint: string;
+    private token: { value: string; expiresAt: number } | null = null;
+
+    constructor(endpoint: string) {
+        if (!endpoint) {
+            throw new Error('The storage node needs a URL');
+        }
+        this.endpoint = endpoint.replace(/\/+$/, '');
+        this.description = `storage node at ${this.endpoint}`;
+    }
+
+    async put(chunkId: string, data: Uint8Array): Promise<void> {
+        const response = await this.send('PUT', this.objectPath(chunkId), data);
+        await this.expectOk(response, `upload ${chunkId}`);
+    }
+
+    async get(chunkId: string): Promise<Uint8Array | null> {
+        const response = await this.send('GET', this.objectPath(chunkId));
+        if (response.status === 404) return null;
+        await this.expectOk(response, `download ${chunkId}`);
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
+    async has(chunkId: string): Promise<boolean> {
+        const response = await this.send('HEAD', this.objectPath(chunkId));
+        if (response.status === 404) return false;
+        await this.expectOk(response, `check ${chunkId}`);
+        return true;
+    }
+
+    async delete(chunkId: string): Promise<void> {
+        const response = await this.send('DELETE', this.objectPath(chunkId));
+        if (response.status !== 404) {
+            await this.expectOk(response, `delete ${chunkId}`);
+        }
+    }
+
+    // Manifests by name, chunks turned back into <cid>.enc names
+    async list(prefix: string = ''): Promise<string[]> {
+        const chunksResponse = await this.send('GET', '/v1/chunks');
+        await this.expectOk(chunksResponse, 'list the chunks');
+        const { chunks }: StorageNodeChunkList = await chunksResponse.json();
+
+        const manifestsResponse = await this.send('GET', '/v1/manifests');
+        await this.expectOk(manifestsResponse, 'list the manifests');
+        const { manifests }: StorageNodeManifestList = await manifestsResponse.json();
+
+        return [...manifests, ...chunks.map(chunk => ManifestService.cidChunkFileName(Cid.fromSha256(chunk.hash)))]
+            .filter(id => id.startsWith(prefix))
+            .sort();
+    }
+
+    // Space used by our identity on the node
+    async quota(): Promise<StorageNodeQuota> {
+        const response = await this.send('GET', '/v1/quota');
+        await this.expectOk(response, 'read the quota');
+        return response.json();
+    }
+
+    private objectPath(chunkId: string): string {
+        if (ManifestService.isManifestFileName(chunkId)) {
+            return `/v1/manifests/${encodeURIComponent(chunkId)}`;
+        }
+        const cid = chunkId.replace(/\.enc$/, '');
+        if (cid !== chunkId && Cid.isCid(cid)) {
+            return `/v1/chunks/${Cid.decode(Cid.parse(cid)).digest}`;
+        }
+        throw new Error(`${chunkId} is not content-addressed - storage nodes only keep chunks named by their CID`);
+    }
+
+    private async send(method: string, path: string, body?: Uint8Array): Promise<Response> {
+        const headers: Record<string, string> = { Authorization: await this.authorization() };
+        if (body) {
+            headers['Content-Type'] = 'application/octet-stream';
+        }
+
+        try {
+            return await fetch(this.endpoint + path, { method, headers, body: body as BodyInit | undefined });
+        } catch (error) {
+            throw new Error(`Cannot reach ${this.endpoint} - is the storage node running (npm run storage-node)?`);
+        }
+    }
+
+    // Short-lived token signed with our signing key, bound to this node's host
+    private async authorization(): Promise<string> {
+        const now = Date.now();
+        if (!this.token || this.token.expiresAt - now < TOKEN_RENEW_MARGIN) {
+            const signingKey = SecureCryptoUtils.getSigningKey();
+            if (!signingKey) {
+                throw new Error('Unlock first - storage node requests are signed with your signing key');
+            }
+
+            const claims: StorageNodeTokenClaims = {
+                version: 1,
+                publicKey: signingKey.publicKey,
+                audience: new URL(this.endpoint).host,
+                issuedAt: now,
+                expiresAt: now + TOKEN_LIFETIME
+            };
+            const encodedClaims = bytesToBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+            const signature = await SigningCrypto.sign(new TextEncoder().encode(encodedClaims), signingKey.privateKey);
+            this.token = { value: `${encodedClaims}.${bytesToBase64Url(base64ToBytes(signature))}`, expiresAt: claims.expiresAt };
+        }
+        return `Bearer ${this.token.value}`;
+    }
+
+    private async expectOk(response: Response, action: string): Promise<void> {
+        if (response.ok) return;
+        let message = '';
+        try {
+            message = ((await response.json()) as StorageNodeError).error;
+        } catch (error) {
+            // HEAD answers and proxies may not send a JSON body
+        }
+        throw new Error(`Failed to ${action}: HTTP ${response.status}${message ? ` (${message})` : ''}`);
+    }
+}
@@ -0,0 +1,269 @@
+// services/storageProviders.ts - Where encrypted chunks and manifests are stored instead of being downloaded
+import { ReplicatedStorage } from './replicatedStorage';
+import { S3Settings, S3StorageProvider } from './s3StorageProvider';
+import { StorageNodeProvider } from './storageNodeProvider';
+
+// Objects are addressed by chunk ID: the opaque chunk or manifest file name
+export interface StorageProvider {
+    readonly description: string;
+    put(chunkId: string, data: Uint8Array): Promise<void>;
+    get(chunkId: string): Promise<Uint8Array | null>;
+    has(chunkId: string): Promise<boolean>;
+    delete(chunkId: string): Promise<void>;
+    list(prefix?: string): Promise<string[]>;
+}
+
+export type StorageProviderType = 'memory' | 'local' | 's3' | 'node';
+
+export interface StorageBackendConfig {
+    type: StorageProviderType;
+    s3: S3Settings;
+    nodeUrl: string;       // Self-hosted storage node (server/), e.g. http://127.0.0.1:8787
+    weight: number;        // Relative share of the chunks this backend receives
+}
+
+// The configured backends; uploads replicate every chunk to some of them (see PlacementEngine)
+export interface StorageSettings {
+    backends: StorageBackendConfig[];
+}
+
+// Kept in memory only, for this tab
+export class MemoryStorageProvider implements StorageProvider {
+    readonly description = 'memory (this tab only)';
+    private readonly objects = new Map<string, Uint8Array>();
+
+    async put(chunkId: string, data: Uint8Array): Promise<void> {
+        this.objects.set(chunkId, data.slice());
+    }
+
+    async get(chunkId: string): Promise<Uint8Array | null> {
+        const data = this.objects.get(chunkId);
+        return data ? data.slice() : null;
+    }
+
+    async has(chunkId: string): Promise<boolean> {
+        return this.objects.has(chunkId);
+    }
+
+    async delete(chunkId: string): Promise<void> {
+        this.objects.delete(chunkId);
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        return Array.from(this.objects.keys()).filter(id => id.startsWith(prefix)).sort();
+    }
+}
+
+// This browser's IndexedDB (same pattern as the dedup chunk store)
+export class IndexedDBStorageProvider implements StorageProvider {
+    readonly description = 'this browser (IndexedDB)';
+    private static readonly DB_NAME = 'SecureFileSplitterStorage';
+    private static readonly DB_VERSION = 1;
+    private static readonly STORE_NAME = 'objects';
+
+    async put(chunkId: string, data: Uint8Array): Promise<void> {
+        await this.transaction('readwrite', store => store.put(data, chunkId));
+    }
+
+    async get(chunkId: string): Promise<Uint8Array | null> {
+        const data = await this.transaction<Uint8Array | undefined>('readonly', store => store.get(chunkId));
+        return data || null;
+    }
+
+    async has(chunkId: string): Promise<boolean> {
+        return (await this.transaction<number>('readonly', store => store.count(chunkId))) > 0;
+    }
+
+    async delete(chunkId: string): Promise<void> {
+        await this.transaction('readwrite', store => store.delete(chunkId));
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        const keys = await this.transaction<IDBValidKey[]>('readonly', store => store.getAllKeys());
+        return keys.map(String).filter(id => id.startsWith(prefix)).sort();
+    }
+
+    private async transaction<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.openDatabase();
+        try {
+            const store = db.transaction([IndexedDBStorageProvider.STORE_NAME], mode).objectStore(IndexedDBStorageProvider.STORE_NAME);
+            return await new Promise<T>((resolve, reject) => {
+                const request = operation(store);
+                request.onsuccess = () => resolve(request.result as T);
+                request.onerror = () => reject(request.error);
+            });
+        } finally {
+            db.close();
+        }
+    }
+
+    private openDatabase(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(IndexedDBStorageProvider.DB_NAME, IndexedDBStorageProvider.DB_VERSION);
+
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('Storage database open blocked'));
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(IndexedDBStorageProvider.STORE_NAME)) {
+                    db.createObjectStore(IndexedDBStorageProvider.STORE_NAME);
+                }
+            };
+
+            request.onsuccess = () => resolve(request.result);
+        });
+    }
+}
+
+// This browser's origin private file system: one file per chunk, better suited to large sets
+export class OpfsStorageProvider implements StorageProvider {
+    readonly description = 'this browser (origin private file system)';
+    private static readonly DIRECTORY = 'sfs-chunks';
+
+    // OPFS with writable file handles (not available everywhere, e.g. older Safari)
+    static isSupported(): boolean {
+        return typeof navigator !== 'undefined' && !!navigator.storage?.getDirectory &&
+            typeof FileSystemFileHandle !== 'undefined' && 'createWritable' in FileSystemFileHandle.prototype;
+    }
+
+    async put(chunkId: string, data: Uint8Array): Promise<void> {
+        const handle = await (await this.directory()).getFileHandle(this.fileName(chunkId), { create: true });
+        const writable = await (handle as any).createWritable();
+        await writable.write(data);
+        await writable.close();
+    }
+
+    async get(chunkId: string): Promise<Uint8Array | null> {
+        try {
+            const handle = await (await this.directory()).getFileHandle(this.fileName(chunkId));
+            return new Uint8Array(await (await handle.getFile()).arrayBuffer());
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'NotFoundError') return null;
+            throw error;
+        }
+    }
+
+    async has(chunkId: string): Promise<boolean> {
+        try {
+            await (await this.directory()).getFileHandle(this.fileName(chunkId));
+            return true;
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'NotFoundError') return false;
+            throw error;
+        }
+    }
+
+    async delete(chunkId: string): Promise<void> {
+        try {
+            await (await this.directory()).removeEntry(this.fileName(chunkId));
+        } catch (error) {
+            if (!(error instanceof DOMException && error.name === 'NotFoundError')) throw error;
+        }
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        const names: string[] = [];
+        const iterator = (await this.directory() as any).keys();
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+            names.push(next.value);
+        }
+        return names.filter(id => id.startsWith(prefix)).sort();
+    }
+
+    private async directory(): Promise<FileSystemDirectoryHandle> {
+        const root = await navigator.storage.getDirectory();
+        return root.getDirectoryHandle(OpfsStorageProvider.DIRECTORY, { create: true });
+    }
+
+    // Chunk IDs are already plain file names; refuse anything that could leave the directory
+    private fileName(chunkId: string): string {
+        if (!/^[\w.-]+$/.test(chunkId)) {
+            throw new Error(`Invalid chunk ID: ${chunkId}`);
+        }
+        return chunkId;
+    }
+}
+
+export class StorageProviders {
+    private static readonly STORAGE_KEY = 'secure_file_splitter_storage_settings';
+    static readonly DEFAULT_BACKEND: StorageBackendConfig = {
+        type: 'local',
+        s3: { endpoint: 'http://localhost:9000', region: 'us-east-1', bucket: 'chunks', accessKeyId: '', secretAccessKey: '', prefix: '' },
+        nodeUrl: 'http://127.0.0.1:8787',
+        weight: 1
+    };
+    private static memory: MemoryStorageProvider | null = null;
+
+    // Saved settings; S3 secret keys are never persisted and have to be entered per session.
+    // Settings saved before replication held a single { type, s3 } backend.
+    static getSettings(): StorageSettings {
+        try {
+            const saved = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}');
+            const backends: any[] = saved.backends || (saved.type ? [saved] : [this.DEFAULT_BACKEND]);
+            return {
+                backends: backends.map(backend => ({
+                    type: backend.type || this.DEFAULT_BACKEND.type,
+                    s3: { ...this.DEFAULT_BACKEND.s3, ...backend.s3, secretAccessKey: '' },
+                    nodeUrl: backend.nodeUrl || this.DEFAULT_BACKEND.nodeUrl,
+                    weight: backend.weight > 0 ? backend.weight : 1
+                }))
+            };
+        } catch (error) {
+            console.warn('Storage settings are unreadable, using the defaults:', error);
+            return { backends: [this.DEFAULT_BACKEND] };
+        }
+    }
+
+    static saveSettings(settings: StorageSettings): void {
+        const backends = settings.backends.map(backend => {
+            const { secretAccessKey, ...s3 } = backend.s3;
+            return { type: backend.type, s3, nodeUrl: backend.nodeUrl, weight: backend.weight };
+        });
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ backends }));
+    }
+
+    // Stable name of a backend, recorded in manifest placement maps: it must not change between
+    // sessions (no secrets, no object identity) and must differ between backends
+    static backendId(backend: StorageBackendConfig): string {
+        if (backend.type === 'node') {
+            return `node:${backend.nodeUrl.replace(/\/+$/, '')}`;
+        }
+        if (backend.type !== 's3') {
+            return backend.type;
+        }
+        const { endpoint, bucket, prefix } = backend.s3;
+        return `s3:${endpoint.replace(/\/+$/, '')}/${bucket}/${prefix}`;
+    }
+
+    static create(backend: StorageBackendConfig): StorageProvider {
+        switch (backend.type) {
+            case 'memory':
+                // One instance per tab, so what was uploaded can be read back
+                this.memory = this.memory || new MemoryStorageProvider();
+                return this.memory;
+            case 'local':
+                return OpfsStorageProvider.isSupported() ? new OpfsStorageProvider() : new IndexedDBStorageProvider();
+            case 's3':
+                return new S3StorageProvider(backend.s3);
+            case 'node':
+                return new StorageNodeProvider(backend.nodeUrl);
+        }
+    }
+
+    // All configured backends behind one provider that knows about replicas
+    static createReplicated(settings: StorageSettings): ReplicatedStorage {
+        const backends = settings.backends.map(backend => ({
+            id: this.backendId(backend),
+            weight: backend.weight,
+            provider: this.create(backend)
+        }));
+
+        const ids = backends.map(backend => backend.id);
+        const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+        if (duplicate) {
+            throw new Error(`Two storage backends point at the same place (${duplicate})`);
+        }
+        return new ReplicatedStorage(backends);
+    }
+}
@@ -0,0 +1,64 @@
+import { SECURITY_CONFIG } from '../config';
+import { UnlockThrottle } from './unlockThrottle';
+
+describe('UnlockThrottle', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        localStorage.clear();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    function fail(times: number): number {
+        let delay = 0;
+        for (let i = 0; i < times; i++) delay = UnlockThrottle.recordFailure();
+        return delay;
+    }
+
+    test('the first wrong passwords are free, then the delay doubles up to the maximum', () => {
+        expect(fail(SECURITY_CONFIG.UNLOCK_FREE_ATTEMPTS)).toBe(0);
+        expect(UnlockThrottle.remainingDelay()).toBe(0);
+
+        expect(fail(1)).toBe(SECURITY_CONFIG.UNLOCK_BASE_DELAY);
+        expect(fail(1)).toBe(SECURITY_CONFIG.UNLOCK_BASE_DELAY * 2);
+        expect(fail(1)).toBe(SECURITY_CONFIG.UNLOCK_BASE_DELAY * 4);
+        expect(fail(20)).toBe(SECURITY_CONFIG.UNLOCK_MAX_DELAY);
+    });
+
+    test('the delay runs out with time and is cleared by a successful unlock', () => {
+        const delay = fail(SECURITY_CONFIG.UNLOCK_FREE_ATTEMPTS + 2);
+        expect(UnlockThrottle.remainingDelay()).toBe(delay);
+
+        jest.advanceTimersByTime(delay - 500);
+        expect(UnlockThrottle.remainingDelay()).toBe(500);
+        jest.advanceTimersByTime(500);
+        expect(UnlockThrottle.remainingDelay()).toBe(0);
+
+        // Waiting out the delay does not forgive the failures, a successful unlock does
+        expect(fail(1)).toBe(SECURITY_CONFIG.UNLOCK_BASE_DELAY * 4);
+        UnlockThrottle.recordSuccess();
+        expect(UnlockThrottle.remainingDelay()).toBe(0);
+        expect(fail(1)).toBe(0);
+    });
+
+    test('unreadable stored state starts over', () => {
+        localStorage.setItem('secure_file_splitter_unlock_throttle', '{not json');
+        expect(UnlockThrottle.remainingDelay()).toBe(0);
+        expect(fail(1)).toBe(0);
+    });
+
+    test('delays are described in seconds, then minutes', () => {
+        expect(UnlockThrottle.describeDelay(1500)).toBe('2 s');
+        expect(UnlockThrottle.describeDelay(90 * 1000)).toBe('2 min');
+    });
+});
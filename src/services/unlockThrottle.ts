@@ -0,0 +1,53 @@
+// services/unlockThrottle.ts - Exponential back-off between failed unlock attempts (survives reloads)
+import { SECURITY_CONFIG } from "../config";
+
+interface ThrottleState {
+    failures: number;
+    retryAt: number;     // Epoch ms before which no unlock attempt is accepted
+}
+
+export class UnlockThrottle {
+    private static readonly STORAGE_KEY = 'secure_file_splitter_unlock_throttle';
+
+    // Milliseconds until the next attempt is allowed (0 = now)
+    static remainingDelay(): number {
+        return Math.max(0, this.load().retryAt - Date.now());
+    }
+
+    // Count a wrong password; returns the delay before the next attempt
+    static recordFailure(): number {
+        const state = this.load();
+        state.failures++;
+
+        const penalised = state.failures - SECURITY_CONFIG.UNLOCK_FREE_ATTEMPTS;
+        const delay = penalised > 0
+            ? Math.min(SECURITY_CONFIG.UNLOCK_BASE_DELAY * 2 ** (penalised - 1), SECURITY_CONFIG.UNLOCK_MAX_DELAY)
+            : 0;
+        state.retryAt = Date.now() + delay;
+
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(state));
+        console.warn(`🚫 Failed unlock attempt ${state.failures}` + (delay > 0 ? `, next attempt in ${Math.ceil(delay / 1000)}s` : ''));
+        return delay;
+    }
+
+    static recordSuccess(): void {
+        localStorage.removeItem(this.STORAGE_KEY);
+    }
+
+    static describeDelay(delay: number): string {
+        const seconds = Math.ceil(delay / 1000);
+        return seconds < 60 ? `${seconds} s` : `${Math.ceil(seconds / 60)} min`;
+    }
+
+    private static load(): ThrottleState {
+        try {
+            const state = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || 'null');
+            if (state && typeof state.failures === 'number' && typeof state.retryAt === 'number') {
+                return state;
+            }
+        } catch (error) {
+            console.warn('Unlock throttle state is unreadable, resetting it:', error);
+        }
+        return { failures: 0, retryAt: 0 };
+    }
+}
@@ -3,3 +3,27 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// jsdom has no TextEncoder or WebCrypto; the crypto code needs both (Node provides them)
+import { TextDecoder, TextEncoder } from 'util';
+import { webcrypto } from 'crypto';
+
+Object.assign(global, { TextEncoder, TextDecoder });
+Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+
+// jsdom's Blob cannot be read as a promise; the app reads chunk blobs with arrayBuffer()
+// and manifests with text()
+// (storage node tests run in the node environment, which has no Blob here)
+if (typeof Blob !== 'undefined' && !Blob.prototype.arrayBuffer) {
+    Blob.prototype.arrayBuffer = function (this: Blob): Promise<ArrayBuffer> {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as ArrayBuffer);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsArrayBuffer(this);
+        });
+    };
+    Blob.prototype.text = function (this: Blob): Promise<string> {
+        return this.arrayBuffer().then(buffer => new TextDecoder().decode(buffer));
+    };
+}
@@ -0,0 +1,13 @@
+// Compression Streams API - not yet part of the DOM typings shipped with TypeScript 4.9
+
+declare class CompressionStream {
+    constructor(format: 'deflate' | 'gzip' | 'deflate-raw');
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<BufferSource>;
+}
+
+declare class DecompressionStream {
+    constructor(format: 'deflate' | 'gzip' | 'deflate-raw');
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<BufferSource>;
+}
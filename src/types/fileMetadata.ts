@@ -0,0 +1,100 @@
+// types/fileMetadata.ts - Shape of the metadata produced by FileEncryptionService
+import { KdfParams } from "../utils/passwordKdf";
+
+export interface FileMetadata {
+    originalFileName: string;
+    originalExtension: string;
+    originalSize: number;
+    totalChunks: number;
+    timestamp: number;
+    hash: string;           // Merkle root (hashType 'merkle'), composite hash, or plain file hash (legacy)
+    hashType?: 'merkle' | 'composite';
+    chunkSize: number;
+
+    // SHA-256 of every encrypted chunk, in order - the Merkle tree leaves ('merkle' only)
+    chunkHashes?: string[];
+
+    // CIDv1 (raw codec, sha2-256) of every encrypted chunk, in order - the same digests as
+    // chunkHashes in IPFS form. Chunk files are then named <cid>.enc instead of by position.
+    chunkCids?: string[];
+
+    // Per-file AES-256 data key, wrapped by the master key (hex of IV + wrapped key).
+    // Absent in metadata written before envelope encryption: those chunks use the master key directly.
+    wrappedKey?: string;
+
+    // Random file ID (hex) bound into every chunk's AES-GCM additional data together with
+    // the chunk index, total chunk count and final-chunk flag. Absent in the old format,
+    // whose chunks are decrypted without additional data (compatibility mode).
+    fileId?: string;
+
+    // Reed-Solomon parity over the encrypted chunks, when erasure coding was enabled
+    erasure?: ErasureCodingInfo;
+
+    // Set when chunks were compressed before encryption. Every chunk plaintext then starts
+    // with a one-byte codec flag (none/deflate/gzip), since incompressible chunks are stored raw.
+    compression?: 'deflate' | 'gzip';
+
+    // Content-defined chunking parameters and the resulting plaintext chunk lengths.
+    // Absent for fixed-size chunking, where every chunk but the last is `chunkSize` bytes.
+    chunking?: { mode: 'cdc'; minSize: number; avgSize: number; maxSize: number };
+    chunkLengths?: number[];
+
+    // Deduplicated chunk set: chunk i is the shared chunk chunkRefs[i] from the dedup store
+    chunkRefs?: ChunkReference[];
+
+    // Which storage backends hold each chunk file, when uploaded to replicated storage
+    placement?: ChunkPlacement;
+
+    // ECDSA signature of the author over all the other fields (except wrappedKey), when signed
+    signature?: ManifestSignature;
+}
+
+export interface ManifestSignature {
+    signerId: string;       // Fingerprint of the signer's public key (hex)
+    publicKey: string;      // Signer's public key (sfs-sig-v1:...)
+    value: string;          // Base64 ECDSA P-256 / SHA-256 signature
+}
+
+export interface ChunkPlacement {
+    replicas: number;                             // R: intended copies of every chunk
+    backends: { id: string; weight: number }[];   // The N backends (and weights) chunks were placed across
+    chunks: Record<string, string[]>;             // Chunk file name -> IDs of the backends holding it
+}
+
+export interface ChunkReference {
+    id: string;     // HMAC-SHA256 of the plaintext under a master-derived key (hex) - the store key
+    key: string;    // Per-chunk AES-256 key (hex), a second keyed hash of the plaintext
+}
+
+export interface ErasureCodingInfo {
+    dataShards: number;         // k: data chunks per stripe
+    parityShards: number;       // n - k: parity chunks per stripe
+    encryptedLengths: number[]; // Length of every encrypted data chunk, to strip stripe padding on recovery
+    parityHashes: string[][];   // SHA-256 of each parity chunk, per stripe
+    parityCids?: string[][];    // CIDv1 of each parity chunk, per stripe (also its file name)
+}
+
+// Public part of an encrypted manifest - the only thing readable without a key
+export interface ManifestHeader {
+    format: 'sfs-manifest';
+    version: number;
+    keyId: string;          // ID of the master key that wraps the file key
+    kdf: KdfParams | null;  // Key-derivation parameters when the file key is passphrase-wrapped (share bundles)
+    keyLabel?: string;      // Keyring label of that key ("personal", "team"...), to name it when it's missing
+}
+
+// On-disk manifest: the metadata is encrypted with the file key, authenticated against the header
+export interface EncryptedManifest {
+    header: ManifestHeader;
+    wrappedKey: string;     // File key wrapped by the master key, or by the passphrase when header.kdf is set
+    iv: string;             // Hex IV for the metadata ciphertext
+    ciphertext: string;     // Base64 of the encrypted metadata JSON
+    recipients?: RecipientWrap[]; // The file key wrapped for other people's public keys
+}
+
+// File key wrapped for one recipient's ECDH public key
+export interface RecipientWrap {
+    recipientId: string;         // Fingerprint of the recipient's public key (hex)
+    ephemeralPublicKey: string;  // Base64 raw P-256 point of the one-time sender key
+    wrappedKey: string;          // Hex of IV + wrapped file key
+}
@@ -0,0 +1,45 @@
+// types/storageNode.ts - HTTP API of the self-hosted storage node (server/), shared by the node and the web client
+//
+//   PUT | GET | HEAD | DELETE  /v1/chunks/<sha256>    Encrypted chunk, addressed by the hex SHA-256 of its bytes
+//   GET                        /v1/chunks             StorageNodeChunkList
+//   PUT | GET | HEAD | DELETE  /v1/manifests/<name>   Encrypted manifest (<fileId>_manifest.json)
+//   GET                        /v1/manifests          StorageNodeManifestList
+//   GET                        /v1/quota              StorageNodeQuota
+//
+// Every request carries "Authorization: Bearer <token>" (see StorageNodeTokenClaims). Each identity
+// gets its own space on the node; errors come back as StorageNodeError with a 4xx/5xx status.
+
+// Signed by the client's ECDSA signing key (the identity it signs manifests with). The token is
+// <base64url(JSON claims)>.<base64url(P-256 signature of the first part)>.
+export interface StorageNodeTokenClaims {
+    version: 1;
+    publicKey: string;      // sfs-sig-v1:... - the node derives the signer ID from it
+    audience: string;       // host[:port] of the node the token is meant for
+    issuedAt: number;       // ms since epoch
+    expiresAt: number;
+}
+
+export interface StorageNodeChunkInfo {
+    hash: string;           // Hex SHA-256, verified by the node on upload
+    size: number;
+}
+
+export interface StorageNodeChunkList {
+    chunks: StorageNodeChunkInfo[];
+}
+
+export interface StorageNodeManifestList {
+    manifests: string[];
+}
+
+export interface StorageNodeQuota {
+    signerId: string;       // Whose space this is
+    usedBytes: number;
+    limitBytes: number;
+    chunks: number;
+    manifests: number;
+}
+
+export interface StorageNodeError {
+    error: string;
+}
@@ -0,0 +1,101 @@
+// utils/awsSigV4.ts - AWS Signature Version 4 request signing (S3 and S3-compatible stores such as MinIO)
+import { bytesToHex } from './encoding';
+
+export interface SigV4Credentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+export interface SigV4Request {
+    method: string;
+    url: string;
+    headers?: Record<string, string>;   // Extra headers to sign (e.g. range); host and x-amz-* are added
+    payloadHash: string;                // Hex SHA-256 of the body, or 'UNSIGNED-PAYLOAD'
+}
+
+export const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+const encoder = new TextEncoder();
+
+export class AwsSigV4 {
+    // Headers to send with the request: the signed ones plus Authorization. `host` is signed but
+    // not returned - browsers set it themselves from the URL.
+    static async sign(
+        request: SigV4Request,
+        credentials: SigV4Credentials,
+        region: string,
+        service: string = 's3',
+        date: Date = new Date()
+    ): Promise<Record<string, string>> {
+        const url = new URL(request.url);
+        const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const day = amzDate.substring(0, 8);
+        const scope = `${day}/${region}/${service}/aws4_request`;
+
+        const headers: Record<string, string> = {};
+        Object.keys(request.headers || {}).forEach(name => {
+            headers[name.toLowerCase()] = request.headers![name].trim();
+        });
+        headers['host'] = url.host;
+        headers['x-amz-content-sha256'] = request.payloadHash;
+        headers['x-amz-date'] = amzDate;
+
+        const signedHeaders = Object.keys(headers).sort();
+        const canonicalRequest = [
+            request.method.toUpperCase(),
+            this.canonicalPath(url.pathname),
+            this.canonicalQuery(url.searchParams),
+            signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+            signedHeaders.join(';'),
+            request.payloadHash
+        ].join('\n');
+
+        const stringToSign = [
+            'AWS4-HMAC-SHA256',
+            amzDate,
+            scope,
+            await this.sha256Hex(encoder.encode(canonicalRequest))
+        ].join('\n');
+
+        let signingKey = encoder.encode(`AWS4${credentials.secretAccessKey}`);
+        for (const part of [day, region, service, 'aws4_request']) {
+            signingKey = await this.hmac(signingKey, part);
+        }
+        const signature = bytesToHex(await this.hmac(signingKey, stringToSign));
+
+        const { host, ...sent } = headers;
+        return {
+            ...sent,
+            authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+                `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+        };
+    }
+
+    static async sha256Hex(data: Uint8Array): Promise<string> {
+        return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data as BufferSource)));
+    }
+
+    // RFC 3986 encoding as SigV4 wants it (encodeURIComponent leaves !'()* alone)
+    static encode(value: string): string {
+        return encodeURIComponent(value).replace(/[!'()*]/g, char => '%' + char.charCodeAt(0).toString(16).toUpperCase());
+    }
+
+    private static canonicalPath(pathname: string): string {
+        // The URL keeps the path percent-encoded; normalise each segment to SigV4's encoding
+        return pathname.split('/').map(segment => this.encode(decodeURIComponent(segment))).join('/') || '/';
+    }
+
+    private static canonicalQuery(params: URLSearchParams): string {
+        const pairs: [string, string][] = [];
+        params.forEach((value, key) => pairs.push([this.encode(key), this.encode(value)]));
+        return pairs
+            .sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0)))
+            .map(([key, value]) => `${key}=${value}`)
+            .join('&');
+    }
+
+    private static async hmac(key: Uint8Array, message: string): Promise<Uint8Array> {
+        const cryptoKey = await crypto.subtle.importKey('raw', key as BufferSource, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+        return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+    }
+}
@@ -0,0 +1,65 @@
+import { CarFile } from './carFile';
+import { Cid } from './cid';
+import { bytesToHex, hexToBytes } from './encoding';
+
+const HELLO_WORLD = 'hello world';
+const HELLO_WORLD_DIGEST = 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9';
+const HELLO_WORLD_CID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+// CARv1 with one root and one raw block, laid out by hand from the CAR and dag-cbor specs:
+//   varint(58) | {"roots": [CID(42, 0x00 || cid)], "version": 1} | varint(47) | cid | "hello world"
+const SINGLE_BLOCK_CAR = [
+    '3a',
+    'a2', '65' + bytesToHex(new TextEncoder().encode('roots')), '81', 'd82a', '5825', '00', '01551220' + HELLO_WORLD_DIGEST,
+    '67' + bytesToHex(new TextEncoder().encode('version')), '01',
+    '2f', '01551220' + HELLO_WORLD_DIGEST, bytesToHex(new TextEncoder().encode(HELLO_WORLD))
+].join('');
+
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('CarFile', () => {
+    test('encodes a single-block CARv1 byte for byte', async () => {
+        const car = CarFile.encode([HELLO_WORLD_CID], [{ cid: HELLO_WORLD_CID, data: new TextEncoder().encode(HELLO_WORLD) }]);
+        expect(bytesToHex(await readBlob(car))).toBe(SINGLE_BLOCK_CAR);
+    });
+
+    test('decodes the fixture and drops blocks that fail their CID', async () => {
+        const { roots, blocks } = await CarFile.decode(hexToBytes(SINGLE_BLOCK_CAR));
+        expect(roots).toEqual([HELLO_WORLD_CID]);
+        expect(new TextDecoder().decode(blocks.get(HELLO_WORLD_CID))).toBe(HELLO_WORLD);
+
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const tampered = hexToBytes(SINGLE_BLOCK_CAR);
+        tampered[tampered.length - 1] ^= 1;
+        expect((await CarFile.decode(tampered)).blocks.size).toBe(0);
+    });
+
+    test('rejects files that are not CARv1 or are truncated', async () => {
+        await expect(CarFile.decode(hexToBytes('02a0'))).rejects.toThrow('Not a CARv1 file');
+        await expect(CarFile.decode(hexToBytes(SINGLE_BLOCK_CAR.substring(0, SINGLE_BLOCK_CAR.length - 4)))).rejects.toThrow('truncated');
+    });
+
+    test('dag-cbor: minimal integers and keys sorted by length, then bytes', () => {
+        expect(bytesToHex(CarFile.encodeNode(23))).toBe('17');
+        expect(bytesToHex(CarFile.encodeNode(24))).toBe('1818');
+        expect(bytesToHex(CarFile.encodeNode(1000))).toBe('1903e8');
+        expect(bytesToHex(CarFile.encodeNode({ bb: 1, a: 2, ab: 3 }))).toBe('a36161026261620362626201');
+        expect(CarFile.decodeNode(CarFile.encodeNode({ list: [1, 'two', { '/': HELLO_WORLD_CID }] })))
+            .toEqual({ list: [1, 'two', { '/': HELLO_WORLD_CID }] });
+    });
+
+    test('a packed chunk set unpacks to the same manifest and chunks', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        const manifest = new Blob(['{"header":{}}']);
+        const chunks = [new Blob([new Uint8Array([1, 2, 3])]), new Blob([new Uint8Array([4, 5])]), new Blob([new Uint8Array([1, 2, 3])])];
+
+        const { blob, root } = await CarFile.packChunkSet(manifest, chunks);
+        const unpacked = await CarFile.unpackChunkSet(await readBlob(blob));
+
+        expect(Cid.decode(Cid.parse(root)).codec).toBe(0x71);
+        expect(new TextDecoder().decode(unpacked.manifest)).toBe('{"header":{}}');
+        expect(Array.from(unpacked.chunks.values()).map(chunk => Array.from(chunk))).toEqual([[1, 2, 3], [4, 5]]);
+    });
+});
@@ -0,0 +1,280 @@
+// utils/carFile.ts - CARv1 archives (IPFS content-addressed archives) of a chunk set
+import { Cid, CID_CODECS, decodeVarint, encodeVarint } from './cid';
+import { bytesToHex } from './encoding';
+
+// The subset of the IPLD data model used by CAR headers and our root node.
+// Links are written dag-json style: { '/': cid }.
+export type DagCborValue = number | string | CidLink | DagCborValue[] | { [key: string]: DagCborValue };
+export interface CidLink {
+    '/': string;
+}
+
+export interface CarContents {
+    roots: string[];
+    blocks: Map<string, Uint8Array>;   // By CID string; blocks that fail their hash are dropped
+}
+
+// The root block of an exported chunk set links the manifest and every chunk, so pinning
+// the root on an IPFS node pins the whole set
+export interface ChunkSetRoot {
+    format: 'sfs-chunk-set';
+    version: number;
+    manifest: CidLink;
+    chunks: CidLink[];
+}
+
+const CBOR_CID_TAG = 42;
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export class CarFile {
+    static readonly CHUNK_SET_FORMAT = 'sfs-chunk-set';
+
+    // Pack an encrypted manifest and its chunk files (raw blocks) under a dag-cbor root node
+    static async packChunkSet(manifest: Blob, chunks: Blob[]): Promise<{ blob: Blob; root: string }> {
+        const blocks: { cid: string; data: Blob }[] = [];
+        const seen = new Set<string>();
+        const addBlock = async (data: Blob): Promise<CidLink> => {
+            const cid = await Cid.fromBytes(new Uint8Array(await data.arrayBuffer()));
+            if (!seen.has(cid)) {
+                seen.add(cid);
+                blocks.push({ cid, data });
+            }
+            return { '/': cid };
+        };
+
+        const manifestLink = await addBlock(manifest);
+        const chunkLinks: CidLink[] = [];
+        for (const chunk of chunks) {
+            chunkLinks.push(await addBlock(chunk));
+        }
+
+        const rootNode: ChunkSetRoot = { format: this.CHUNK_SET_FORMAT, version: 1, manifest: manifestLink, chunks: chunkLinks };
+        const rootBytes = this.encodeNode(rootNode as unknown as DagCborValue);
+        const root = await Cid.fromBytes(rootBytes, CID_CODECS.DAG_CBOR);
+
+        console.log(`📦 CAR export: ${blocks.length + 1} blocks, root ${root}`);
+        return { blob: this.encode([root], [{ cid: root, data: new Blob([rootBytes as BlobPart]) }, ...blocks]), root };
+    }
+
+    // Read a chunk set packed by packChunkSet: the manifest and the chunks by CID
+    static async unpackChunkSet(data: Uint8Array): Promise<{ manifest: Uint8Array; chunks: Map<string, Uint8Array> }> {
+        const { roots, blocks } = await this.decode(data);
+        const rootBytes = roots.length === 1 ? blocks.get(roots[0]) : undefined;
+        if (!rootBytes) {
+            throw new Error('CAR file has no readable root block');
+        }
+
+        const root = this.decodeNode(rootBytes) as unknown as ChunkSetRoot;
+        if (!root || root.format !== this.CHUNK_SET_FORMAT) {
+            throw new Error('This CAR file is not a chunk set exported by this app');
+        }
+
+        const manifest = blocks.get(root.manifest['/']);
+        if (!manifest) {
+            throw new Error('The manifest block is missing from the CAR file');
+        }
+
+        const chunks = new Map<string, Uint8Array>();
+        for (const link of root.chunks) {
+            const chunk = blocks.get(link['/']);
+            if (chunk) chunks.set(link['/'], chunk);
+        }
+        return { manifest, chunks };
+    }
+
+    // CARv1: varint-framed dag-cbor header { roots, version: 1 }, then varint-framed (CID, data) blocks
+    static encode(roots: string[], blocks: { cid: string; data: Blob | Uint8Array }[]): Blob {
+        const header = this.encodeNode({ roots: roots.map(cid => ({ '/': cid })), version: 1 });
+        const parts: BlobPart[] = [encodeVarint(header.length) as BlobPart, header as BlobPart];
+
+        for (const block of blocks) {
+            const cid = Cid.parse(block.cid);
+            const size = block.data instanceof Blob ? block.data.size : block.data.length;
+            parts.push(encodeVarint(cid.length + size) as BlobPart, cid as BlobPart, block.data as BlobPart);
+        }
+
+        return new Blob(parts, { type: 'application/vnd.ipld.car' });
+    }
+
+    static async decode(data: Uint8Array): Promise<CarContents> {
+        let header: any;
+        const headerLength = decodeVarint(data);
+        let offset = headerLength.length;
+        try {
+            header = this.decodeNode(data.subarray(offset, offset + headerLength.value));
+        } catch (error) {
+            header = null;
+        }
+        if (!header || header.version !== 1 || !Array.isArray(header.roots)) {
+            throw new Error('Not a CARv1 file');
+        }
+        offset += headerLength.value;
+
+        const roots: string[] = header.roots.map((link: CidLink) => link['/']);
+        const blocks = new Map<string, Uint8Array>();
+
+        while (offset < data.length) {
+            const frame = decodeVarint(data, offset);
+            const start = offset + frame.length;
+            const end = start + frame.value;
+            if (end > data.length) {
+                throw new Error('CAR file is truncated');
+            }
+
+            const decoded = Cid.decode(data, start);
+            const cid = Cid.format(decoded);
+            const block = data.subarray(start + decoded.byteLength, end);
+            const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', block as BufferSource));
+            if (bytesToHex(digest) === decoded.digest) {
+                blocks.set(cid, block);
+            } else {
+                // Left out, so it reads as a missing chunk (parity can still take over)
+                console.warn(`⚠️ CAR block ${cid} does not match its CID`);
+            }
+            offset = end;
+        }
+
+        return { roots, blocks };
+    }
+
+    // Deterministic dag-cbor: minimal-length integers, map keys sorted by length then bytes
+    static encodeNode(value: DagCborValue): Uint8Array {
+        const bytes: number[] = [];
+        this.writeValue(bytes, value);
+        return new Uint8Array(bytes);
+    }
+
+    static decodeNode(bytes: Uint8Array): DagCborValue {
+        const { value, offset } = this.readValue(bytes, 0);
+        if (offset !== bytes.length) {
+            throw new Error('Trailing bytes after dag-cbor value');
+        }
+        return value;
+    }
+
+    private static writeValue(out: number[], value: DagCborValue): void {
+        if (typeof value === 'number') {
+            if (!Number.isSafeInteger(value) || value < 0) {
+                throw new Error(`Only unsigned integers are supported, got ${value}`);
+            }
+            this.writeHead(out, 0, value);
+        } else if (typeof value === 'string') {
+            const text = textEncoder.encode(value);
+            this.writeHead(out, 3, text.length);
+            out.push(...Array.from(text));
+        } else if (Array.isArray(value)) {
+            this.writeHead(out, 4, value.length);
+            value.forEach(item => this.writeValue(out, item));
+        } else if (this.isLink(value)) {
+            const cid = Cid.parse(value['/']);
+            this.writeHead(out, 6, CBOR_CID_TAG);
+            this.writeHead(out, 2, cid.length + 1);
+            out.push(0x00, ...Array.from(cid)); // Multibase identity prefix
+        } else {
+            const record = value as { [key: string]: DagCborValue };
+            const keys = Object.keys(record).sort((a, b) => {
+                const lengthA = textEncoder.encode(a).length;
+                const lengthB = textEncoder.encode(b).length;
+                return lengthA !== lengthB ? lengthA - lengthB : (a < b ? -1 : a > b ? 1 : 0);
+            });
+            this.writeHead(out, 5, keys.length);
+            keys.forEach(key => {
+                this.writeValue(out, key);
+                this.writeValue(out, record[key]);
+            });
+        }
+    }
+
+    private static writeHead(out: number[], major: number, length: number): void {
+        const type = major << 5;
+        if (length < 24) {
+            out.push(type | length);
+        } else if (length < 0x100) {
+            out.push(type | 24, length);
+        } else if (length < 0x10000) {
+            out.push(type | 25, length >>> 8, length & 0xff);
+        } else if (length < 0x100000000) {
+            out.push(type | 26, (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff);
+        } else {
+            const high = Math.floor(length / 0x100000000);
+            out.push(type | 27, (high >>> 24) & 0xff, (high >>> 16) & 0xff, (high >>> 8) & 0xff, high & 0xff,
+                (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff);
+        }
+    }
+
+    private static readValue(bytes: Uint8Array, offset: number): { value: DagCborValue; offset: number } {
+        const { major, length, offset: start } = this.readHead(bytes, offset);
+
+        switch (major) {
+            case 0:
+                return { value: length, offset: start };
+            case 2:
+            case 3: {
+                const end = start + length;
+                if (end > bytes.length) throw new Error('Truncated dag-cbor value');
+                if (major === 3) {
+                    return { value: textDecoder.decode(bytes.subarray(start, end)), offset: end };
+                }
+                throw new Error('Bare byte strings are not expected here');
+            }
+            case 4: {
+                const items: DagCborValue[] = [];
+                let position = start;
+                for (let i = 0; i < length; i++) {
+                    const item = this.readValue(bytes, position);
+                    items.push(item.value);
+                    position = item.offset;
+                }
+                return { value: items, offset: position };
+            }
+            case 5: {
+                const record: { [key: string]: DagCborValue } = {};
+                let position = start;
+                for (let i = 0; i < length; i++) {
+                    const key = this.readValue(bytes, position);
+                    if (typeof key.value !== 'string') throw new Error('dag-cbor map keys must be strings');
+                    const item = this.readValue(bytes, key.offset);
+                    record[key.value] = item.value;
+                    position = item.offset;
+                }
+                return { value: record, offset: position };
+            }
+            case 6: {
+                if (length !== CBOR_CID_TAG) throw new Error(`Unsupported CBOR tag ${length}`);
+                const link = this.readHead(bytes, start);
+                const end = link.offset + link.length;
+                if (link.major !== 2 || bytes[link.offset] !== 0x00 || end > bytes.length) {
+                    throw new Error('Malformed CID link');
+                }
+                return { value: { '/': Cid.format(Cid.decode(bytes.subarray(link.offset + 1, end))) }, offset: end };
+            }
+            default:
+                throw new Error(`Unsupported CBOR major type ${major}`);
+        }
+    }
+
+    private static readHead(bytes: Uint8Array, offset: number): { major: number; length: number; offset: number } {
+        if (offset >= bytes.length) throw new Error('Truncated dag-cbor value');
+        const major = bytes[offset] >> 5;
+        const info = bytes[offset] & 31;
+        if (info < 24) {
+            return { major, length: info, offset: offset + 1 };
+        }
+
+        const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+        if (!size || offset + 1 + size > bytes.length) {
+            throw new Error('Unsupported or truncated CBOR length');
+        }
+        let length = 0;
+        for (let i = 1; i <= size; i++) {
+            length = length * 0x100 + bytes[offset + i];
+        }
+        return { major, length, offset: offset + 1 + size };
+    }
+
+    private static isLink(value: DagCborValue): value is CidLink {
+        return typeof value === 'object' && !Array.isArray(value) &&
+            Object.keys(value).length === 1 && typeof (value as CidLink)['/'] === 'string';
+    }
+}
@@ -1,6 +1,7 @@
 // src/utils/chunkUtils.ts
 
 import { CHUNK_SIZE } from "../config";
+import { ContentDefinedChunker, ContentDefinedChunkingParams } from "./contentDefinedChunking";
 
 export async function generateKey(): Promise<CryptoKey> {
     return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
@@ -29,6 +30,18 @@ export const splitFile = (file: File): Blob[] => {
     return chunks;
 };
 
+// Content-defined variant of splitFile: boundaries follow the data, not fixed offsets
+export const splitFileContentDefined = async (file: File, params: ContentDefinedChunkingParams): Promise<Blob[]> => {
+    const lengths = await new ContentDefinedChunker(params).computeChunkLengths(file);
+    const chunks: Blob[] = [];
+    let offset = 0;
+    for (const length of lengths) {
+        chunks.push(file.slice(offset, offset + length));
+        offset += length;
+    }
+    return chunks;
+};
+
 export function reassembleChunks(chunks: Uint8Array[]): ArrayBuffer {
     const totalSize = chunks.reduce((sum, c) => sum + c.length, 0);
     const merged = new Uint8Array(totalSize);
@@ -49,6 +62,17 @@ export function splitIntoChunks(buffer: ArrayBuffer): Uint8Array[] {
     return chunks;
 }
 
+export function splitIntoContentDefinedChunks(buffer: ArrayBuffer, params: ContentDefinedChunkingParams): Uint8Array[] {
+    const uint8 = new Uint8Array(buffer);
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+    for (const length of new ContentDefinedChunker(params).split(uint8)) {
+        chunks.push(uint8.slice(offset, offset + length));
+        offset += length;
+    }
+    return chunks;
+}
+
 export function combineChunks(chunks: Uint8Array[]): Uint8Array {
     const totalLength = chunks.reduce((sum, c) => sum + c.length, 0);
     const combined = new Uint8Array(totalLength);
@@ -0,0 +1,54 @@
+import { Cid, CID_CODECS, decodeVarint, encodeVarint } from './cid';
+import { bytesToHex, hexToBytes } from './encoding';
+
+// Reference CIDs as produced by `ipfs add --cid-version 1 --raw-leaves` / `ipfs block put`
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+const EMPTY_CID = 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+const HELLO_WORLD_CID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+describe('Cid', () => {
+    test('raw sha2-256 CIDv1 of known blocks', async () => {
+        expect(Cid.fromSha256(EMPTY_SHA256)).toBe(EMPTY_CID);
+        expect(await Cid.fromBytes(new Uint8Array(0))).toBe(EMPTY_CID);
+        expect(await Cid.fromBytes(new TextEncoder().encode('hello world'))).toBe(HELLO_WORLD_CID);
+    });
+
+    test('binary form is version, codec, multihash', () => {
+        expect(bytesToHex(Cid.toBinary(EMPTY_SHA256))).toBe('01551220' + EMPTY_SHA256);
+        expect(bytesToHex(Cid.toBinary(EMPTY_SHA256, CID_CODECS.DAG_CBOR))).toBe('01711220' + EMPTY_SHA256);
+    });
+
+    test('parses and decodes its own CIDs', () => {
+        const decoded = Cid.decode(Cid.parse(HELLO_WORLD_CID));
+        expect(decoded).toEqual({
+            version: 1,
+            codec: CID_CODECS.RAW,
+            digest: 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9',
+            byteLength: 36
+        });
+        expect(Cid.format(decoded)).toBe(HELLO_WORLD_CID);
+    });
+
+    test('reads CIDv0 (bare multihash) as dag-pb and upgrades it to CIDv1', () => {
+        const decoded = Cid.decode(hexToBytes('1220' + EMPTY_SHA256));
+        expect(decoded.version).toBe(0);
+        expect(decoded.codec).toBe(0x70);
+        expect(Cid.format(decoded)).toBe('bafybeihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku');
+    });
+
+    test('rejects other encodings, hashes and truncated input', () => {
+        expect(Cid.isCid('QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o')).toBe(false);
+        expect(Cid.isCid(HELLO_WORLD_CID.substring(0, 30))).toBe(false);
+        expect(() => Cid.decode(hexToBytes('01551320' + EMPTY_SHA256))).toThrow('only sha2-256');
+        expect(() => Cid.toBinary('abcd')).toThrow('sha2-256 only');
+    });
+
+    test('varints follow unsigned LEB128', () => {
+        expect(Array.from(encodeVarint(1))).toEqual([0x01]);
+        expect(Array.from(encodeVarint(127))).toEqual([0x7f]);
+        expect(Array.from(encodeVarint(128))).toEqual([0x80, 0x01]);
+        expect(Array.from(encodeVarint(300))).toEqual([0xac, 0x02]);
+        expect(decodeVarint(new Uint8Array([0xff, 0xac, 0x02]), 1)).toEqual({ value: 300, length: 2 });
+        expect(() => decodeVarint(new Uint8Array([0x80]))).toThrow('Truncated');
+    });
+});
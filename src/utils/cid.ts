@@ -0,0 +1,129 @@
+// utils/cid.ts - IPFS content identifiers (CIDv1, sha2-256) for encrypted chunks
+import { base32ToBytes, bytesToBase32, bytesToHex, hexToBytes } from './encoding';
+
+export const CID_CODECS = {
+    RAW: 0x55,       // Opaque bytes: encrypted chunks and manifests
+    DAG_CBOR: 0x71   // Structured node: the root of a CAR export
+};
+
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 32;
+
+export interface DecodedCid {
+    version: 0 | 1;
+    codec: number;
+    digest: string;      // Hex SHA-256 of the block
+    byteLength: number;  // Length of the binary CID that was read
+}
+
+// Unsigned LEB128, as used by multiformats and CAR framing
+export function encodeVarint(value: number): Uint8Array {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    return new Uint8Array(bytes);
+}
+
+export function decodeVarint(bytes: Uint8Array, offset: number = 0): { value: number; length: number } {
+    let value = 0;
+    let factor = 1;
+    for (let i = offset; i < bytes.length && i < offset + 8; i++) {
+        value += (bytes[i] & 0x7f) * factor;
+        if (bytes[i] < 0x80) {
+            return { value, length: i - offset + 1 };
+        }
+        factor *= 0x80;
+    }
+    throw new Error('Truncated or oversized varint');
+}
+
+export class Cid {
+    // CIDv1 of a block whose SHA-256 is already known - chunk hashes in the manifest are
+    // SHA-256 of the encrypted bytes, so a chunk's CID costs no extra hashing
+    static fromSha256(hashHex: string, codec: number = CID_CODECS.RAW): string {
+        return 'b' + bytesToBase32(this.toBinary(hashHex, codec));
+    }
+
+    static async fromBytes(data: Uint8Array, codec: number = CID_CODECS.RAW): Promise<string> {
+        const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data as BufferSource));
+        return this.fromSha256(bytesToHex(digest), codec);
+    }
+
+    // Binary CID (version, codec, multihash) - the form used inside CAR files and dag-cbor links
+    static toBinary(hashHex: string, codec: number = CID_CODECS.RAW): Uint8Array {
+        const digest = hexToBytes(hashHex);
+        if (digest.length !== SHA2_256_LENGTH) {
+            throw new Error('CIDs here are sha2-256 only');
+        }
+        const prefix = [...Array.from(encodeVarint(1)), ...Array.from(encodeVarint(codec)), SHA2_256, SHA2_256_LENGTH];
+        const bytes = new Uint8Array(prefix.length + digest.length);
+        bytes.set(prefix);
+        bytes.set(digest, prefix.length);
+        return bytes;
+    }
+
+    // Multibase string to binary CID (base32 CIDv1 only)
+    static parse(cid: string): Uint8Array {
+        if (!cid.startsWith('b')) {
+            throw new Error(`Unsupported CID encoding: ${cid}`);
+        }
+        const bytes = base32ToBytes(cid.substring(1));
+        this.decode(bytes);
+        return bytes;
+    }
+
+    // Read a binary CID at `offset`. CIDv0 (a bare sha2-256 multihash) is accepted as well,
+    // since other IPFS tools may have written the CAR file.
+    static decode(bytes: Uint8Array, offset: number = 0): DecodedCid {
+        let position = offset;
+        let version: 0 | 1 = 0;
+        let codec = 0x70; // dag-pb, implied by CIDv0
+
+        if (bytes[position] !== SHA2_256) {
+            const versionVarint = decodeVarint(bytes, position);
+            if (versionVarint.value !== 1) {
+                throw new Error(`Unsupported CID version ${versionVarint.value}`);
+            }
+            version = 1;
+            position += versionVarint.length;
+            const codecVarint = decodeVarint(bytes, position);
+            codec = codecVarint.value;
+            position += codecVarint.length;
+        }
+
+        const hashCode = decodeVarint(bytes, position);
+        position += hashCode.length;
+        const hashLength = decodeVarint(bytes, position);
+        position += hashLength.length;
+        if (hashCode.value !== SHA2_256 || hashLength.value !== SHA2_256_LENGTH) {
+            throw new Error(`Unsupported multihash 0x${hashCode.value.toString(16)} - only sha2-256 is supported`);
+        }
+        if (position + SHA2_256_LENGTH > bytes.length) {
+            throw new Error('Truncated CID');
+        }
+
+        return {
+            version,
+            codec,
+            digest: bytesToHex(bytes.subarray(position, position + SHA2_256_LENGTH)),
+            byteLength: position + SHA2_256_LENGTH - offset
+        };
+    }
+
+    // String form of a decoded CID (CIDv0 is upgraded to its CIDv1 equivalent)
+    static format(decoded: DecodedCid): string {
+        return this.fromSha256(decoded.digest, decoded.codec);
+    }
+
+    static isCid(value: string): boolean {
+        try {
+            this.parse(value);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+}
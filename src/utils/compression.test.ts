@@ -0,0 +1,29 @@
+import { ChunkCompression } from './compression';
+
+describe('ChunkCompression', () => {
+    const data = new TextEncoder().encode('hello hello hello hello hello hello');
+
+    test('uncompressed frames round-trip', async () => {
+        const { framed, codec } = await ChunkCompression.frame(data, 'none');
+        expect(codec).toBe('none');
+        expect(framed[0]).toBe(0);
+        expect(Array.from(await ChunkCompression.unframe(framed))).toEqual(Array.from(data));
+    });
+
+    test('rejects empty frames and unknown codec flags', async () => {
+        await expect(ChunkCompression.unframe(new Uint8Array(0))).rejects.toThrow('missing codec flag');
+        await expect(ChunkCompression.unframe(new Uint8Array([9, 1, 2]))).rejects.toThrow('Unknown chunk codec flag 9');
+    });
+
+    test('compressed chunks fail with a clear error without DecompressionStream', async () => {
+        const original = (global as any).DecompressionStream;
+        delete (global as any).DecompressionStream;
+        try {
+            expect(ChunkCompression.canDecompress()).toBe(false);
+            await expect(ChunkCompression.unframe(new Uint8Array([1, 0x4b, 0x04, 0x00])))
+                .rejects.toThrow('This browser cannot read compressed chunks');
+        } finally {
+            if (original) (global as any).DecompressionStream = original;
+        }
+    });
+});
@@ -0,0 +1,73 @@
+// utils/compression.ts - Optional per-chunk compression applied before encryption
+
+export type ChunkCodec = 'none' | 'deflate' | 'gzip';
+
+// One-byte codec flag stored in front of every framed chunk plaintext
+const CODEC_IDS: Record<ChunkCodec, number> = { none: 0, deflate: 1, gzip: 2 };
+const CODECS_BY_ID: ChunkCodec[] = ['none', 'deflate', 'gzip'];
+
+export class ChunkCompression {
+    // CompressionStream is missing in older browsers; chunks are then stored uncompressed
+    static isSupported(): boolean {
+        return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+    }
+
+    // Reading compressed chunks only needs DecompressionStream; there is no fallback without it
+    static canDecompress(): boolean {
+        return typeof DecompressionStream !== 'undefined';
+    }
+
+    // Thrown before any chunk is read, so a restore fails up front instead of part-way through
+    static assertCanDecompress(codec: string): void {
+        if (!this.canDecompress()) {
+            throw new Error(`This browser cannot read compressed chunks (${codec}: DecompressionStream is unavailable) - ` +
+                'open the file in a current Chrome, Edge, Firefox or Safari');
+        }
+    }
+
+    // Compress a chunk and prefix it with its codec flag. Falls back to 'none' when the
+    // codec is unavailable or the chunk doesn't shrink (already compressed media, archives...).
+    static async frame(data: Uint8Array, codec: ChunkCodec): Promise<{ framed: Uint8Array; codec: ChunkCodec }> {
+        let payload = data;
+        let usedCodec: ChunkCodec = 'none';
+
+        if (codec !== 'none' && this.isSupported()) {
+            const compressed = await this.transform(data, new CompressionStream(codec));
+            if (compressed.length < data.length) {
+                payload = compressed;
+                usedCodec = codec;
+            }
+        }
+
+        const framed = new Uint8Array(payload.length + 1);
+        framed[0] = CODEC_IDS[usedCodec];
+        framed.set(payload, 1);
+
+        return { framed, codec: usedCodec };
+    }
+
+    // Read the codec flag and decompress the rest of the chunk
+    static async unframe(framed: Uint8Array): Promise<Uint8Array> {
+        if (framed.length === 0) {
+            throw new Error('Framed chunk is empty - missing codec flag');
+        }
+
+        const codec = CODECS_BY_ID[framed[0]];
+        const payload = framed.subarray(1);
+
+        if (!codec) {
+            throw new Error(`Unknown chunk codec flag ${framed[0]}`);
+        }
+        if (codec === 'none') {
+            return payload;
+        }
+        this.assertCanDecompress(codec);
+
+        return this.transform(payload, new DecompressionStream(codec));
+    }
+
+    private static async transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+        const output = new Blob([data as BlobPart]).stream().pipeThrough(stream);
+        return new Uint8Array(await new Response(output).arrayBuffer());
+    }
+}
@@ -0,0 +1,65 @@
+import { ContentDefinedChunker } from './contentDefinedChunking';
+
+const PARAMS = { minSize: 256, avgSize: 1024, maxSize: 4096 };
+
+// Deterministic pseudo-random bytes (xorshift32), so boundaries are reproducible
+function randomBytes(length: number, seed: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    let state = seed;
+    for (let i = 0; i < length; i++) {
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        bytes[i] = state & 0xff;
+    }
+    return bytes;
+}
+
+function boundaries(lengths: number[]): number[] {
+    let offset = 0;
+    return lengths.map(length => (offset += length));
+}
+
+describe('ContentDefinedChunker', () => {
+    const chunker = new ContentDefinedChunker(PARAMS);
+    const data = randomBytes(64 * 1024, 0x12345678);
+
+    test('chunks are deterministic, cover the data and respect min/max', () => {
+        const lengths = chunker.split(data);
+
+        expect(chunker.split(data.slice())).toEqual(lengths);
+        expect(lengths.reduce((sum, length) => sum + length, 0)).toBe(data.length);
+        expect(lengths.slice(0, -1).every(length => length >= PARAMS.minSize && length <= PARAMS.maxSize)).toBe(true);
+        expect(lengths.length).toBeGreaterThan(data.length / PARAMS.maxSize);
+    });
+
+    test('data without boundaries is cut at maxSize', () => {
+        expect(chunker.split(new Uint8Array(10000))).toEqual([4096, 4096, 1808]);
+        expect(chunker.split(new Uint8Array(100))).toEqual([100]);
+        expect(chunker.split(new Uint8Array(0))).toEqual([]);
+    });
+
+    test('boundaries resynchronise after an insertion', () => {
+        const inserted = new Uint8Array(data.length + 10);
+        inserted.set(data.subarray(0, 5000));
+        inserted.set(randomBytes(10, 42), 5000);
+        inserted.set(data.subarray(5000), 5010);
+
+        const before = boundaries(chunker.split(data));
+        const after = boundaries(chunker.split(inserted)).map(offset => offset - 10);
+        const tail = before.filter(offset => offset > 5000 + PARAMS.maxSize);
+
+        expect(tail.length).toBeGreaterThan(0);
+        expect(tail.every(offset => after.includes(offset))).toBe(true);
+    });
+
+    test('reading a file in windows gives the same chunks as splitting it in memory', async () => {
+        expect(await chunker.computeChunkLengths(new Blob([data]))).toEqual(chunker.split(data));
+    });
+
+    test('rejects parameters that are out of order', () => {
+        expect(() => new ContentDefinedChunker({ minSize: 0, avgSize: 1024, maxSize: 4096 })).toThrow('Invalid chunking parameters');
+        expect(() => new ContentDefinedChunker({ minSize: 2048, avgSize: 1024, maxSize: 4096 })).toThrow('Invalid chunking parameters');
+        expect(() => new ContentDefinedChunker({ minSize: 256, avgSize: 8192, maxSize: 4096 })).toThrow('Invalid chunking parameters');
+    });
+});
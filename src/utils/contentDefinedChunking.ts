@@ -0,0 +1,119 @@
+// utils/contentDefinedChunking.ts - FastCDC content-defined chunking
+//
+// Boundaries depend on the bytes around them rather than on fixed offsets, so inserting or
+// deleting data only changes the chunks next to the edit and later chunks stay identical.
+
+export interface ContentDefinedChunkingParams {
+    minSize: number;
+    avgSize: number;
+    maxSize: number;
+}
+
+// How much of the file is read per slice when scanning for boundaries
+const READ_WINDOW = 16 * 1024 * 1024;
+
+// Gear table: 256 pseudo-random 32-bit values from a fixed seed. It must never change,
+// or previously chunked files would no longer share boundaries with new uploads.
+const GEAR = (() => {
+    const table = new Uint32Array(256);
+    let state = 0x9e3779b9;
+    for (let i = 0; i < 256; i++) {
+        // SplitMix32
+        state = (state + 0x9e3779b9) >>> 0;
+        let z = state;
+        z = Math.imul(z ^ (z >>> 16), 0x85ebca6b) >>> 0;
+        z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35) >>> 0;
+        table[i] = (z ^ (z >>> 16)) >>> 0;
+    }
+    return table;
+})();
+
+export class ContentDefinedChunker {
+    private readonly params: ContentDefinedChunkingParams;
+    private readonly maskS: number; // Stricter mask used before the average size (normalized chunking)
+    private readonly maskL: number; // Looser mask used after it
+
+    constructor(params: ContentDefinedChunkingParams) {
+        if (!(params.minSize > 0 && params.minSize <= params.avgSize && params.avgSize <= params.maxSize)) {
+            throw new Error(`Invalid chunking parameters: min ${params.minSize}, avg ${params.avgSize}, max ${params.maxSize}`);
+        }
+
+        this.params = params;
+        const bits = Math.round(Math.log2(params.avgSize));
+        this.maskS = ContentDefinedChunker.highBitsMask(Math.min(bits + 2, 31));
+        this.maskL = ContentDefinedChunker.highBitsMask(Math.max(bits - 2, 1));
+    }
+
+    // Length of the next chunk starting at `start`. `isFinal` says the data ends the file;
+    // otherwise at least maxSize bytes must be available after `start`.
+    nextChunkLength(data: Uint8Array, start: number, isFinal: boolean): number {
+        const { minSize, avgSize, maxSize } = this.params;
+        const remaining = data.length - start;
+
+        if (remaining <= minSize) {
+            return remaining;
+        }
+        if (!isFinal && remaining < maxSize) {
+            throw new Error('Not enough data buffered to find a chunk boundary');
+        }
+
+        const end = Math.min(remaining, maxSize);
+        const normalEnd = Math.min(end, avgSize);
+        let fingerprint = 0;
+        let i = minSize;
+
+        for (; i < normalEnd; i++) {
+            fingerprint = ((fingerprint << 1) + GEAR[data[start + i]]) >>> 0;
+            if ((fingerprint & this.maskS) === 0) return i + 1;
+        }
+        for (; i < end; i++) {
+            fingerprint = ((fingerprint << 1) + GEAR[data[start + i]]) >>> 0;
+            if ((fingerprint & this.maskL) === 0) return i + 1;
+        }
+
+        return end;
+    }
+
+    // Chunk lengths for an in-memory buffer
+    split(buffer: ArrayBuffer | Uint8Array): number[] {
+        const data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+        const lengths: number[] = [];
+
+        for (let offset = 0; offset < data.length;) {
+            const length = this.nextChunkLength(data, offset, true);
+            lengths.push(length);
+            offset += length;
+        }
+
+        return lengths;
+    }
+
+    // Chunk lengths for a file, reading it in windows so large files never sit in memory whole
+    async computeChunkLengths(file: Blob): Promise<number[]> {
+        const lengths: number[] = [];
+        const windowSize = Math.max(READ_WINDOW, this.params.maxSize * 2);
+        let offset = 0;
+
+        while (offset < file.size) {
+            const windowEnd = Math.min(offset + windowSize, file.size);
+            const isFinal = windowEnd === file.size;
+            const data = new Uint8Array(await file.slice(offset, windowEnd).arrayBuffer());
+
+            // Cut chunks while a full maxSize lookahead is buffered (or the file ends here)
+            let position = 0;
+            while (position < data.length && (isFinal || data.length - position >= this.params.maxSize)) {
+                const length = this.nextChunkLength(data, position, isFinal);
+                lengths.push(length);
+                position += length;
+            }
+
+            offset += position;
+        }
+
+        return lengths;
+    }
+
+    private static highBitsMask(bits: number): number {
+        return (((1 << bits) - 1) << (32 - bits)) >>> 0;
+    }
+}
@@ -1,39 +1,64 @@
+import { SECURITY_CONFIG } from '../config';
+import { ContentDefinedChunker, ContentDefinedChunkingParams } from './contentDefinedChunking';
+import { bytesToHex, hexToBytes } from './encoding';
+import { IncorrectPasswordError } from './errors';
 import { SecureKeyManager } from './keyManager';
 
+// A key the crypto system can use, as shown to the user
+export interface KeyInfo {
+    keyId: string;
+    label: string;
+    status: 'active' | 'retired';
+}
+
 export class SecureCryptoUtils {
     private static cryptoKey: CryptoKey | null = null;
+    private static keyId: string | null = null;
+    private static derivationKey: CryptoKey | null = null; // HKDF view of the master key
+    private static keyring = new Map<string, KeyInfo & { cryptoKey: CryptoKey }>(); // Named and retired keys
+    private static identity: { privateKey: CryptoKey; publicKey: string; recipientId: string } | null = null; // ECDH, for shared files
+    private static signingKey: { privateKey: CryptoKey; publicKey: string; signerId: string } | null = null; // ECDSA, signs manifests
 
     // Initialize the crypto system - call this before any encryption/decryption
     static async initialize(password?: string): Promise<void> {
         try {
-            // Check if we have a master key
-            const hasMasterKey = await SecureKeyManager.hasMasterKey();
-
-            let masterKeyData: Uint8Array;
-
-            if (!hasMasterKey) {
-                console.log('🔑 No master key found, generating new one...');
-                const hexKey = await SecureKeyManager.generateAndStoreMasterKey(password);
-                masterKeyData = new Uint8Array(hexKey.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)));
+            if (SECURITY_CONFIG.HARDENED_KEYSTORE) {
+                // The master key only ever exists as non-extractable CryptoKeys
+                const workingKey = await SecureKeyManager.loadWorkingKey(password);
+                this.cryptoKey = workingKey.encryptionKey;
+                this.derivationKey = workingKey.derivationKey;
+                this.keyId = workingKey.keyId;
             } else {
-                console.log('✅ Master key found, loading...');
-                masterKeyData = await SecureKeyManager.initializeOrGetMasterKey(password);
+                await this.loadRawMasterKey(password);
             }
 
-            // Import the key for use with Web Crypto API
-            this.cryptoKey = await crypto.subtle.importKey(
-                'raw',
-                masterKeyData as BufferSource,
-                'AES-GCM',
-                false,
-                ['encrypt', 'decrypt']
-            );
+            // Keyring keys: active ones can wrap file keys for uploads, retired ones only unwrap
+            this.keyring.clear();
+            if (password) {
+                for (const entry of await SecureKeyManager.getKeyring(password)) {
+                    if (entry.keyId === this.keyId) continue;
+                    const cryptoKey = await crypto.subtle.importKey(
+                        'raw',
+                        entry.keyMaterial as BufferSource,
+                        'AES-GCM',
+                        false,
+                        entry.status === 'active' ? ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey'] : ['decrypt', 'unwrapKey']
+                    );
+                    this.keyring.set(entry.keyId, { keyId: entry.keyId, label: entry.label, status: entry.status, cryptoKey });
+                }
+            }
+
+            // Identity key pair for receiving files shared by others
+            this.identity = password ? await SecureKeyManager.getOrCreateIdentity(password) : null;
+            this.signingKey = password ? await SecureKeyManager.getOrCreateSigningKey(password) : null;
 
-            console.log('🔐 Crypto system initialized successfully');
+            console.log(`🔐 Crypto system initialized successfully (key ${this.keyId}, ${this.keyring.size} more in keyring)`);
 
         } catch (error) {
             console.error('❌ Failed to initialize crypto system:', error);
-            if (error instanceof Error) {
+            if (error instanceof IncorrectPasswordError) {
+                throw error;
+            } else if (error instanceof Error) {
                 throw new Error('Crypto system initialization failed: ' + error.message);
             } else {
                 throw new Error('Crypto system initialization failed: ' + String(error));
@@ -41,6 +66,40 @@ export class SecureCryptoUtils {
         }
     }
 
+    // Legacy keystore: the master key is read as raw bytes and imported here
+    private static async loadRawMasterKey(password?: string): Promise<void> {
+        // Check if we have a master key
+        const hasMasterKey = await SecureKeyManager.hasMasterKey();
+
+        let masterKeyData: Uint8Array;
+
+        if (!hasMasterKey) {
+            console.log('🔑 No master key found, generating new one...');
+            const hexKey = await SecureKeyManager.generateAndStoreMasterKey(password);
+            masterKeyData = new Uint8Array(hexKey.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)));
+        } else {
+            console.log('✅ Master key found, loading...');
+            masterKeyData = await SecureKeyManager.initializeOrGetMasterKey(password);
+        }
+
+        // Import the key for use with Web Crypto API
+        this.cryptoKey = await crypto.subtle.importKey(
+            'raw',
+            masterKeyData as BufferSource,
+            'AES-GCM',
+            false,
+            ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+        );
+        this.derivationKey = await crypto.subtle.importKey(
+            'raw',
+            masterKeyData as BufferSource,
+            'HKDF',
+            false,
+            ['deriveKey', 'deriveBits']
+        );
+        this.keyId = await this.calculateKeyId(masterKeyData);
+    }
+
     // Get the current crypto key (throws if not initialized)
     static getCryptoKey(): CryptoKey {
         if (!this.cryptoKey) {
@@ -49,22 +108,174 @@ export class SecureCryptoUtils {
         return this.cryptoKey;
     }
 
+    // Get the ID of the loaded master key (throws if not initialized)
+    static getKeyId(): string {
+        if (!this.keyId) {
+            throw new Error('Crypto system not initialized. Call initialize() first.');
+        }
+        return this.keyId;
+    }
+
+    // Key ID: first 8 bytes of the SHA-256 fingerprint of the raw key, as hex
+    static async calculateKeyId(rawKey: Uint8Array): Promise<string> {
+        return SecureKeyManager.calculateKeyId(rawKey);
+    }
+
+    // Key that wraps file keys under `keyId`: the master key or a keyring key (null if not loaded)
+    static getCryptoKeyById(keyId: string): CryptoKey | null {
+        if (keyId === this.keyId) {
+            return this.cryptoKey;
+        }
+        return this.keyring.get(keyId)?.cryptoKey || null;
+    }
+
+    // Every loaded key, master key first
+    static getKeyring(): KeyInfo[] {
+        const keys: KeyInfo[] = Array.from(this.keyring.values()).map(({ keyId, label, status }) => ({ keyId, label, status }));
+        return [{ keyId: this.getKeyId(), label: SecureKeyManager.MASTER_KEY_LABEL, status: 'active' }, ...keys];
+    }
+
+    // Our identity (private key, shareable public key, recipient ID), or null without a password
+    static getIdentity(): { privateKey: CryptoKey; publicKey: string; recipientId: string } | null {
+        return this.identity;
+    }
+
+    // Our signing key (private key, shareable public key, signer ID), or null without a password
+    static getSigningKey(): { privateKey: CryptoKey; publicKey: string; signerId: string } | null {
+        return this.signingKey;
+    }
+
+    // Label of a loaded key (undefined if it isn't loaded)
+    static getKeyLabel(keyId: string): string | undefined {
+        return this.getKeyring().find(key => key.keyId === keyId)?.label;
+    }
+
     // Check if crypto system is ready
     static isInitialized(): boolean {
         return this.cryptoKey !== null;
     }
 
-    // Encrypt a chunk of data
-    static async encryptChunk(data: Uint8Array): Promise<Uint8Array> {
-        if (!this.cryptoKey) {
+    // Generate a fresh AES-256 data key for a single file
+    static async generateFileKey(): Promise<CryptoKey> {
+        return crypto.subtle.generateKey(
+            { name: 'AES-GCM', length: 256 },
+            true, // must be extractable so it can be wrapped by the master key
+            ['encrypt', 'decrypt']
+        );
+    }
+
+    // Wrap a file key with the master key, or the given active keyring key (returns hex of IV + wrapped key)
+    static async wrapFileKey(fileKey: CryptoKey, keyId?: string): Promise<string> {
+        const masterKey = keyId ? this.getCryptoKeyById(keyId) : this.getCryptoKey();
+        if (!masterKey) {
+            throw new Error(`Key ${keyId} is not in your keyring`);
+        }
+        if (keyId && this.keyring.get(keyId)?.status === 'retired') {
+            throw new Error(`Key "${this.keyring.get(keyId)!.label}" (${keyId}) is retired and can't encrypt new files`);
+        }
+
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const wrapped = await crypto.subtle.wrapKey(
+            'raw',
+            fileKey,
+            masterKey,
+            { name: 'AES-GCM', iv }
+        );
+
+        const result = new Uint8Array(iv.length + wrapped.byteLength);
+        result.set(iv, 0);
+        result.set(new Uint8Array(wrapped), iv.length);
+
+        return bytesToHex(result);
+    }
+
+    // Unwrap a file key previously produced by wrapFileKey, with the key it was wrapped under
+    // (defaults to the active key)
+    static async unwrapFileKey(wrappedHex: string, keyId?: string): Promise<CryptoKey> {
+        const masterKey = keyId ? this.getCryptoKeyById(keyId) : this.getCryptoKey();
+        if (!masterKey) {
+            throw new Error(`Key ${keyId} is not in your keyring`);
+        }
+
+        try {
+            const wrapped = hexToBytes(wrappedHex);
+            const iv = wrapped.slice(0, 12);
+            const wrappedKey = wrapped.slice(12);
+
+            return await crypto.subtle.unwrapKey(
+                'raw',
+                wrappedKey,
+                masterKey,
+                { name: 'AES-GCM', iv },
+                { name: 'AES-GCM', length: 256 },
+                true,
+                ['encrypt', 'decrypt']
+            );
+        } catch (error) {
+            console.error('❌ File key unwrap failed:', error);
+            throw new Error('Failed to unwrap file key - wrong master key or corrupted metadata');
+        }
+    }
+
+    // Derive a purpose-specific HMAC-SHA256 key from the master key (HKDF, `info` separates purposes)
+    static async deriveHmacKey(info: string): Promise<CryptoKey> {
+        if (!this.derivationKey) {
+            throw new Error('Crypto system not initialized. Call initialize() first.');
+        }
+
+        return crypto.subtle.deriveKey(
+            { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(info) },
+            this.derivationKey,
+            { name: 'HMAC', hash: 'SHA-256', length: 256 },
+            false,
+            ['sign']
+        );
+    }
+
+    // HMAC-SHA256 of `data` under `key`
+    static async hmac(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+        return new Uint8Array(await crypto.subtle.sign('HMAC', key, data as BufferSource));
+    }
+
+    // Import a raw per-chunk AES-256 key (hex) as recorded in a manifest
+    static async importChunkKey(hexKey: string): Promise<CryptoKey> {
+        return crypto.subtle.importKey('raw', hexToBytes(hexKey) as BufferSource, 'AES-GCM', false, ['encrypt', 'decrypt']);
+    }
+
+    // Build the AES-GCM additional data that binds a chunk to its file and position:
+    // fileId (16 bytes) | chunk index (uint32 BE) | total chunks (uint32 BE) | is-last flag (1 byte)
+    static buildChunkAad(fileId: string, index: number, totalChunks: number): Uint8Array {
+        const fileIdBytes = hexToBytes(fileId);
+        const aad = new Uint8Array(fileIdBytes.length + 9);
+        const view = new DataView(aad.buffer);
+
+        aad.set(fileIdBytes, 0);
+        view.setUint32(fileIdBytes.length, index);
+        view.setUint32(fileIdBytes.length + 4, totalChunks);
+        aad[fileIdBytes.length + 8] = index === totalChunks - 1 ? 1 : 0;
+
+        return aad;
+    }
+
+    // Generate a random file ID (hex, 128 bits)
+    static generateFileId(): string {
+        return bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+    }
+
+    // Encrypt a chunk of data (with the given file key, or the master key for legacy callers)
+    static async encryptChunk(data: Uint8Array, key?: CryptoKey, additionalData?: Uint8Array): Promise<Uint8Array> {
+        const encryptionKey = key || this.cryptoKey;
+        if (!encryptionKey) {
             throw new Error('Crypto system not initialized. Call initialize() first.');
         }
 
         try {
             const iv = crypto.getRandomValues(new Uint8Array(12)); // AES-GCM IV
             const encrypted = await crypto.subtle.encrypt(
-                { name: "AES-GCM", iv },
-                this.cryptoKey,
+                additionalData
+                    ? { name: "AES-GCM", iv, additionalData: additionalData as BufferSource }
+                    : { name: "AES-GCM", iv },
+                encryptionKey,
                 data as BufferSource
             );
 
@@ -85,9 +296,21 @@ export class SecureCryptoUtils {
         }
     }
 
-    // Decrypt a chunk of data
-    static async decryptChunk(data: Uint8Array): Promise<Uint8Array> {
-        if (!this.cryptoKey) {
+    // Decrypt a chunk of data (with the given file key, or the master key for legacy chunks)
+    static async decryptChunk(data: Uint8Array, key?: CryptoKey, additionalData?: Uint8Array): Promise<Uint8Array> {
+        const decrypted = await this.tryDecryptChunk(data, key, additionalData);
+        if (!decrypted) {
+            console.error('❌ Decryption failed');
+            throw new Error('Chunk decryption failed - wrong key or corrupted data');
+        }
+        return decrypted;
+    }
+
+    // Same as decryptChunk, but returns null instead of throwing when authentication fails.
+    // Without an explicit key (legacy chunks encrypted with a master key) keyring keys are tried too.
+    static async tryDecryptChunk(data: Uint8Array, key?: CryptoKey, additionalData?: Uint8Array): Promise<Uint8Array | null> {
+        const decryptionKey = key || this.cryptoKey;
+        if (!decryptionKey) {
             throw new Error('Crypto system not initialized. Call initialize() first.');
         }
 
@@ -95,38 +318,56 @@ export class SecureCryptoUtils {
             throw new Error('Invalid encrypted data - too short to contain IV');
         }
 
-        try {
-            const iv = data.slice(0, 12);
-            const encrypted = data.slice(12);
-
-            const decrypted = await crypto.subtle.decrypt(
-                { name: "AES-GCM", iv },
-                this.cryptoKey,
-                encrypted as BufferSource
-            );
-
-            return new Uint8Array(decrypted);
-
-        } catch (error) {
-            console.error('❌ Decryption failed:', error);
-            throw new Error('Chunk decryption failed - wrong key or corrupted data');
+        const iv = data.slice(0, 12);
+        const encrypted = data.slice(12);
+        const candidates = key ? [key] : [decryptionKey, ...Array.from(this.keyring.values()).map(entry => entry.cryptoKey)];
+
+        for (const candidate of candidates) {
+            try {
+                const decrypted = await crypto.subtle.decrypt(
+                    additionalData
+                        ? { name: "AES-GCM", iv, additionalData: additionalData as BufferSource }
+                        : { name: "AES-GCM", iv },
+                    candidate,
+                    encrypted as BufferSource
+                );
+
+                return new Uint8Array(decrypted);
+            } catch (error) {
+                // Wrong key or tampered data - try the next candidate
+            }
         }
+
+        return null;
     }
 
     // Reset the crypto system (clears loaded key from memory)
     static reset(): void {
         this.cryptoKey = null;
+        this.keyId = null;
+        this.derivationKey = null;
+        this.keyring.clear();
+        this.identity = null;
+        this.signingKey = null;
         console.log('🔄 Crypto system reset');
     }
 
-    // Utility: Split file into chunks
-    static splitIntoChunks(buffer: ArrayBuffer, chunkSize: number = 1024 * 1024): Uint8Array[] {
+    // Utility: Split file into chunks (fixed size, or content-defined when given FastCDC parameters)
+    static splitIntoChunks(buffer: ArrayBuffer, chunking: number | ContentDefinedChunkingParams = 1024 * 1024): Uint8Array[] {
         const uint8 = new Uint8Array(buffer);
         const chunks: Uint8Array[] = [];
 
-        for (let i = 0; i < uint8.length; i += chunkSize) {
-            const chunk = uint8.slice(i, Math.min(i + chunkSize, uint8.length));
-            chunks.push(chunk);
+        if (typeof chunking === 'number') {
+            for (let i = 0; i < uint8.length; i += chunking) {
+                const chunk = uint8.slice(i, Math.min(i + chunking, uint8.length));
+                chunks.push(chunk);
+            }
+        } else {
+            let offset = 0;
+            for (const length of new ContentDefinedChunker(chunking).split(uint8)) {
+                chunks.push(uint8.slice(offset, offset + length));
+                offset += length;
+            }
         }
 
         console.log(`📦 Split ${uint8.length} bytes into ${chunks.length} chunks`);
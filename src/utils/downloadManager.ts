@@ -73,8 +73,8 @@ export class DownloadManager {
     }
 
     static async createZipDownload(
-        chunks: { blob: Blob; filename: string }[],
-        metadata: any
+        entries: { blob: Blob; filename: string }[],
+        archiveName: string
     ): Promise<void> {
         // Use JSZip for actual compression - much more efficient than JSON
         if (!JSZip) {
@@ -83,15 +83,13 @@ export class DownloadManager {
 
         const zip = new JSZip();
 
-        // Add metadata file to zip
-        zip.file(`${metadata.originalFileName}_metadata.json`, JSON.stringify(metadata, null, 2));
-
-        // Add all encrypted chunks to zip
-        for (const chunk of chunks) {
-            zip.file(chunk.filename, chunk.blob);
+        // Add the encrypted manifest and all encrypted chunks to zip.
+        // Ciphertext is incompressible, so chunks are STOREd instead of burning CPU on DEFLATE.
+        for (const entry of entries) {
+            zip.file(entry.filename, entry.blob, entry.filename.endsWith('.enc') ? { compression: 'STORE' } : {});
         }
 
-        // Generate compressed zip file
+        // Generate zip file (DEFLATE only applies to entries without their own setting)
         const zipBlob = await zip.generateAsync({
             type: "blob",
             compression: "DEFLATE",
@@ -102,7 +100,7 @@ export class DownloadManager {
 
         await this.downloadWithDelay(
             zipBlob,
-            `${metadata.originalFileName}_encrypted.zip`,
+            `${archiveName}_encrypted.zip`,
             0
         );
     }
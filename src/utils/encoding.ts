@@ -0,0 +1,75 @@
+// utils/encoding.ts - Byte/string conversions shared by the crypto code
+
+export function bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+    if (hex.length % 2 !== 0 || /[^0-9a-fA-F]/.test(hex)) {
+        throw new Error('Invalid hex string');
+    }
+    return new Uint8Array((hex.match(/.{1,2}/g) || []).map(byte => parseInt(byte, 16)));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    // Build the binary string in slices to stay clear of argument-count limits
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return btoa(binary);
+}
+
+// URL-safe, unpadded base64 (RFC 4648 section 5), as used in bearer tokens
+export function bytesToBase64Url(bytes: Uint8Array): string {
+    return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// RFC 4648 base32, lowercase and unpadded (the multibase 'b' form used by CIDv1)
+export function bytesToBase32(bytes: Uint8Array): string {
+    let output = '';
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of Array.from(bytes)) {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+export function base32ToBytes(base32: string): Uint8Array {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of Array.from(base32.toLowerCase())) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value < 0) {
+            throw new Error('Invalid base32 string');
+        }
+        buffer = (buffer << 5) | value;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((buffer >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+}
@@ -0,0 +1,51 @@
+import { ReedSolomon } from './erasureCoding';
+import { GaloisField } from './galoisField';
+
+function shard(...bytes: number[]): Uint8Array {
+    return new Uint8Array(bytes);
+}
+
+describe('ReedSolomon', () => {
+    // 2+2 code: parity row i, column j is 1 / ((2 + i) XOR j) in GF(256)
+    const rs = new ReedSolomon(2, 2);
+    const data = [shard(1, 2, 3), shard(4, 5, 6)];
+
+    test('parity shards are the Cauchy combinations of the data', () => {
+        const [p0, p1] = rs.encode(data);
+        const c = (row: number, col: number) => GaloisField.inv((2 + row) ^ col);
+        const expected = (row: number) => Array.from(data[0]).map((a, b) => GaloisField.mul(c(row, 0), a) ^ GaloisField.mul(c(row, 1), data[1][b]));
+
+        expect(Array.from(p0)).toEqual(expected(0));
+        expect(Array.from(p1)).toEqual(expected(1));
+        // 1/2 = 0x8e, 1/3 = 0xf4, 1/3 = 0xf4, 1/2 = 0x8e
+        expect([c(0, 0), c(0, 1), c(1, 0), c(1, 1)]).toEqual([0x8e, 0xf4, 0xf4, 0x8e]);
+    });
+
+    test('recovers the data from any two of the four shards', () => {
+        const all = [...data, ...rs.encode(data)];
+        for (let a = 0; a < 4; a++) {
+            for (let b = a + 1; b < 4; b++) {
+                const erased = all.map((s, i) => (i === a || i === b ? s : null));
+                expect(rs.reconstruct(erased).map(s => Array.from(s))).toEqual([[1, 2, 3], [4, 5, 6]]);
+            }
+        }
+    });
+
+    test('recovers larger stripes with as many erasures as parity shards', () => {
+        const code = new ReedSolomon(4, 3);
+        const stripe = Array.from({ length: 4 }, (_, i) => Uint8Array.from({ length: 64 }, (_, b) => (i * 64 + b * 7) & 0xff));
+        const shards: (Uint8Array | null)[] = [...stripe, ...code.encode(stripe)];
+        shards[0] = null;
+        shards[2] = null;
+        shards[5] = null;
+
+        expect(code.reconstruct(shards).map(s => Array.from(s))).toEqual(stripe.map(s => Array.from(s)));
+    });
+
+    test('fails with more erasures than parity shards, or shards of different lengths', () => {
+        const all: (Uint8Array | null)[] = [...data, ...rs.encode(data)];
+        expect(() => rs.reconstruct([null, null, null, all[3]])).toThrow('Not enough shards');
+        expect(() => rs.encode([shard(1, 2), shard(3)])).toThrow();
+        expect(() => new ReedSolomon(0, 1)).toThrow('Invalid erasure coding parameters');
+    });
+});
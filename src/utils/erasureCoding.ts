@@ -0,0 +1,91 @@
+// utils/erasureCoding.ts - Systematic Reed-Solomon erasure coding over GF(256)
+import { GaloisField } from './galoisField';
+
+// Any `dataShards` of the `dataShards + parityShards` shards are enough to rebuild the data.
+// Parity rows come from a Cauchy matrix, so every square submatrix of [I; C] is invertible.
+export class ReedSolomon {
+    readonly dataShards: number;
+    readonly parityShards: number;
+    private readonly parityMatrix: number[][];
+
+    constructor(dataShards: number, parityShards: number) {
+        if (dataShards < 1 || parityShards < 1 || dataShards + parityShards > 256) {
+            throw new Error(`Invalid erasure coding parameters: ${dataShards}+${parityShards}`);
+        }
+
+        this.dataShards = dataShards;
+        this.parityShards = parityShards;
+        this.parityMatrix = Array.from({ length: parityShards }, (_, i) =>
+            Array.from({ length: dataShards }, (_, j) => GaloisField.inv((dataShards + i) ^ j))
+        );
+    }
+
+    // Compute the parity shards for `dataShards` equal-length data shards
+    encode(shards: Uint8Array[]): Uint8Array[] {
+        if (shards.length !== this.dataShards) {
+            throw new Error(`Expected ${this.dataShards} data shards, got ${shards.length}`);
+        }
+        const shardLength = this.checkShardLength(shards);
+
+        return this.parityMatrix.map(row => this.combine(row, shards, shardLength));
+    }
+
+    // Rebuild the data shards from any `dataShards` surviving shards.
+    // `shards` holds data shards first, then parity shards; null marks a missing one.
+    reconstruct(shards: (Uint8Array | null)[]): Uint8Array[] {
+        if (shards.length !== this.dataShards + this.parityShards) {
+            throw new Error(`Expected ${this.dataShards + this.parityShards} shards, got ${shards.length}`);
+        }
+
+        const available = shards
+            .map((shard, index) => ({ shard, index }))
+            .filter((entry): entry is { shard: Uint8Array; index: number } => entry.shard !== null);
+
+        if (available.length < this.dataShards) {
+            throw new Error(`Not enough shards to recover data: have ${available.length}, need ${this.dataShards}`);
+        }
+
+        // Nothing missing among the data shards - nothing to do
+        if (shards.slice(0, this.dataShards).every(shard => shard !== null)) {
+            return shards.slice(0, this.dataShards) as Uint8Array[];
+        }
+
+        const chosen = available.slice(0, this.dataShards);
+        const shardLength = this.checkShardLength(chosen.map(entry => entry.shard));
+
+        // Rows of the generator matrix for the shards we have, inverted, give the data back
+        const subMatrix = chosen.map(({ index }) =>
+            index < this.dataShards
+                ? Array.from({ length: this.dataShards }, (_, j) => (j === index ? 1 : 0))
+                : this.parityMatrix[index - this.dataShards]
+        );
+        const decodeMatrix = GaloisField.invertMatrix(subMatrix);
+        const inputs = chosen.map(entry => entry.shard);
+
+        return Array.from({ length: this.dataShards }, (_, i) =>
+            shards[i] !== null ? shards[i] as Uint8Array : this.combine(decodeMatrix[i], inputs, shardLength)
+        );
+    }
+
+    // Linear combination sum(coefficients[j] * inputs[j]) over GF(256)
+    private combine(coefficients: number[], inputs: Uint8Array[], shardLength: number): Uint8Array {
+        const output = new Uint8Array(shardLength);
+        for (let j = 0; j < inputs.length; j++) {
+            if (coefficients[j] === 0) continue;
+            const table = GaloisField.mulTable(coefficients[j]);
+            const input = inputs[j];
+            for (let b = 0; b < shardLength; b++) {
+                output[b] ^= table[input[b]];
+            }
+        }
+        return output;
+    }
+
+    private checkShardLength(shards: Uint8Array[]): number {
+        const shardLength = shards[0].length;
+        if (shards.some(shard => shard.length !== shardLength)) {
+            throw new Error('All shards must have the same length');
+        }
+        return shardLength;
+    }
+}
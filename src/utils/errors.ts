@@ -0,0 +1,20 @@
+// utils/errors.ts - Errors callers need to tell apart from generic failures
+
+// The password (or passphrase) did not decrypt the key it protects
+export class IncorrectPasswordError extends Error {
+    constructor(message: string = 'Incorrect password') {
+        super(message);
+        this.name = 'IncorrectPasswordError';
+        Object.setPrototypeOf(this, IncorrectPasswordError.prototype);
+    }
+}
+
+// A share bundle (or another file someone sent us) is malformed or asks for KDF settings we refuse.
+// Not a password failure: it must not count towards the unlock back-off.
+export class DamagedBundleError extends Error {
+    constructor(message: string = 'This share bundle is damaged') {
+        super(message);
+        this.name = 'DamagedBundleError';
+        Object.setPrototypeOf(this, DamagedBundleError.prototype);
+    }
+}
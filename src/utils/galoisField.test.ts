@@ -0,0 +1,37 @@
+import { GaloisField } from './galoisField';
+
+// GF(2^8) with the reduction polynomial x^8 + x^4 + x^3 + x^2 + 1 (0x11d), generator 2
+describe('GaloisField', () => {
+    test('known products and inverses', () => {
+        expect(GaloisField.mul(3, 7)).toBe(9);           // (x + 1)(x^2 + x + 1) = x^3 + 1
+        expect(GaloisField.mul(2, 0x80)).toBe(0x1d);     // x^8 reduces to x^4 + x^3 + x^2 + 1
+        expect(GaloisField.mul(0x1d, 2)).toBe(0x3a);
+        expect(GaloisField.inv(2)).toBe(0x8e);
+        expect(GaloisField.mul(0, 0x53)).toBe(0);
+        expect(GaloisField.add(0x53, 0xca)).toBe(0x99);
+    });
+
+    test('every non-zero element has an inverse and division undoes multiplication', () => {
+        for (let a = 1; a < 256; a++) {
+            expect(GaloisField.mul(a, GaloisField.inv(a))).toBe(1);
+            expect(GaloisField.div(GaloisField.mul(a, 0x57), 0x57)).toBe(a);
+        }
+        expect(() => GaloisField.div(1, 0)).toThrow('Division by zero');
+    });
+
+    test('multiplication tables match mul()', () => {
+        const table = GaloisField.mulTable(0x57);
+        expect(table[0x13]).toBe(GaloisField.mul(0x57, 0x13));
+        expect(table[0]).toBe(0);
+    });
+
+    test('matrix inversion', () => {
+        const matrix = [[1, 2, 3], [4, 5, 6], [7, 8, 10]];
+        const inverse = GaloisField.invertMatrix(matrix);
+        const product = matrix.map(row =>
+            inverse[0].map((_, j) => row.reduce((sum, value, k) => sum ^ GaloisField.mul(value, inverse[k][j]), 0))
+        );
+        expect(product).toEqual([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+        expect(() => GaloisField.invertMatrix([[1, 2], [2, 4]])).toThrow('singular');
+    });
+});
@@ -0,0 +1,83 @@
+// utils/galoisField.ts - Arithmetic in GF(2^8) (polynomial 0x11d), shared by erasure coding and secret sharing
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+
+(() => {
+    let x = 1;
+    for (let i = 0; i < 255; i++) {
+        EXP[i] = x;
+        LOG[x] = i;
+        x <<= 1;
+        if (x & 0x100) {
+            x ^= 0x11d;
+        }
+    }
+    // Double the table so mul() can skip the modulo
+    for (let i = 255; i < 512; i++) {
+        EXP[i] = EXP[i - 255];
+    }
+})();
+
+export class GaloisField {
+    static add(a: number, b: number): number {
+        return a ^ b;
+    }
+
+    static mul(a: number, b: number): number {
+        if (a === 0 || b === 0) return 0;
+        return EXP[LOG[a] + LOG[b]];
+    }
+
+    static div(a: number, b: number): number {
+        if (b === 0) throw new Error('Division by zero in GF(256)');
+        if (a === 0) return 0;
+        return EXP[LOG[a] + 255 - LOG[b]];
+    }
+
+    static inv(a: number): number {
+        return this.div(1, a);
+    }
+
+    // 256-entry lookup table for multiplying by a constant (fast inner loops)
+    static mulTable(c: number): Uint8Array {
+        const table = new Uint8Array(256);
+        for (let i = 0; i < 256; i++) {
+            table[i] = this.mul(c, i);
+        }
+        return table;
+    }
+
+    // Invert a square matrix by Gauss-Jordan elimination
+    static invertMatrix(matrix: number[][]): number[][] {
+        const n = matrix.length;
+        const work = matrix.map((row, i) => [
+            ...row,
+            ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+        ]);
+
+        for (let col = 0; col < n; col++) {
+            let pivot = col;
+            while (pivot < n && work[pivot][col] === 0) pivot++;
+            if (pivot === n) {
+                throw new Error('Matrix is singular in GF(256)');
+            }
+            [work[col], work[pivot]] = [work[pivot], work[col]];
+
+            const scale = this.inv(work[col][col]);
+            for (let j = 0; j < 2 * n; j++) {
+                work[col][j] = this.mul(work[col][j], scale);
+            }
+
+            for (let row = 0; row < n; row++) {
+                if (row === col || work[row][col] === 0) continue;
+                const factor = work[row][col];
+                for (let j = 0; j < 2 * n; j++) {
+                    work[row][j] ^= this.mul(factor, work[col][j]);
+                }
+            }
+        }
+
+        return work.map(row => row.slice(n));
+    }
+}
@@ -0,0 +1,249 @@
+import { SECURITY_CONFIG } from '../config';
+import { ManifestService } from '../services/manifestService';
+import { FileMetadata } from '../types/fileMetadata';
+import { SecureCryptoUtils } from './cryptoUtils';
+import { bytesToHex } from './encoding';
+import { IncorrectPasswordError } from './errors';
+import { SecureKeyManager } from './keyManager';
+import { LEGACY_PBKDF2_ITERATIONS } from './passwordKdf';
+import { RecoveryPhrase } from './recoveryPhrase';
+
+const PASSWORD = 'correct horse battery staple';
+const PLAINTEXT_MASTER_RECORD = 'secure_file_splitter_master_key_v1';
+
+// A manifest sealed with the master key that is loaded right now
+async function sealTestManifest(): Promise<string> {
+    const fileKey = await SecureCryptoUtils.generateFileKey();
+    const metadata = {
+        originalFileName: 'notes',
+        originalExtension: 'txt',
+        originalSize: 5,
+        totalChunks: 1,
+        timestamp: Date.now(),
+        hash: 'abc',
+        chunkSize: 1024,
+        wrappedKey: await SecureCryptoUtils.wrapFileKey(fileKey)
+    } as FileMetadata;
+    return ManifestService.sealManifest(metadata, fileKey);
+}
+
+async function unlock(password?: string): Promise<void> {
+    SecureCryptoUtils.reset();
+    await SecureCryptoUtils.initialize(password);
+}
+
+function randomKeyMaterial(): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(32));
+}
+
+const kdf = { algorithm: SECURITY_CONFIG.KDF_ALGORITHM, iterations: SECURITY_CONFIG.PBKDF2_ITERATIONS };
+
+beforeAll(() => {
+    // Cheapest accepted KDF settings: the tests unlock many times
+    SECURITY_CONFIG.KDF_ALGORITHM = 'pbkdf2';
+    SECURITY_CONFIG.PBKDF2_ITERATIONS = LEGACY_PBKDF2_ITERATIONS;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+    SECURITY_CONFIG.KDF_ALGORITHM = kdf.algorithm;
+    SECURITY_CONFIG.PBKDF2_ITERATIONS = kdf.iterations;
+    jest.restoreAllMocks();
+});
+
+describe('SecureKeyManager master key replacement', () => {
+    beforeEach(async () => {
+        localStorage.clear();
+        SecureCryptoUtils.reset();
+        await SecureCryptoUtils.initialize(PASSWORD);
+        SecureKeyManager.takeRecoveryPhrase();
+    });
+
+    test('a restored recovery phrase keeps the replaced key, so older manifests still open', async () => {
+        const previousKeyId = SecureCryptoUtils.getKeyId();
+        const manifest = await sealTestManifest();
+
+        const restoredKeyId = await SecureKeyManager.importKeyFromRecoveryPhrase(RecoveryPhrase.fromKey(randomKeyMaterial()), PASSWORD);
+        await unlock(PASSWORD);
+
+        expect(SecureCryptoUtils.getKeyId()).toBe(restoredKeyId);
+        expect(SecureCryptoUtils.getKeyring()).toContainEqual(expect.objectContaining({ keyId: previousKeyId, status: 'retired' }));
+        const { metadata } = await ManifestService.openManifest(manifest);
+        expect(metadata.originalFileName).toBe('notes');
+    });
+
+    test('restoring the key that is already loaded adds nothing to the keyring', async () => {
+        const phrase = RecoveryPhrase.fromKey(randomKeyMaterial());
+        await SecureKeyManager.importKeyFromRecoveryPhrase(phrase, PASSWORD);
+        await SecureKeyManager.importKeyFromRecoveryPhrase(phrase, PASSWORD);
+        await unlock(PASSWORD);
+
+        expect(SecureCryptoUtils.getKeyring().filter(key => key.status === 'retired')).toHaveLength(1);
+    });
+
+    test('a restore with the wrong unlock password changes nothing', async () => {
+        const keyId = SecureCryptoUtils.getKeyId();
+
+        await expect(SecureKeyManager.importKeyFromRecoveryPhrase(RecoveryPhrase.fromKey(randomKeyMaterial()), 'wrong password'))
+            .rejects.toBeInstanceOf(IncorrectPasswordError);
+        await unlock(PASSWORD);
+
+        expect(SecureCryptoUtils.getKeyId()).toBe(keyId);
+    });
+
+    test('migrating a plaintext record keeps a different password-protected key', async () => {
+        const protectedKeyId = SecureCryptoUtils.getKeyId();
+        const manifest = await sealTestManifest();
+
+        const plaintextKey = randomKeyMaterial();
+        localStorage.setItem(PLAINTEXT_MASTER_RECORD, JSON.stringify({
+            encrypted: false,
+            data: bytesToHex(plaintextKey),
+            timestamp: Date.now(),
+            version: 'v1'
+        }));
+        await unlock(PASSWORD);
+
+        expect(SecureCryptoUtils.getKeyId()).toBe(await SecureKeyManager.calculateKeyId(plaintextKey));
+        expect(localStorage.getItem(PLAINTEXT_MASTER_RECORD)).toBeNull();
+        expect(SecureCryptoUtils.getKeyring()).toContainEqual(expect.objectContaining({ keyId: protectedKeyId, status: 'retired' }));
+        const { metadata } = await ManifestService.openManifest(manifest);
+        expect(metadata.originalFileName).toBe('notes');
+    });
+
+    test('a plaintext record next to a protected one is not migrated without the password', async () => {
+        localStorage.setItem(PLAINTEXT_MASTER_RECORD, JSON.stringify({ encrypted: false, data: bytesToHex(randomKeyMaterial()) }));
+
+        await expect(SecureKeyManager.loadWorkingKey()).rejects.toThrow('Password required');
+        expect(localStorage.getItem(PLAINTEXT_MASTER_RECORD)).not.toBeNull();
+    });
+});
+
+describe('SecureKeyManager keyring', () => {
+    beforeEach(async () => {
+        localStorage.clear();
+        await unlock(PASSWORD);
+        SecureKeyManager.takeRecoveryPhrase();
+    });
+
+    test('retiring a key checks the password before changing the keyring', async () => {
+        const keyId = await SecureKeyManager.createKey('team', PASSWORD);
+
+        await expect(SecureKeyManager.retireKey(keyId, 'wrong password')).rejects.toBeInstanceOf(IncorrectPasswordError);
+        expect((await SecureKeyManager.getKeyring(PASSWORD)).find(key => key.keyId === keyId)?.status).toBe('active');
+
+        await SecureKeyManager.retireKey(keyId, PASSWORD);
+        expect((await SecureKeyManager.getKeyring(PASSWORD)).find(key => key.keyId === keyId)?.status).toBe('retired');
+    });
+});
+
+describe('SecureKeyManager keystore check', () => {
+    const ENCRYPTED_MASTER_RECORD = 'secure_file_splitter_master_key_encrypted_v1';
+    let backup: Map<string, string>;
+
+    // jsdom has no IndexedDB: keep the backup copies in memory
+    function useBackupStore(available: boolean = true): void {
+        const unavailable = () => Promise.reject(new Error('IndexedDB is not available'));
+        jest.spyOn(SecureKeyManager as any, 'storeInIndexedDB').mockImplementation((key, data) =>
+            available ? Promise.resolve(void backup.set(key as string, data as string)) : unavailable());
+        jest.spyOn(SecureKeyManager as any, 'getDataFromIndexedDB').mockImplementation(key =>
+            available ? Promise.resolve(backup.get(key as string) ?? null) : unavailable());
+        jest.spyOn(SecureKeyManager as any, 'deleteFromIndexedDB').mockImplementation(key =>
+            available ? Promise.resolve(void backup.delete(key as string)) : unavailable());
+    }
+
+    beforeEach(async () => {
+        localStorage.clear();
+        backup = new Map();
+        useBackupStore();
+        await unlock(PASSWORD);
+        SecureKeyManager.takeRecoveryPhrase();
+    });
+
+    test('a fresh keystore is healthy', async () => {
+        const report = await SecureKeyManager.checkKeystore();
+        expect(report.findings).toEqual([]);
+        expect(report.healthy).toBe(true);
+    });
+
+    test('a record left only in the backup is restored to localStorage', async () => {
+        const record = localStorage.getItem(ENCRYPTED_MASTER_RECORD);
+        localStorage.removeItem(ENCRYPTED_MASTER_RECORD);
+
+        expect((await SecureKeyManager.checkKeystore()).findings)
+            .toEqual([expect.objectContaining({ record: ENCRYPTED_MASTER_RECORD, issue: 'missing-copy' })]);
+
+        const report = await SecureKeyManager.repairKeystore();
+        expect(report.healthy).toBe(true);
+        expect(localStorage.getItem(ENCRYPTED_MASTER_RECORD)).toBe(record);
+    });
+
+    test('with the password, a newer copy that does not open with it is not chosen', async () => {
+        const record = localStorage.getItem(ENCRYPTED_MASTER_RECORD)!;
+        const parsed = JSON.parse(record);
+        const damaged = { ...parsed, data: parsed.data.slice(0, -2) + (parsed.data.endsWith('00') ? '01' : '00'), timestamp: parsed.timestamp + 1000 };
+        backup.set(ENCRYPTED_MASTER_RECORD, JSON.stringify(damaged));
+
+        expect((await SecureKeyManager.checkKeystore()).findings)
+            .toEqual([expect.objectContaining({ record: ENCRYPTED_MASTER_RECORD, issue: 'stale' })]);
+
+        const report = await SecureKeyManager.repairKeystore(PASSWORD);
+        expect(report.healthy).toBe(true);
+        expect(localStorage.getItem(ENCRYPTED_MASTER_RECORD)).toBe(record);
+        expect(backup.get(ENCRYPTED_MASTER_RECORD)).toBe(record);
+        await unlock(PASSWORD);
+    });
+
+    test('an unavailable backup store is reported and cannot be repaired', async () => {
+        useBackupStore(false);
+
+        const report = await SecureKeyManager.repairKeystore(PASSWORD);
+        expect(report.findings).toEqual([expect.objectContaining({ issue: 'backup-unavailable', repaired: false })]);
+        expect(report.healthy).toBe(false);
+    });
+});
+
+describe('SecureKeyManager password change', () => {
+    const NEW_PASSWORD = 'purple elephant tap dances at noon';
+    const ENCRYPTED_MASTER_RECORD = 'secure_file_splitter_master_key_encrypted_v1';
+
+    beforeEach(async () => {
+        localStorage.clear();
+        await unlock(PASSWORD);
+        SecureKeyManager.takeRecoveryPhrase();
+    });
+
+    test('after a password change the keys unlock with the new password only', async () => {
+        const keyId = await SecureKeyManager.createKey('team', PASSWORD);
+        const masterKeyId = SecureCryptoUtils.getKeyId();
+
+        await SecureKeyManager.changePassword(PASSWORD, NEW_PASSWORD);
+
+        await expect(unlock(PASSWORD)).rejects.toBeInstanceOf(IncorrectPasswordError);
+        await unlock(NEW_PASSWORD);
+        expect(SecureCryptoUtils.getKeyId()).toBe(masterKeyId);
+        expect((await SecureKeyManager.getKeyring(NEW_PASSWORD)).map(key => key.keyId)).toContain(keyId);
+    });
+
+    test('a write that fails part-way leaves every record on the old password', async () => {
+        const keyId = await SecureKeyManager.createKey('team', PASSWORD);
+        const before = { ...localStorage };
+        expect(Object.keys(before)).toContain(ENCRYPTED_MASTER_RECORD);
+        const setItem = Storage.prototype.setItem;
+        jest.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+            if (key === ENCRYPTED_MASTER_RECORD) {
+                throw new DOMException('The quota has been exceeded', 'QuotaExceededError');
+            }
+            setItem.call(this, key, value);
+        });
+
+        await expect(SecureKeyManager.changePassword(PASSWORD, NEW_PASSWORD)).rejects.toThrow('quota');
+        jest.mocked(Storage.prototype.setItem).mockRestore();
+
+        expect({ ...localStorage }).toEqual(before);
+        await unlock(PASSWORD);
+        expect((await SecureKeyManager.getKeyring(PASSWORD)).map(key => key.keyId)).toContain(keyId);
+    });
+});
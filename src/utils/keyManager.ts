@@ -1,8 +1,70 @@
 // keyManager.ts - Secure key management system
+import { SECURITY_CONFIG } from '../config';
+import { bytesToHex, hexToBytes } from './encoding';
+import { DamagedBundleError, IncorrectPasswordError } from './errors';
+import { KdfParams, PasswordKdf } from './passwordKdf';
+import { RecipientCrypto } from './recipientCrypto';
+import { RecoveryPhrase } from './recoveryPhrase';
+import { SecretShare, ShamirSecretSharing } from './shamir';
+import { SigningCrypto } from './signingCrypto';
+import { WorkingKey, WorkingKeyStore } from './workingKeyStore';
+
+// A passphrase-wrapped file key: 12-byte IV + 32-byte AES key + 16-byte GCM tag
+const WRAPPED_FILE_KEY_LENGTH = 60;
+
+// A named key kept in the keyring next to the master key (e.g. "team", "archive").
+// Retired keys are never used for new uploads; they stay so older chunk sets can still be decrypted.
+export interface KeyringEntry {
+    keyId: string;
+    label: string;
+    status: 'active' | 'retired';
+    createdAt: number;
+    retiredAt?: number;
+    data: string;          // Key material wrapped with the unlock password (IV + ciphertext, hex)
+    kdf: KdfParams;
+}
+
+export type KeystoreIssue =
+    | 'backup-unavailable'   // IndexedDB can't be opened, so nothing is backed up
+    | 'missing-copy'         // Record only in localStorage or only in IndexedDB
+    | 'stale'                // Both copies exist, one is older
+    | 'divergent'            // Both copies exist and differ without one being newer
+    | 'unreadable'           // A copy is not valid JSON
+    | 'duplicate-master'     // Plaintext and password-protected master key records at once
+    | 'stale-working-key';   // Hardened keystore holds another key than the protected record
+
+export interface KeystoreFinding {
+    record: string;          // Storage key the finding is about
+    issue: KeystoreIssue;
+    detail: string;
+    repaired?: boolean;      // Set by repairKeystore()
+}
+
+export interface KeystoreReport {
+    checkedAt: number;
+    findings: KeystoreFinding[];
+    healthy: boolean;
+}
+
+export interface UnlockedKey {
+    keyId: string;
+    label: string;
+    status: 'active' | 'retired';
+    keyMaterial: Uint8Array;
+}
+
 export class SecureKeyManager {
     private static readonly STORAGE_PREFIX = 'secure_file_splitter_';
     private static readonly MASTER_KEY_ID = 'master_key';
+    private static readonly KEYRING_ID = 'keyring';
+    private static readonly IDENTITY_ID = 'identity';
+    private static readonly SIGNING_ID = 'signing_key';
     private static readonly KEY_VERSION = 'v1';
+    private static readonly SHARE_PREFIX = 'sfs-share-v1';
+    static readonly MASTER_KEY_LABEL = 'personal';
+
+    // Recovery phrase of a freshly generated master key, until the UI has shown it once
+    private static pendingRecoveryPhrase: string | null = null;
 
     // Generate a new master key and store it securely
     static async generateAndStoreMasterKey(password?: string): Promise<string> {
@@ -29,7 +91,9 @@ export class SecureKeyManager {
                 storageKey = `${this.STORAGE_PREFIX}${this.MASTER_KEY_ID}_encrypted_${this.KEY_VERSION}`;
                 keyData = JSON.stringify({
                     encrypted: true,
-                    data: encryptedKey,
+                    keyId: await this.calculateKeyId(keyMaterial),
+                    data: encryptedKey.data,
+                    kdf: encryptedKey.kdf,
                     timestamp: Date.now(),
                     version: this.KEY_VERSION
                 });
@@ -49,6 +113,9 @@ export class SecureKeyManager {
             localStorage.setItem(storageKey, keyData);
             console.log('✅ Master key stored in localStorage');
 
+            // Kept only in memory until takeRecoveryPhrase() hands it to the UI
+            this.pendingRecoveryPhrase = RecoveryPhrase.fromKey(keyMaterial);
+
             // Try to create backup in IndexedDB (secondary storage - don't fail if this fails)
             try {
                 await this.storeInIndexedDB(storageKey, keyData);
@@ -78,6 +145,10 @@ export class SecureKeyManager {
                 keyData = await this.getFromIndexedDB(password);
             }
 
+            if (!keyData && SECURITY_CONFIG.HARDENED_KEYSTORE && await WorkingKeyStore.get().catch(() => null)) {
+                throw new Error('The master key is non-extractable and has no password-protected copy, so it cannot be exported');
+            }
+
             if (!keyData) {
                 throw new Error('No master key found. Please generate a new one.');
             }
@@ -112,6 +183,15 @@ export class SecureKeyManager {
             console.warn('Could not check IndexedDB:', error);
         }
 
+        // Hardened keystore without a password-protected copy
+        if (SECURITY_CONFIG.HARDENED_KEYSTORE) {
+            try {
+                if (await WorkingKeyStore.get()) return true;
+            } catch (error) {
+                console.warn('Could not check the hardened keystore:', error);
+            }
+        }
+
         return false;
     }
 
@@ -127,6 +207,7 @@ export class SecureKeyManager {
         // Clear IndexedDB
         try {
             await this.clearIndexedDB();
+            await WorkingKeyStore.clear();
         } catch (error) {
             console.warn('Could not clear IndexedDB:', error);
         }
@@ -134,56 +215,1037 @@ export class SecureKeyManager {
         console.log('🗑️ All stored keys cleared');
     }
 
-    // Export key for backup (encrypted with password)
+    // On lock: a password-protected keystore keeps no unlocked keys in IndexedDB (the passwordless
+    // one has nothing else, so its keys stay)
+    static async forgetWorkingKey(): Promise<void> {
+        if (!await this.readRecord(this.encryptedMasterStorageKey())) return;
+        try {
+            await WorkingKeyStore.clear();
+        } catch (error) {
+            console.warn('Could not clear the hardened keystore:', error);
+        }
+    }
+
+    // Export key for backup (encrypted with the unlock password). Together with the other explicit
+    // backup flows (shares, key export) this is the only way key material leaves a hardened keystore.
     static async exportKeyForBackup(password: string): Promise<string> {
-        const masterKey = await this.getMasterKey();
+        const masterKey = await this.getMasterKey(password);
         const encryptedBackup = await this.encryptKeyWithPassword(masterKey, password);
 
         const backupData = {
             version: this.KEY_VERSION,
             timestamp: Date.now(),
-            data: encryptedBackup,
+            data: encryptedBackup.data,
+            kdf: encryptedBackup.kdf,
             checksum: await this.calculateChecksum(masterKey)
         };
 
         return btoa(JSON.stringify(backupData));
     }
 
-    // Import key from backup
-    static async importKeyFromBackup(backupString: string, password: string): Promise<void> {
+    // Import key from backup. `unlockPassword` protects the imported key from then on
+    // (required by the hardened keystore, which never stores a key in plaintext).
+    static async importKeyFromBackup(backupString: string, password: string, unlockPassword?: string): Promise<void> {
+        let decryptedKey: Uint8Array;
         try {
             const backupData = JSON.parse(atob(backupString));
-            const decryptedKey = await this.decryptKeyWithPassword(backupData.data, password);
+            decryptedKey = await this.decryptKeyWithPassword(backupData.data, password, backupData.kdf);
 
             // Verify checksum
             const checksum = await this.calculateChecksum(decryptedKey);
             if (checksum !== backupData.checksum) {
                 throw new Error('Backup verification failed - corrupted data or wrong password');
             }
+        } catch (error) {
+            console.error('❌ Failed to import key from backup:', error);
+            if (error instanceof IncorrectPasswordError) {
+                throw error;
+            }
+            throw new Error('Failed to import key - check your backup string and password');
+        }
 
-            // Store the imported key
-            const hexKey = Array.from(decryptedKey).map(b => b.toString(16).padStart(2, '0')).join('');
-            const storageKey = `${this.STORAGE_PREFIX}${this.MASTER_KEY_ID}_${this.KEY_VERSION}`;
-            const keyData = JSON.stringify({
-                encrypted: false,
-                data: hexKey,
-                timestamp: Date.now(),
-                version: this.KEY_VERSION,
-                imported: true
+        await this.storeImportedMasterKey(decryptedKey, unlockPassword);
+        console.log('✅ Key imported successfully from backup');
+    }
+
+    // Hardened keystore: load the master key as non-extractable CryptoKeys, so its raw bytes never
+    // reach JS after setup. With a password the wrapped record is unwrapped straight into them (which
+    // also checks the password); only a passwordless keystore keeps the keys persisted in IndexedDB.
+    // Plaintext records written by older versions are migrated and removed; a missing key is generated.
+    static async loadWorkingKey(password?: string): Promise<WorkingKey> {
+        const plaintext = await this.readRecord(this.plaintextMasterStorageKey());
+        if (plaintext) {
+            return this.migratePlaintextKey(JSON.parse(plaintext), password);
+        }
+
+        const stored = await this.readRecord(this.encryptedMasterStorageKey());
+        if (stored) {
+            if (!password) {
+                throw new Error('Password required for encrypted key');
+            }
+            return this.unwrapWorkingKey(JSON.parse(stored), password);
+        }
+
+        let persisted: WorkingKey | null = null;
+        try {
+            persisted = await WorkingKeyStore.get();
+        } catch (error) {
+            console.warn('Could not read the hardened keystore:', error);
+        }
+        if (persisted) {
+            console.log(`🔒 Master key ${persisted.keyId} loaded from the hardened keystore`);
+            return persisted;
+        }
+
+        console.log('🔑 No master key found, generating new one...');
+        const keyMaterial = crypto.getRandomValues(new Uint8Array(32));
+        try {
+            if (password) {
+                await this.saveRecord(this.encryptedMasterStorageKey(), await this.encryptedMasterRecord(keyMaterial, password));
+            }
+            // Kept only in memory until takeRecoveryPhrase() hands it to the UI
+            this.pendingRecoveryPhrase = RecoveryPhrase.fromKey(keyMaterial);
+
+            const workingKey = await this.importWorkingKey(keyMaterial);
+            if (!password && !await this.persistWorkingKey(workingKey)) {
+                throw new Error('The hardened keystore is unavailable and there is no password to protect a stored copy');
+            }
+            console.log('✅ Master key generated into the hardened keystore');
+            return workingKey;
+        } finally {
+            keyMaterial.fill(0);
+        }
+    }
+
+    // The recovery phrase of the master key generated in this session - returned once, then forgotten
+    static takeRecoveryPhrase(): string | null {
+        const phrase = this.pendingRecoveryPhrase;
+        this.pendingRecoveryPhrase = null;
+        return phrase;
+    }
+
+    // Restore the master key from its 24-word recovery phrase, protected with `password`.
+    // Returns the restored key ID.
+    static async importKeyFromRecoveryPhrase(phrase: string, password?: string): Promise<string> {
+        const keyMaterial = RecoveryPhrase.toKey(phrase);
+        const keyId = await this.calculateKeyId(keyMaterial);
+
+        await this.storeImportedMasterKey(keyMaterial, password);
+        keyMaterial.fill(0);
+
+        console.log(`✅ Master key ${keyId} restored from recovery phrase`);
+        return keyId;
+    }
+
+    // Split the master key into `shareCount` text shares, any `threshold` of which restore it.
+    // Each share reveals nothing about the key on its own, so they can go to different people.
+    static async exportKeyShares(password: string, shareCount: number, threshold: number): Promise<string[]> {
+        const masterKey = await this.getMasterKey(password);
+        const keyId = await this.calculateKeyId(masterKey);
+        const shares = ShamirSecretSharing.split(masterKey, shareCount, threshold);
+
+        const texts: string[] = [];
+        for (const share of shares) {
+            const body = [this.SHARE_PREFIX, keyId, share.threshold, share.index, shareCount, bytesToHex(share.data)].join(':');
+            texts.push(`${body}:${await this.shareChecksum(body)}`);
+        }
+
+        console.log(`🧩 Master key ${keyId} split into ${shareCount} shares (threshold ${threshold})`);
+        return texts;
+    }
+
+    // Rebuild the master key from any `threshold` shares and store it like an imported backup.
+    // Returns the restored key ID.
+    static async importKeyFromShares(shareTexts: string[], password?: string): Promise<string> {
+        const parsed = [];
+        for (const text of shareTexts.map(t => t.trim()).filter(t => t.length > 0)) {
+            parsed.push(await this.parseShare(text));
+        }
+        if (parsed.length === 0) {
+            throw new Error('No shares given');
+        }
+
+        const keyId = parsed[0].keyId;
+        if (parsed.some(share => share.keyId !== keyId)) {
+            throw new Error('Shares belong to different keys');
+        }
+
+        const keyMaterial = ShamirSecretSharing.combine(parsed.map(share => share.share));
+        if (await this.calculateKeyId(keyMaterial) !== keyId) {
+            throw new Error('Shares do not combine to the expected key - one of them is from another split');
+        }
+
+        await this.storeImportedMasterKey(keyMaterial, password);
+        keyMaterial.fill(0);
+
+        console.log(`✅ Master key ${keyId} restored from ${parsed.length} shares`);
+        return keyId;
+    }
+
+    // Key ID: first 8 bytes of the SHA-256 fingerprint of the raw key, as hex
+    static async calculateKeyId(keyMaterial: Uint8Array): Promise<string> {
+        return (await this.calculateChecksum(keyMaterial)).substring(0, 16);
+    }
+
+    // Change the unlock password. Only the stored wrappings change - the master key and
+    // keyring keys stay the same, so every existing chunk set keeps working.
+    static async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+        const { storageKey, keyInfo, keyMaterial: masterKey } = await this.unlockMasterRecord(currentPassword);
+
+        const entries = this.readKeyringEntries(await this.readRecord(this.keyringStorageKey()));
+        for (let i = 0; i < entries.length; i++) {
+            const keyMaterial = await this.unwrapWithPassword(entries[i].data, currentPassword, entries[i].kdf);
+            entries[i] = { ...entries[i], ...await this.encryptKeyWithPassword(keyMaterial, newPassword) };
+        }
+
+        // Key pair records (identity, signing key)
+        const keyPairs: { storageKey: string; data: string }[] = [];
+        for (const keyPairStorageKey of [this.identityStorageKey(), this.signingStorageKey()]) {
+            const stored = await this.readRecord(keyPairStorageKey);
+            if (!stored) continue;
+
+            const keyPairInfo = JSON.parse(stored);
+            const privateKey = await this.unwrapWithPassword(keyPairInfo.data, currentPassword, keyPairInfo.kdf);
+            keyPairs.push({
+                storageKey: keyPairStorageKey,
+                data: JSON.stringify({ ...keyPairInfo, ...await this.encryptKeyWithPassword(privateKey, newPassword) })
             });
+        }
 
-            localStorage.setItem(storageKey, keyData);
-            await this.storeInIndexedDB(storageKey, keyData);
+        // Everything is unwrapped before the first write, so a wrong password changes nothing
+        const rewrapped = await this.encryptKeyWithPassword(masterKey, newPassword);
+
+        // ...and all records are written together, so a failed write can't leave some of them
+        // on the old password and some on the new one
+        await this.saveRecords([
+            ...keyPairs,
+            { storageKey: this.keyringStorageKey(), data: JSON.stringify({ version: this.KEY_VERSION, keys: entries }) },
+            {
+                storageKey,
+                data: JSON.stringify({
+                    ...keyInfo,
+                    keyId: keyInfo.keyId || await this.calculateKeyId(masterKey),
+                    data: rewrapped.data,
+                    kdf: rewrapped.kdf,
+                    passwordChangedAt: Date.now()
+                })
+            }
+        ]);
+
+        console.log(`🔑 Password changed (${entries.length + 1} keys re-wrapped)`);
+    }
+
+    // Rotate the master key: the current key moves to the keyring as retired (decryption only)
+    // and a new master key is generated for future uploads. Returns the new key ID.
+    static async rotateMasterKey(password: string): Promise<string> {
+        const { storageKey, keyInfo, keyMaterial: oldKey } = await this.unlockMasterRecord(password);
+        const oldKeyId = keyInfo.keyId || await this.calculateKeyId(oldKey);
+
+        // Keep the old key before replacing it
+        const entries = this.readKeyringEntries(await this.readRecord(this.keyringStorageKey()));
+        if (!entries.some(entry => entry.keyId === oldKeyId)) {
+            entries.push({
+                keyId: oldKeyId,
+                label: this.MASTER_KEY_LABEL,
+                status: 'retired',
+                createdAt: keyInfo.timestamp || Date.now(),
+                retiredAt: Date.now(),
+                ...await this.encryptKeyWithPassword(oldKey, password)
+            });
+            await this.saveRecord(this.keyringStorageKey(), JSON.stringify({ version: this.KEY_VERSION, keys: entries }));
+        }
+
+        const newKey = crypto.getRandomValues(new Uint8Array(32));
+        const newKeyId = await this.calculateKeyId(newKey);
+        const wrapped = await this.encryptKeyWithPassword(newKey, password);
 
-            console.log('✅ Key imported successfully from backup');
+        await this.saveRecord(storageKey, JSON.stringify({
+            encrypted: true,
+            keyId: newKeyId,
+            data: wrapped.data,
+            kdf: wrapped.kdf,
+            timestamp: Date.now(),
+            version: this.KEY_VERSION
+        }));
+
+        this.pendingRecoveryPhrase = RecoveryPhrase.fromKey(newKey);
+
+        console.log(`🔄 Master key rotated: ${oldKeyId} retired, ${newKeyId} active`);
+        return newKeyId;
+    }
 
+    // Generate a new named key (e.g. "team", "archive") usable for uploads. Returns its key ID.
+    static async createKey(label: string, password: string): Promise<string> {
+        const keyMaterial = crypto.getRandomValues(new Uint8Array(32));
+        const keyId = await this.addKeyringEntry(keyMaterial, label, password);
+        console.log(`🔑 Key "${label}" (${keyId}) added to the keyring`);
+        return keyId;
+    }
+
+    // Export one key - the master key or a keyring key - protected with its own export password,
+    // e.g. to share a team key. Same format as exportKeyForBackup, plus the key's label.
+    static async exportKey(keyId: string, password: string, exportPassword: string): Promise<string> {
+        const key = (await this.getAllKeys(password)).find(candidate => candidate.keyId === keyId);
+        if (!key) {
+            throw new Error(`Key ${keyId} is not in your keyring`);
+        }
+
+        const encryptedBackup = await this.encryptKeyWithPassword(key.keyMaterial, exportPassword);
+        return btoa(JSON.stringify({
+            version: this.KEY_VERSION,
+            timestamp: Date.now(),
+            label: key.label,
+            data: encryptedBackup.data,
+            kdf: encryptedBackup.kdf,
+            checksum: await this.calculateChecksum(key.keyMaterial)
+        }));
+    }
+
+    // Add a key exported from another keyring (or browser). Returns its key ID.
+    static async importKey(backupString: string, exportPassword: string, password: string, label?: string): Promise<string> {
+        let backupData: any;
+        let keyMaterial: Uint8Array;
+        try {
+            backupData = JSON.parse(atob(backupString.trim()));
+            keyMaterial = await this.decryptKeyWithPassword(backupData.data, exportPassword, backupData.kdf);
         } catch (error) {
-            console.error('❌ Failed to import key from backup:', error);
-            throw new Error('Failed to import key - check your backup string and password');
+            if (error instanceof IncorrectPasswordError) {
+                throw new IncorrectPasswordError('Incorrect export password');
+            }
+            throw new Error('Failed to import key - check the key backup and its password');
         }
+
+        if (await this.calculateChecksum(keyMaterial) !== backupData.checksum) {
+            throw new Error('Key verification failed - corrupted data or wrong password');
+        }
+
+        const keyId = await this.addKeyringEntry(keyMaterial, label || backupData.label || 'imported', password);
+        console.log(`📥 Key ${keyId} imported into the keyring`);
+        return keyId;
+    }
+
+    // Stop using a keyring key for uploads; it stays available for decryption.
+    // The unlock password is checked before the keyring is touched.
+    static async retireKey(keyId: string, password: string): Promise<void> {
+        const { keyMaterial: masterKey } = await this.unlockMasterRecord(password);
+        masterKey.fill(0);
+
+        const entries = this.readKeyringEntries(await this.readRecord(this.keyringStorageKey()));
+        const entry = entries.find(candidate => candidate.keyId === keyId);
+        if (!entry) {
+            throw new Error(`Key ${keyId} is not in the keyring (the master key is retired by rotating it)`);
+        }
+
+        entry.status = 'retired';
+        entry.retiredAt = Date.now();
+        await this.saveRecord(this.keyringStorageKey(), JSON.stringify({ version: this.KEY_VERSION, keys: entries }));
+        console.log(`🗄️ Key "${entry.label}" (${keyId}) retired`);
+    }
+
+    // Load the ECDH identity used to receive shared files, generating it on first use
+    static async getOrCreateIdentity(password: string): Promise<{ privateKey: CryptoKey; publicKey: string; recipientId: string }> {
+        const { privateKey, publicKey } = await this.getOrCreateKeyPair(
+            this.identityStorageKey(),
+            password,
+            { name: 'ECDH', namedCurve: 'P-256' },
+            ['deriveBits'],
+            async () => {
+                const keyPair = await RecipientCrypto.generateIdentity();
+                return { keyPair, publicKey: await RecipientCrypto.exportPublicKey(keyPair.publicKey) };
+            }
+        );
+        const { recipientId } = await RecipientCrypto.importPublicKey(publicKey);
+        return { privateKey, publicKey, recipientId };
+    }
+
+    // Load the ECDSA key used to sign manifests, generating it on first use
+    static async getOrCreateSigningKey(password: string): Promise<{ privateKey: CryptoKey; publicKey: string; signerId: string }> {
+        const { privateKey, publicKey } = await this.getOrCreateKeyPair(
+            this.signingStorageKey(),
+            password,
+            { name: 'ECDSA', namedCurve: 'P-256' },
+            ['sign'],
+            async () => {
+                const keyPair = await SigningCrypto.generateKeyPair();
+                return { keyPair, publicKey: await SigningCrypto.exportPublicKey(keyPair.publicKey) };
+            }
+        );
+        const { signerId } = await SigningCrypto.importPublicKey(publicKey);
+        return { privateKey, publicKey, signerId };
+    }
+
+    // Wrap a file key with a one-time passphrase for a share bundle, the same way stored keys are wrapped
+    static async wrapWithPassphrase(fileKey: CryptoKey, passphrase: string): Promise<{ data: string; kdf: KdfParams }> {
+        const keyMaterial = new Uint8Array(await crypto.subtle.exportKey('raw', fileKey));
+        try {
+            return await this.encryptKeyWithPassword(keyMaterial, passphrase);
+        } finally {
+            keyMaterial.fill(0);
+        }
+    }
+
+    // The wrapped key and its KDF parameters come from whoever made the bundle, so they are
+    // checked before anything is derived; only a failed tag means a wrong passphrase
+    static async unwrapWithPassphrase(data: string, passphrase: string, kdf: KdfParams): Promise<CryptoKey> {
+        try {
+            PasswordKdf.validateParams(kdf);
+            if (hexToBytes(data).length !== WRAPPED_FILE_KEY_LENGTH) {
+                throw new Error('the wrapped key has the wrong length');
+            }
+        } catch (error: any) {
+            throw new DamagedBundleError(`This share bundle is damaged: ${error.message}`);
+        }
+
+        let keyMaterial: Uint8Array;
+        try {
+            keyMaterial = await this.decryptKeyWithPassword(data, passphrase, kdf);
+        } catch (error) {
+            if (error instanceof IncorrectPasswordError) {
+                throw new IncorrectPasswordError('Incorrect passphrase');
+            }
+            throw error;
+        }
+
+        try {
+            return await crypto.subtle.importKey('raw', keyMaterial as BufferSource, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+        } finally {
+            keyMaterial.fill(0);
+        }
+    }
+
+    // Decrypt every key in the keyring (not including the master key)
+    static async getKeyring(password: string): Promise<UnlockedKey[]> {
+        const entries = this.readKeyringEntries(await this.readRecord(this.keyringStorageKey()));
+        const keys: UnlockedKey[] = [];
+
+        for (const entry of entries) {
+            keys.push({
+                keyId: entry.keyId,
+                label: entry.label || this.MASTER_KEY_LABEL,
+                status: entry.status,
+                keyMaterial: await this.unwrapWithPassword(entry.data, password, entry.kdf)
+            });
+        }
+
+        return keys;
     }
 
     // Private helper methods
+
+    // Store a restored or imported master key: wrapped with `password` when given (replacing the
+    // current master record, whose key is kept in the keyring), otherwise as plaintext - which the
+    // hardened keystore refuses
+    private static async storeImportedMasterKey(keyMaterial: Uint8Array, password?: string): Promise<void> {
+        if (password) {
+            await this.retireCurrentMaster(keyMaterial, password, 'replaced');
+            await this.saveRecord(this.encryptedMasterStorageKey(), await this.encryptedMasterRecord(keyMaterial, password, { imported: true }));
+            await this.removeRecord(this.plaintextMasterStorageKey());
+            await this.forgetWorkingKey();
+            return;
+        }
+
+        // A plaintext record next to the protected one would silently take precedence over it
+        if (await this.readRecord(this.encryptedMasterStorageKey())) {
+            throw new Error('Your master key is password-protected - enter your password so the restored key replaces it');
+        }
+        if (SECURITY_CONFIG.HARDENED_KEYSTORE) {
+            throw new Error('A password is required to store a master key in the hardened keystore');
+        }
+        // Without a password the current key cannot be wrapped into the keyring, so it must not be overwritten
+        const current = this.parseRecord((await this.readRecord(this.plaintextMasterStorageKey())) || '');
+        if (current?.data && await this.calculateKeyId(hexToBytes(current.data)) !== await this.calculateKeyId(keyMaterial)) {
+            throw new Error('A different master key is stored - enter a password so it is kept in the keyring');
+        }
+
+        const keyData = JSON.stringify({
+            encrypted: false,
+            data: bytesToHex(keyMaterial),
+            timestamp: Date.now(),
+            version: this.KEY_VERSION,
+            imported: true
+        });
+
+        await this.saveRecord(this.plaintextMasterStorageKey(), keyData);
+    }
+
+    // Health check of every stored key record: compares each localStorage record with its IndexedDB
+    // backup and looks for records that contradict each other. Nothing is changed.
+    static async checkKeystore(): Promise<KeystoreReport> {
+        const findings: KeystoreFinding[] = [];
+        let backupAvailable = true;
+
+        for (const storageKey of this.keystoreRecordKeys()) {
+            const local = localStorage.getItem(storageKey);
+            let backup: string | null = null;
+            if (backupAvailable) {
+                try {
+                    backup = await this.getDataFromIndexedDB(storageKey);
+                } catch (error) {
+                    backupAvailable = false;
+                    findings.push({
+                        record: 'IndexedDB',
+                        issue: 'backup-unavailable',
+                        detail: 'The IndexedDB backup store cannot be opened - key records only exist in localStorage'
+                    });
+                }
+            }
+
+            const finding = this.compareCopies(storageKey, local, backup, backupAvailable);
+            if (finding) findings.push(finding);
+        }
+
+        const plaintext = await this.readRecord(this.plaintextMasterStorageKey());
+        const encrypted = await this.readRecord(this.encryptedMasterStorageKey());
+        if (plaintext && encrypted) {
+            findings.push({
+                record: this.plaintextMasterStorageKey(),
+                issue: 'duplicate-master',
+                detail: 'A plaintext master key is stored next to the password-protected one and takes precedence over it'
+            });
+        }
+
+        if (SECURITY_CONFIG.HARDENED_KEYSTORE && encrypted) {
+            try {
+                const workingKey = await WorkingKeyStore.get();
+                const keyId = this.parseRecord(encrypted)?.keyId;
+                if (workingKey && keyId && workingKey.keyId !== keyId) {
+                    findings.push({
+                        record: 'hardened keystore',
+                        issue: 'stale-working-key',
+                        detail: `The hardened keystore holds key ${workingKey.keyId}, the protected record holds ${keyId}`
+                    });
+                }
+            } catch (error) {
+                console.warn('Could not read the hardened keystore:', error);
+            }
+        }
+
+        const report: KeystoreReport = { checkedAt: Date.now(), findings, healthy: findings.length === 0 };
+        console.log(report.healthy ? '🩺 Keystore is healthy' : `🩺 Keystore check found ${findings.length} problem(s)`);
+        return report;
+    }
+
+    // Repair what checkKeystore() finds: every record is reduced to one canonical copy, written to
+    // both stores. With the unlock password, copies that don't open with it are never chosen, and a
+    // plaintext master key is wrapped and removed (the protected key stays in the keyring if it differs).
+    static async repairKeystore(password?: string): Promise<KeystoreReport> {
+        const report = await this.checkKeystore();
+
+        for (const finding of report.findings) {
+            try {
+                finding.repaired = await this.repairFinding(finding, password);
+            } catch (error) {
+                finding.repaired = false;
+                finding.detail += ` (repair failed: ${error instanceof Error ? error.message : String(error)})`;
+            }
+        }
+
+        report.healthy = report.findings.every(finding => finding.repaired);
+        console.log(`🩺 Keystore repair: ${report.findings.filter(finding => finding.repaired).length}/${report.findings.length} fixed`);
+        return report;
+    }
+
+    // Plaintext record from an older version: import it as non-extractable keys, keep a copy wrapped
+    // with the password (if there is one), then delete the plaintext. A different key in an existing
+    // protected record is kept in the keyring, as the keystore repair does.
+    private static async migratePlaintextKey(keyInfo: { data: string }, password?: string): Promise<WorkingKey> {
+        if (!password && await this.readRecord(this.encryptedMasterStorageKey())) {
+            throw new Error('Password required for encrypted key');
+        }
+
+        const keyMaterial = hexToBytes(keyInfo.data);
+        try {
+            if (password) {
+                await this.retireCurrentMaster(keyMaterial, password, 'recovered');
+                await this.saveRecord(this.encryptedMasterStorageKey(), await this.encryptedMasterRecord(keyMaterial, password));
+            }
+
+            const workingKey = await this.importWorkingKey(keyMaterial);
+            const persisted = !password && await this.persistWorkingKey(workingKey);
+            if (password || persisted) {
+                await this.removeRecord(this.plaintextMasterStorageKey());
+                console.log(`🔒 Plaintext master key ${workingKey.keyId} migrated to the hardened keystore` +
+                    (password ? '' : ' - without a password it can no longer be exported'));
+            }
+            return workingKey;
+        } finally {
+            keyMaterial.fill(0);
+        }
+    }
+
+    // Unwrap the password-protected master record directly into non-extractable keys. Records
+    // without a key ID or with a weak KDF are decrypted once to be brought up to date.
+    private static async unwrapWorkingKey(keyInfo: any, password: string): Promise<WorkingKey> {
+        if (!keyInfo.keyId || PasswordKdf.needsUpgrade(keyInfo.kdf)) {
+            const keyMaterial = await this.unwrapWithPassword(keyInfo.data, password, keyInfo.kdf);
+            try {
+                const keyId = keyInfo.keyId || await this.calculateKeyId(keyMaterial);
+                await this.rewrapStoredKey(this.encryptedMasterStorageKey(), { ...keyInfo, keyId }, keyMaterial, password);
+                return await this.importWorkingKey(keyMaterial);
+            } finally {
+                keyMaterial.fill(0);
+            }
+        }
+
+        const wrappingKey = await PasswordKdf.deriveKey(password, keyInfo.kdf, ['unwrapKey']);
+        const wrapped = hexToBytes(keyInfo.data);
+        const unwrapParams: AesGcmParams = { name: 'AES-GCM', iv: wrapped.slice(0, 12) };
+        const ciphertext = wrapped.slice(12);
+
+        try {
+            const encryptionKey = await crypto.subtle.unwrapKey(
+                'raw', ciphertext, wrappingKey, unwrapParams, 'AES-GCM', false, ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+            );
+            const derivationKey = await crypto.subtle.unwrapKey(
+                'raw', ciphertext, wrappingKey, unwrapParams, 'HKDF', false, ['deriveKey', 'deriveBits']
+            );
+            return { keyId: keyInfo.keyId, encryptionKey, derivationKey, storedAt: Date.now() };
+        } catch (error) {
+            throw new IncorrectPasswordError();
+        }
+    }
+
+    private static async importWorkingKey(keyMaterial: Uint8Array): Promise<WorkingKey> {
+        return {
+            keyId: await this.calculateKeyId(keyMaterial),
+            encryptionKey: await crypto.subtle.importKey(
+                'raw', keyMaterial as BufferSource, 'AES-GCM', false, ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+            ),
+            derivationKey: await crypto.subtle.importKey('raw', keyMaterial as BufferSource, 'HKDF', false, ['deriveKey', 'deriveBits']),
+            storedAt: Date.now()
+        };
+    }
+
+    // Best effort: the password-protected record stays the source of truth when there is one
+    private static async persistWorkingKey(workingKey: WorkingKey): Promise<boolean> {
+        try {
+            await WorkingKeyStore.put(workingKey);
+            return true;
+        } catch (error) {
+            console.warn('⚠️ Could not persist the master key in the hardened keystore:', error);
+            return false;
+        }
+    }
+
+    private static async encryptedMasterRecord(keyMaterial: Uint8Array, password: string, extra: object = {}): Promise<string> {
+        const encryptedKey = await this.encryptKeyWithPassword(keyMaterial, password);
+        return JSON.stringify({
+            encrypted: true,
+            keyId: await this.calculateKeyId(keyMaterial),
+            data: encryptedKey.data,
+            kdf: encryptedKey.kdf,
+            timestamp: Date.now(),
+            version: this.KEY_VERSION,
+            ...extra
+        });
+    }
+
+    private static keystoreRecordKeys(): string[] {
+        return [
+            this.plaintextMasterStorageKey(),
+            this.encryptedMasterStorageKey(),
+            this.keyringStorageKey(),
+            this.identityStorageKey(),
+            this.signingStorageKey()
+        ];
+    }
+
+    private static compareCopies(storageKey: string, local: string | null, backup: string | null, backupAvailable: boolean): KeystoreFinding | null {
+        if (!local && !backup) {
+            return null;
+        }
+
+        const unreadable = [local && !this.parseRecord(local) ? 'localStorage' : null, backup && !this.parseRecord(backup) ? 'IndexedDB' : null]
+            .filter(Boolean);
+        if (unreadable.length > 0) {
+            return { record: storageKey, issue: 'unreadable', detail: `The ${unreadable.join(' and ')} copy is not a valid record` };
+        }
+        if (!backup) {
+            return backupAvailable
+                ? { record: storageKey, issue: 'missing-copy', detail: 'Not backed up in IndexedDB' }
+                : null;
+        }
+        if (!local) {
+            return { record: storageKey, issue: 'missing-copy', detail: 'Missing from localStorage - only the IndexedDB backup is left' };
+        }
+        if (local === backup) {
+            return null;
+        }
+
+        const localTime = this.recordTimestamp(local);
+        const backupTime = this.recordTimestamp(backup);
+        if (localTime !== backupTime) {
+            return {
+                record: storageKey,
+                issue: 'stale',
+                detail: localTime > backupTime ? 'The IndexedDB backup is older than localStorage' : 'localStorage is older than the IndexedDB backup'
+            };
+        }
+        return { record: storageKey, issue: 'divergent', detail: 'localStorage and the IndexedDB backup differ' };
+    }
+
+    private static async repairFinding(finding: KeystoreFinding, password?: string): Promise<boolean> {
+        switch (finding.issue) {
+            case 'backup-unavailable':
+                return false;
+            case 'missing-copy':
+            case 'stale':
+            case 'divergent':
+            case 'unreadable': {
+                const canonical = await this.canonicalCopy(finding.record, password);
+                localStorage.setItem(finding.record, canonical);
+                await this.storeInIndexedDB(finding.record, canonical);
+                return true;
+            }
+            case 'duplicate-master':
+                if (!password) {
+                    finding.detail += ' - enter your password to repair it';
+                    return false;
+                }
+                await this.mergeDuplicateMaster(password);
+                return true;
+            case 'stale-working-key':
+                // Persisted again from the protected record on the next unlock
+                await WorkingKeyStore.clear();
+                return true;
+        }
+    }
+
+    // The copy to keep: keyrings are merged; otherwise the newest readable copy that opens with the
+    // password (when given), localStorage first on a tie - the same precedence as readRecord()
+    private static async canonicalCopy(storageKey: string, password?: string): Promise<string> {
+        const local = localStorage.getItem(storageKey);
+        let backup: string | null = null;
+        try {
+            backup = await this.getDataFromIndexedDB(storageKey);
+        } catch (error) {
+            console.warn('Could not read IndexedDB:', error);
+        }
+
+        const copies = [local, backup].filter((copy): copy is string => !!copy && !!this.parseRecord(copy));
+        if (copies.length === 0) {
+            throw new Error('No readable copy is left');
+        }
+
+        if (storageKey === this.keyringStorageKey()) {
+            return this.mergeKeyrings(copies);
+        }
+
+        const ordered = copies.sort((a, b) => this.recordTimestamp(b) - this.recordTimestamp(a));
+        if (!password) {
+            return ordered[0];
+        }
+        for (const copy of ordered) {
+            const record = this.parseRecord(copy);
+            if (!record.encrypted && storageKey === this.plaintextMasterStorageKey()) {
+                return copy;
+            }
+            try {
+                (await this.decryptKeyWithPassword(record.data, password, record.kdf)).fill(0);
+                return copy;
+            } catch (error) {
+                console.warn(`🩺 A copy of ${storageKey} does not open with this password, skipping it`);
+            }
+        }
+        throw new IncorrectPasswordError('No copy of this record opens with your password');
+    }
+
+    // Union of the keyring entries; a retired entry wins over an active one (retiring is final)
+    private static mergeKeyrings(copies: string[]): string {
+        const merged = new Map<string, KeyringEntry>();
+        for (const copy of copies) {
+            for (const entry of this.readKeyringEntries(copy)) {
+                const existing = merged.get(entry.keyId);
+                if (!existing || (existing.status === 'active' && entry.status === 'retired')) {
+                    merged.set(entry.keyId, entry);
+                }
+            }
+        }
+        return JSON.stringify({ version: this.KEY_VERSION, keys: Array.from(merged.values()) });
+    }
+
+    // The plaintext master key is what gets loaded, so it becomes the protected record; a different
+    // key in the old protected record is kept as a retired keyring key, so its files stay readable
+    private static async mergeDuplicateMaster(password: string): Promise<void> {
+        const plaintext = this.parseRecord((await this.readRecord(this.plaintextMasterStorageKey()))!);
+        const keyMaterial = hexToBytes(plaintext.data);
+
+        try {
+            await this.retireCurrentMaster(keyMaterial, password, 'recovered');
+            await this.saveRecord(this.encryptedMasterStorageKey(), await this.encryptedMasterRecord(keyMaterial, password));
+            await this.removeRecord(this.plaintextMasterStorageKey());
+            await this.forgetWorkingKey();
+        } finally {
+            keyMaterial.fill(0);
+        }
+    }
+
+    // Before `keyMaterial` replaces the master records: every other key they hold (protected or
+    // plaintext) is added to the keyring as retired, so files sealed with it stay readable. Unwrapping
+    // the protected record also checks the password.
+    private static async retireCurrentMaster(keyMaterial: Uint8Array, password: string, labelPrefix: string): Promise<void> {
+        const keyId = await this.calculateKeyId(keyMaterial);
+        const previousKeys: { key: Uint8Array; createdAt?: number }[] = [];
+        try {
+            const encrypted = this.parseRecord((await this.readRecord(this.encryptedMasterStorageKey())) || '');
+            if (encrypted) {
+                previousKeys.push({ key: await this.unwrapWithPassword(encrypted.data, password, encrypted.kdf), createdAt: encrypted.timestamp });
+            }
+            const plaintext = this.parseRecord((await this.readRecord(this.plaintextMasterStorageKey())) || '');
+            if (plaintext?.data) {
+                previousKeys.push({ key: hexToBytes(plaintext.data), createdAt: plaintext.timestamp });
+            }
+
+            const entries = this.readKeyringEntries(await this.readRecord(this.keyringStorageKey()));
+            let changed = false;
+            for (const previous of previousKeys) {
+                const previousKeyId = await this.calculateKeyId(previous.key);
+                if (previousKeyId === keyId || entries.some(entry => entry.keyId === previousKeyId)) continue;
+                entries.push({
+                    keyId: previousKeyId,
+                    label: `${labelPrefix} ${previousKeyId.substring(0, 6)}`,
+                    status: 'retired',
+                    createdAt: previous.createdAt || Date.now(),
+                    retiredAt: Date.now(),
+                    ...await this.encryptKeyWithPassword(previous.key, password)
+                });
+                changed = true;
+                console.log(`🗄️ Previous master key ${previousKeyId} kept in the keyring (retired)`);
+            }
+            if (changed) {
+                await this.saveRecord(this.keyringStorageKey(), JSON.stringify({ version: this.KEY_VERSION, keys: entries }));
+            }
+        } finally {
+            previousKeys.forEach(previous => previous.key.fill(0));
+        }
+    }
+
+    private static parseRecord(text: string): any | null {
+        try {
+            const record = JSON.parse(text);
+            return record && typeof record === 'object' ? record : null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    // When a record was last written (keyrings: their newest entry change)
+    private static recordTimestamp(text: string): number {
+        const record = this.parseRecord(text);
+        if (!record) return 0;
+        if (Array.isArray(record.keys)) {
+            return Math.max(0, ...record.keys.map((entry: KeyringEntry) => Math.max(entry.createdAt || 0, entry.retiredAt || 0)));
+        }
+        return record.timestamp || 0;
+    }
+
+    private static plaintextMasterStorageKey(): string {
+        return `${this.STORAGE_PREFIX}${this.MASTER_KEY_ID}_${this.KEY_VERSION}`;
+    }
+
+    private static encryptedMasterStorageKey(): string {
+        return `${this.STORAGE_PREFIX}${this.MASTER_KEY_ID}_encrypted_${this.KEY_VERSION}`;
+    }
+
+    // Share text: sfs-share-v1:<keyId>:<threshold>:<index>:<count>:<hex data>:<checksum>
+    private static async parseShare(text: string): Promise<{ keyId: string; share: SecretShare }> {
+        const parts = text.split(':');
+        const checksum = parts.pop();
+        const body = parts.join(':');
+
+        if (parts.length !== 6 || parts[0] !== this.SHARE_PREFIX) {
+            throw new Error(`Not a key share: ${text.substring(0, 24)}...`);
+        }
+
+        const [, keyId, threshold, index] = parts;
+        if (checksum !== await this.shareChecksum(body)) {
+            throw new Error(`Share ${index} failed its checksum - check it for typos`);
+        }
+
+        return {
+            keyId,
+            share: { index: parseInt(index, 10), threshold: parseInt(threshold, 10), data: hexToBytes(parts[5]) }
+        };
+    }
+
+    // First 4 bytes of SHA-256 over the share text, to catch typos and truncation
+    private static async shareChecksum(body: string): Promise<string> {
+        return (await this.calculateChecksum(new TextEncoder().encode(body))).substring(0, 8);
+    }
+
+    // Read and decrypt the password-protected master key record
+    private static async unlockMasterRecord(password: string): Promise<{ storageKey: string; keyInfo: any; keyMaterial: Uint8Array }> {
+        const storageKey = this.encryptedMasterStorageKey();
+        const stored = await this.readRecord(storageKey);
+        if (!stored) {
+            throw new Error('No password-protected master key found');
+        }
+
+        const keyInfo = JSON.parse(stored);
+        const keyMaterial = await this.unwrapWithPassword(keyInfo.data, password, keyInfo.kdf);
+        return { storageKey, keyInfo, keyMaterial };
+    }
+
+    // The master key followed by the keyring keys
+    private static async getAllKeys(password: string): Promise<UnlockedKey[]> {
+        const { keyMaterial: masterKey } = await this.unlockMasterRecord(password);
+        return [
+            { keyId: await this.calculateKeyId(masterKey), label: this.MASTER_KEY_LABEL, status: 'active', keyMaterial: masterKey },
+            ...await this.getKeyring(password)
+        ];
+    }
+
+    // Store a key in the keyring, wrapped with the unlock password (checked against the master key first)
+    private static async addKeyringEntry(keyMaterial: Uint8Array, label: string, password: string): Promise<string> {
+        const name = label.trim();
+        if (!name) {
+            throw new Error('Key label is required');
+        }
+
+        const existing = await this.getAllKeys(password);
+        const keyId = await this.calculateKeyId(keyMaterial);
+        if (existing.some(key => key.keyId === keyId)) {
+            throw new Error(`Key ${keyId} is already in your keyring`);
+        }
+        if (existing.some(key => key.status === 'active' && key.label === name)) {
+            throw new Error(`An active key named "${name}" already exists`);
+        }
+
+        const entries = this.readKeyringEntries(await this.readRecord(this.keyringStorageKey()));
+        entries.push({
+            keyId,
+            label: name,
+            status: 'active',
+            createdAt: Date.now(),
+            ...await this.encryptKeyWithPassword(keyMaterial, password)
+        });
+        await this.saveRecord(this.keyringStorageKey(), JSON.stringify({ version: this.KEY_VERSION, keys: entries }));
+
+        return keyId;
+    }
+
+    // Key pair record: the private key is stored as PKCS#8 wrapped with the unlock password,
+    // next to the public key in its shareable text form
+    private static async getOrCreateKeyPair(
+        storageKey: string,
+        password: string,
+        algorithm: EcKeyImportParams,
+        usages: KeyUsage[],
+        generate: () => Promise<{ keyPair: CryptoKeyPair; publicKey: string }>
+    ): Promise<{ privateKey: CryptoKey; publicKey: string }> {
+        const stored = await this.readRecord(storageKey);
+
+        if (stored) {
+            const keyPairInfo = JSON.parse(stored);
+            const pkcs8 = await this.unwrapWithPassword(keyPairInfo.data, password, keyPairInfo.kdf);
+            try {
+                const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8 as BufferSource, algorithm, false, usages);
+                return { privateKey, publicKey: keyPairInfo.publicKey };
+            } finally {
+                pkcs8.fill(0);
+            }
+        }
+
+        const { keyPair, publicKey } = await generate();
+        const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey));
+
+        await this.saveRecord(storageKey, JSON.stringify({
+            publicKey,
+            ...await this.encryptKeyWithPassword(pkcs8, password),
+            timestamp: Date.now(),
+            version: this.KEY_VERSION
+        }));
+
+        // Re-import so the key kept in memory is not extractable
+        try {
+            const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8 as BufferSource, algorithm, false, usages);
+            console.log(`🪪 ${algorithm.name} key pair created (${storageKey})`);
+            return { privateKey, publicKey };
+        } finally {
+            pkcs8.fill(0);
+        }
+    }
+
+    private static identityStorageKey(): string {
+        return `${this.STORAGE_PREFIX}${this.IDENTITY_ID}_${this.KEY_VERSION}`;
+    }
+
+    private static signingStorageKey(): string {
+        return `${this.STORAGE_PREFIX}${this.SIGNING_ID}_${this.KEY_VERSION}`;
+    }
+
+    private static keyringStorageKey(): string {
+        return `${this.STORAGE_PREFIX}${this.KEYRING_ID}_${this.KEY_VERSION}`;
+    }
+
+    private static readKeyringEntries(stored: string | null): KeyringEntry[] {
+        if (!stored) {
+            return [];
+        }
+        return JSON.parse(stored).keys || [];
+    }
+
+    // Read a stored record, from localStorage or its IndexedDB backup
+    private static async readRecord(storageKey: string): Promise<string | null> {
+        const stored = localStorage.getItem(storageKey);
+        if (stored) {
+            return stored;
+        }
+        try {
+            return await this.getDataFromIndexedDB(storageKey);
+        } catch (error) {
+            console.warn('Could not read IndexedDB:', error);
+            return null;
+        }
+    }
+
+    // Write a record to localStorage and (best effort) to its IndexedDB backup
+    private static async saveRecord(storageKey: string, keyData: string): Promise<void> {
+        localStorage.setItem(storageKey, keyData);
+        try {
+            await this.storeInIndexedDB(storageKey, keyData);
+        } catch (indexedDBError) {
+            console.warn('⚠️ Failed to update IndexedDB backup:', indexedDBError);
+        }
+    }
+
+    // Write several records to localStorage as one: if any write fails, the ones already written
+    // are put back. The IndexedDB backup is updated (best effort) in a single transaction.
+    private static async saveRecords(records: { storageKey: string; data: string }[]): Promise<void> {
+        const previous = records.map(({ storageKey }) => ({ storageKey, data: localStorage.getItem(storageKey) }));
+        try {
+            records.forEach(({ storageKey, data }) => localStorage.setItem(storageKey, data));
+        } catch (error) {
+            previous.forEach(({ storageKey, data }) => data === null ? localStorage.removeItem(storageKey) : localStorage.setItem(storageKey, data));
+            throw error;
+        }
+
+        try {
+            await this.storeRecordsInIndexedDB(records);
+        } catch (indexedDBError) {
+            console.warn('⚠️ Failed to update IndexedDB backup:', indexedDBError);
+        }
+    }
+
+    // Delete a record from localStorage and its IndexedDB backup
+    private static async removeRecord(storageKey: string): Promise<void> {
+        localStorage.removeItem(storageKey);
+        try {
+            await this.deleteFromIndexedDB(storageKey);
+        } catch (indexedDBError) {
+            console.warn('⚠️ Failed to delete IndexedDB backup:', indexedDBError);
+        }
+    }
+
+    // Decrypt key material with a password, with a clear error for a wrong password
+    private static async unwrapWithPassword(data: string, password: string, kdf?: KdfParams): Promise<Uint8Array> {
+        try {
+            return await this.decryptKeyWithPassword(data, password, kdf);
+        } catch (error) {
+            throw error instanceof IncorrectPasswordError ? error : new IncorrectPasswordError();
+        }
+    }
+
     private static async getFromLocalStorage(password?: string): Promise<Uint8Array | null> {
         const keys = [
             `${this.STORAGE_PREFIX}${this.MASTER_KEY_ID}_${this.KEY_VERSION}`,
@@ -193,7 +1255,7 @@ export class SecureKeyManager {
         for (const key of keys) {
             const stored = localStorage.getItem(key);
             if (stored) {
-                const result = await this.parseStoredKey(stored, password);
+                const result = await this.parseStoredKey(key, stored, password);
                 if (result) {
                     return result;
                 }
@@ -212,7 +1274,7 @@ export class SecureKeyManager {
         for (const key of keys) {
             const stored = await this.getDataFromIndexedDB(key);
             if (stored) {
-                const result = await this.parseStoredKey(stored, password);
+                const result = await this.parseStoredKey(key, stored, password);
                 if (result) {
                     return result;
                 }
@@ -222,12 +1284,16 @@ export class SecureKeyManager {
         return null;
     }
 
-    private static async parseStoredKey(stored: string, password?: string): Promise<Uint8Array | null> {
+    private static async parseStoredKey(storageKey: string, stored: string, password?: string): Promise<Uint8Array | null> {
         try {
             const keyInfo = JSON.parse(stored);
 
             if (keyInfo.encrypted && password) {
-                return await this.decryptKeyWithPassword(keyInfo.data, password);
+                const keyMaterial = await this.decryptKeyWithPassword(keyInfo.data, password, keyInfo.kdf);
+                if (PasswordKdf.needsUpgrade(keyInfo.kdf)) {
+                    await this.rewrapStoredKey(storageKey, keyInfo, keyMaterial, password);
+                }
+                return keyMaterial;
             } else if (!keyInfo.encrypted) {
                 return new Uint8Array(keyInfo.data.match(/.{1,2}/g)!.map((byte: string) => parseInt(byte, 16)));
             } else if (keyInfo.encrypted && !password) {
@@ -237,34 +1303,46 @@ export class SecureKeyManager {
 
             return null;
         } catch (error) {
+            // A wrong password must not look like a missing key
+            if (error instanceof IncorrectPasswordError) {
+                throw error;
+            }
             console.warn('Failed to parse stored key:', error);
             return null;
         }
     }
 
-    private static async encryptKeyWithPassword(keyMaterial: Uint8Array, password: string): Promise<string> {
-        const encoder = new TextEncoder();
-        const passwordKey = await crypto.subtle.importKey(
-            'raw',
-            encoder.encode(password),
-            { name: 'PBKDF2' },
-            false,
-            ['deriveKey']
-        );
+    // Re-wrap a password-protected key with the current KDF settings (called after a successful unlock)
+    private static async rewrapStoredKey(
+        storageKey: string,
+        keyInfo: { kdf?: KdfParams; [field: string]: unknown },
+        keyMaterial: Uint8Array,
+        password: string
+    ): Promise<void> {
+        try {
+            const rewrapped = await this.encryptKeyWithPassword(keyMaterial, password);
+            const keyData = JSON.stringify({
+                ...keyInfo,
+                data: rewrapped.data,
+                kdf: rewrapped.kdf,
+                rewrappedAt: Date.now()
+            });
+
+            await this.saveRecord(storageKey, keyData);
+
+            console.log(`🔁 Master key re-wrapped: ${PasswordKdf.describe(keyInfo.kdf)} → ${PasswordKdf.describe(rewrapped.kdf)}`);
+        } catch (error) {
+            // The old wrapping still works - try again on the next unlock
+            console.warn('⚠️ Could not re-wrap master key with the current KDF settings:', error);
+        }
+    }
+
+    // Encrypt key material under a password; the KDF parameters (including the salt) are
+    // returned separately and stored in the record, `data` is the IV + ciphertext
+    private static async encryptKeyWithPassword(keyMaterial: Uint8Array, password: string): Promise<{ data: string; kdf: KdfParams }> {
+        const kdf = PasswordKdf.currentParams();
+        const derivedKey = await PasswordKdf.deriveKey(password, kdf, ['encrypt']);
 
-        const salt = crypto.getRandomValues(new Uint8Array(16));
-        const derivedKey = await crypto.subtle.deriveKey(
-            {
-                name: 'PBKDF2',
-                salt: salt,
-                iterations: 100000,
-                hash: 'SHA-256'
-            },
-            passwordKey,
-            { name: 'AES-GCM', length: 256 },
-            false,
-            ['encrypt']
-        );
         const iv = crypto.getRandomValues(new Uint8Array(12));
         const encrypted = await crypto.subtle.encrypt(
             { name: 'AES-GCM', iv: iv },
@@ -272,54 +1350,53 @@ export class SecureKeyManager {
             keyMaterial as BufferSource
         );
 
-        // Combine salt + iv + encrypted data
-        const combined = new Uint8Array(salt.length + iv.length + encrypted.byteLength);
-        combined.set(salt, 0);
-        combined.set(iv, salt.length);
-        combined.set(new Uint8Array(encrypted), salt.length + iv.length);
+        // Combine iv + encrypted data
+        const combined = new Uint8Array(iv.length + encrypted.byteLength);
+        combined.set(iv, 0);
+        combined.set(new Uint8Array(encrypted), iv.length);
 
-        return Array.from(combined).map(b => b.toString(16).padStart(2, '0')).join('');
+        return { data: bytesToHex(combined), kdf };
     }
 
-    private static async decryptKeyWithPassword(encryptedHex: string, password: string): Promise<Uint8Array> {
-        const encrypted = new Uint8Array(encryptedHex.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)));
+    // Records without KDF parameters use the legacy layout: salt (16) + iv (12) + ciphertext
+    private static async decryptKeyWithPassword(encryptedHex: string, password: string, kdf?: KdfParams): Promise<Uint8Array> {
+        const encrypted = hexToBytes(encryptedHex);
+
+        let params: KdfParams;
+        let offset = 0;
+        if (kdf) {
+            params = kdf;
+        } else {
+            params = PasswordKdf.legacyParams(encrypted.slice(0, 16));
+            offset = 16;
+        }
 
-        const salt = encrypted.slice(0, 16);
-        const iv = encrypted.slice(16, 28);
-        const ciphertext = encrypted.slice(28);
+        const iv = encrypted.slice(offset, offset + 12);
+        const ciphertext = encrypted.slice(offset + 12);
 
-        const encoder = new TextEncoder();
-        const passwordKey = await crypto.subtle.importKey(
-            'raw',
-            encoder.encode(password),
-            { name: 'PBKDF2' },
-            false,
-            ['deriveKey']
-        );
+        const derivedKey = await PasswordKdf.deriveKey(password, params, ['decrypt']);
 
-        const derivedKey = await crypto.subtle.deriveKey(
-            {
-                name: 'PBKDF2',
-                salt: salt,
-                iterations: 100000,
-                hash: 'SHA-256'
-            },
-            passwordKey,
-            { name: 'AES-GCM', length: 256 },
-            false,
-            ['decrypt']
-        );
-
-        const decrypted = await crypto.subtle.decrypt(
-            { name: 'AES-GCM', iv: iv },
-            derivedKey,
-            ciphertext
-        );
+        let decrypted: ArrayBuffer;
+        try {
+            decrypted = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: iv },
+                derivedKey,
+                ciphertext
+            );
+        } catch (error) {
+            // The GCM tag only fails to verify under a key derived from the wrong password
+            throw new IncorrectPasswordError();
+        }
 
         return new Uint8Array(decrypted);
     }
 
     private static async storeInIndexedDB(key: string, data: string): Promise<void> {
+        return this.storeRecordsInIndexedDB([{ storageKey: key, data }]);
+    }
+
+    // All records are put in one transaction: either every one is stored or none is
+    private static async storeRecordsInIndexedDB(records: { storageKey: string; data: string }[]): Promise<void> {
         return new Promise((resolve, reject) => {
             const request = indexedDB.open('SecureFileSplitterDB', 1);
 
@@ -375,17 +1452,17 @@ export class SecureKeyManager {
                     };
 
                     const store = transaction.objectStore('keys');
-                    const putRequest = store.put(data, key);
+                    records.forEach(({ storageKey, data }) => {
+                        const putRequest = store.put(data, storageKey);
 
-                    putRequest.onerror = () => {
-                        console.error('Put request error:', putRequest.error);
-                        db.close();
-                        reject(putRequest.error);
-                    };
+                        putRequest.onerror = () => {
+                            console.error('Put request error:', putRequest.error);
+                        };
 
-                    putRequest.onsuccess = () => {
-                        console.log('Data stored successfully in IndexedDB');
-                    };
+                        putRequest.onsuccess = () => {
+                            console.log('Data stored successfully in IndexedDB');
+                        };
+                    });
 
                 } catch (error) {
                     console.error('Transaction creation error:', error);
@@ -457,6 +1534,41 @@ export class SecureKeyManager {
         });
     }
 
+    private static async deleteFromIndexedDB(key: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open('SecureFileSplitterDB', 1);
+
+            request.onerror = () => reject(request.error);
+
+            request.onupgradeneeded = (event) => {
+                const db = (event.target as IDBOpenDBRequest).result;
+                if (!db.objectStoreNames.contains('keys')) {
+                    db.createObjectStore('keys');
+                }
+            };
+
+            request.onsuccess = () => {
+                const db = request.result;
+                try {
+                    const transaction = db.transaction(['keys'], 'readwrite');
+                    transaction.objectStore('keys').delete(key);
+
+                    transaction.oncomplete = () => {
+                        db.close();
+                        resolve();
+                    };
+                    transaction.onerror = () => {
+                        db.close();
+                        reject(transaction.error);
+                    };
+                } catch (error) {
+                    db.close();
+                    reject(error);
+                }
+            };
+        });
+    }
+
     private static async clearIndexedDB(): Promise<void> {
         return new Promise((resolve) => {
             const request = indexedDB.open('SecureFileSplitterDB', 1);
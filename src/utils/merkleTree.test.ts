@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import { MerkleTree } from './merkleTree';
+
+// Reference hashing done with Node's crypto, independently of the implementation
+function sha256(...parts: (number[] | string)[]): string {
+    const hash = createHash('sha256');
+    for (const part of parts) {
+        hash.update(typeof part === 'string' ? Buffer.from(part, 'hex') : Buffer.from(part));
+    }
+    return hash.digest('hex');
+}
+
+const leaf = (chunkHash: string) => sha256([0x00], chunkHash);
+const node = (left: string, right: string) => sha256([0x01], left, right);
+
+describe('MerkleTree', () => {
+    const chunkHashes = ['a', 'b', 'c', 'd', 'e'].map(text => createHash('sha256').update(text).digest('hex'));
+
+    test('known answer: the empty tree and a single chunk', async () => {
+        // SHA-256 of the single byte 0x00
+        expect(await MerkleTree.computeRoot([]))
+            .toBe('6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d');
+        expect(await MerkleTree.computeRoot(chunkHashes.slice(0, 1))).toBe(leaf(chunkHashes[0]));
+    });
+
+    test('roots use domain-separated leaves and nodes and promote an odd node', async () => {
+        const [a, b, c, d, e] = chunkHashes.map(leaf);
+
+        expect(await MerkleTree.computeRoot(chunkHashes.slice(0, 2))).toBe(node(a, b));
+        expect(await MerkleTree.computeRoot(chunkHashes.slice(0, 3))).toBe(node(node(a, b), c));
+        expect(await MerkleTree.computeRoot(chunkHashes)).toBe(node(node(node(a, b), node(c, d)), e));
+    });
+
+    test('every proof verifies against the root, and a tampered one does not', async () => {
+        const tree = await MerkleTree.build(chunkHashes);
+        const root = tree.getRoot();
+
+        for (let i = 0; i < chunkHashes.length; i++) {
+            expect(await MerkleTree.verifyProof(tree.getProof(i), root)).toBe(true);
+        }
+
+        const proof = tree.getProof(2);
+        expect(await MerkleTree.verifyProof({ ...proof, leafHash: chunkHashes[3] }, root)).toBe(false);
+        const flipped = proof.steps.map((step, i) => (i === 0 ? { ...step, position: step.position === 'left' ? 'right' as const : 'left' as const } : step));
+        expect(await MerkleTree.verifyProof({ ...proof, steps: flipped }, root)).toBe(false);
+        expect(() => tree.getProof(chunkHashes.length)).toThrow('out of range');
+    });
+
+    test('verifyChunk checks the chunk bytes against the proof', async () => {
+        const chunks = ['first', 'second', 'third'].map(text => new TextEncoder().encode(text));
+        const hashes = chunks.map(chunk => createHash('sha256').update(chunk).digest('hex'));
+        const tree = await MerkleTree.build(hashes);
+
+        expect(await MerkleTree.verifyChunk(chunks[1], tree.getProof(1), tree.getRoot())).toBe(true);
+        expect(await MerkleTree.verifyChunk(chunks[0], tree.getProof(1), tree.getRoot())).toBe(false);
+    });
+});
@@ -0,0 +1,127 @@
+// utils/merkleTree.ts - Binary Merkle tree over chunk hashes
+import { bytesToHex, hexToBytes } from './encoding';
+
+export interface MerkleProofStep {
+    hash: string;               // Sibling hash (hex)
+    position: 'left' | 'right'; // Which side the sibling sits on
+}
+
+export interface MerkleProof {
+    index: number;
+    leafHash: string;           // SHA-256 of the encrypted chunk (hex)
+    steps: MerkleProofStep[];
+}
+
+// Leaves and inner nodes are domain-separated (0x00 / 0x01 prefix) so an inner node
+// can never be passed off as a leaf. An odd node at the end of a level is promoted as-is.
+export class MerkleTree {
+    private readonly chunkHashes: string[];
+    private readonly levels: string[][];
+
+    private constructor(chunkHashes: string[], levels: string[][]) {
+        this.chunkHashes = chunkHashes;
+        this.levels = levels;
+    }
+
+    // Build a tree from the per-chunk hashes (hex, in chunk order)
+    static async build(chunkHashes: string[]): Promise<MerkleTree> {
+        if (chunkHashes.length === 0) {
+            return new MerkleTree([], [[await this.hashLeaf('')]]);
+        }
+
+        const levels: string[][] = [];
+        let level = await Promise.all(chunkHashes.map(hash => this.hashLeaf(hash)));
+        levels.push(level);
+
+        while (level.length > 1) {
+            const next: string[] = [];
+            for (let i = 0; i < level.length; i += 2) {
+                next.push(i + 1 < level.length ? await this.hashNode(level[i], level[i + 1]) : level[i]);
+            }
+            levels.push(next);
+            level = next;
+        }
+
+        return new MerkleTree(chunkHashes, levels);
+    }
+
+    // Compute only the root
+    static async computeRoot(chunkHashes: string[]): Promise<string> {
+        return (await this.build(chunkHashes)).getRoot();
+    }
+
+    getRoot(): string {
+        return this.levels[this.levels.length - 1][0];
+    }
+
+    // Inclusion proof for the chunk at `index`
+    getProof(index: number): MerkleProof {
+        if (index < 0 || index >= this.chunkHashes.length) {
+            throw new Error(`Chunk index ${index} out of range`);
+        }
+
+        const steps: MerkleProofStep[] = [];
+        let position = index;
+
+        for (let depth = 0; depth < this.levels.length - 1; depth++) {
+            const level = this.levels[depth];
+            const siblingIndex = position % 2 === 0 ? position + 1 : position - 1;
+
+            // No sibling means this node was promoted unchanged
+            if (siblingIndex < level.length) {
+                steps.push({
+                    hash: level[siblingIndex],
+                    position: position % 2 === 0 ? 'right' : 'left'
+                });
+            }
+            position = Math.floor(position / 2);
+        }
+
+        return { index, leafHash: this.chunkHashes[index], steps };
+    }
+
+    // Verify a proof against a trusted root
+    static async verifyProof(proof: MerkleProof, root: string): Promise<boolean> {
+        let current = await this.hashLeaf(proof.leafHash);
+
+        for (const step of proof.steps) {
+            current = step.position === 'left'
+                ? await this.hashNode(step.hash, current)
+                : await this.hashNode(current, step.hash);
+        }
+
+        return current === root;
+    }
+
+    // Verify a single encrypted chunk on its own, e.g. right after fetching it from a remote node
+    static async verifyChunk(encryptedChunk: Uint8Array, proof: MerkleProof, root: string): Promise<boolean> {
+        const chunkHash = await this.sha256Hex(encryptedChunk);
+        if (chunkHash !== proof.leafHash) {
+            return false;
+        }
+        return this.verifyProof(proof, root);
+    }
+
+    static async sha256Hex(data: Uint8Array): Promise<string> {
+        const hash = await crypto.subtle.digest('SHA-256', data as BufferSource);
+        return bytesToHex(new Uint8Array(hash));
+    }
+
+    private static async hashLeaf(chunkHash: string): Promise<string> {
+        const bytes = hexToBytes(chunkHash);
+        const input = new Uint8Array(1 + bytes.length);
+        input[0] = 0x00;
+        input.set(bytes, 1);
+        return this.sha256Hex(input);
+    }
+
+    private static async hashNode(left: string, right: string): Promise<string> {
+        const leftBytes = hexToBytes(left);
+        const rightBytes = hexToBytes(right);
+        const input = new Uint8Array(1 + leftBytes.length + rightBytes.length);
+        input[0] = 0x01;
+        input.set(leftBytes, 1);
+        input.set(rightBytes, 1 + leftBytes.length);
+        return this.sha256Hex(input);
+    }
+}
@@ -0,0 +1,52 @@
+import { KdfParams, PasswordKdf } from './passwordKdf';
+
+const SALT = '000102030405060708090a0b0c0d0e0f';
+
+describe('PasswordKdf parameter limits', () => {
+    test('accepts the parameters this app writes', () => {
+        for (const algorithm of ['pbkdf2', 'scrypt', 'argon2id'] as const) {
+            expect(() => PasswordKdf.validateParams(PasswordKdf.currentParams(algorithm))).not.toThrow();
+        }
+        expect(() => PasswordKdf.validateParams(PasswordKdf.legacyParams(new Uint8Array(16)))).not.toThrow();
+    });
+
+    test('refuses costs that would hang or crash the tab', async () => {
+        const overLimit: KdfParams[] = [
+            { algorithm: 'argon2id', memoryKiB: 4 * 1024 * 1024, iterations: 2, parallelism: 1, salt: SALT },
+            { algorithm: 'argon2id', memoryKiB: 19456, iterations: 1000000, parallelism: 1, salt: SALT },
+            { algorithm: 'scrypt', N: 2 ** 30, r: 8, p: 1, salt: SALT },
+            { algorithm: 'scrypt', N: 2 ** 18, r: 16, p: 1, salt: SALT },
+            { algorithm: 'pbkdf2', hash: 'SHA-256', iterations: 2 ** 31, salt: SALT }
+        ];
+
+        for (const params of overLimit) {
+            expect(() => PasswordKdf.validateParams(params)).toThrow('Unsupported key derivation parameters');
+        }
+        // Refused before any derivation work starts
+        await expect(PasswordKdf.deriveKey('password', overLimit[0], ['decrypt'])).rejects.toThrow('Argon2id memory');
+    });
+
+    test('refuses parameters too weak to protect a key', async () => {
+        const underLimit: KdfParams[] = [
+            { algorithm: 'pbkdf2', hash: 'SHA-256', iterations: 1, salt: SALT },
+            { algorithm: 'scrypt', N: 2, r: 8, p: 1, salt: SALT },
+            { algorithm: 'argon2id', memoryKiB: 8, iterations: 2, parallelism: 1, salt: SALT },
+            { algorithm: 'pbkdf2', hash: 'SHA-256', iterations: 600000, salt: '00' }
+        ];
+
+        for (const params of underLimit) {
+            expect(() => PasswordKdf.validateParams(params)).toThrow('Unsupported key derivation parameters');
+        }
+        await expect(PasswordKdf.deriveKey('password', underLimit[0], ['decrypt'])).rejects.toThrow('PBKDF2 iterations');
+    });
+
+    test('refuses unknown algorithms and malformed values', () => {
+        expect(() => PasswordKdf.validateParams({ algorithm: 'md5', salt: SALT } as unknown as KdfParams)).toThrow('Unsupported key derivation function');
+        expect(() => PasswordKdf.validateParams({ algorithm: 'pbkdf2', hash: 'SHA-1', iterations: 600000, salt: SALT } as unknown as KdfParams))
+            .toThrow('PBKDF2 with SHA-1');
+        expect(() => PasswordKdf.validateParams({ algorithm: 'scrypt', N: 3 * 2 ** 14, r: 8, p: 1, salt: SALT })).toThrow('power of two');
+        expect(() => PasswordKdf.validateParams({ algorithm: 'argon2id', memoryKiB: '19456', iterations: 2, parallelism: 1, salt: SALT } as unknown as KdfParams))
+            .toThrow('Argon2id memory');
+        expect(() => PasswordKdf.validateParams({ algorithm: 'pbkdf2', hash: 'SHA-256', iterations: 600000, salt: 'zz'.repeat(16) })).toThrow('salt is not hex');
+    });
+});
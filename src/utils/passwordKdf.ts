@@ -0,0 +1,198 @@
+// utils/passwordKdf.ts - Password-based key derivation with parameters stored next to the wrapped key
+import { argon2idAsync } from '@noble/hashes/argon2';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { SECURITY_CONFIG } from '../config';
+import { bytesToHex, hexToBytes } from './encoding';
+
+export type KdfAlgorithm = 'pbkdf2' | 'scrypt' | 'argon2id';
+
+export interface Pbkdf2Params {
+    algorithm: 'pbkdf2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;          // hex
+}
+
+export interface ScryptParams {
+    algorithm: 'scrypt';
+    N: number;             // CPU/memory cost (power of two)
+    r: number;             // Block size
+    p: number;             // Parallelism
+    salt: string;
+}
+
+export interface Argon2idParams {
+    algorithm: 'argon2id';
+    memoryKiB: number;
+    iterations: number;
+    parallelism: number;
+    salt: string;
+}
+
+export type KdfParams = Pbkdf2Params | ScryptParams | Argon2idParams;
+
+// Records written before the KDF was configurable: PBKDF2-SHA256, 100000 iterations,
+// 16-byte salt stored in front of the IV
+export const LEGACY_PBKDF2_ITERATIONS = 100000;
+
+// Accepted parameters for keys we did not wrap ourselves (backups, share bundles): weak enough
+// settings to brute-force are refused, and so are costs that would hang or crash the tab
+const KDF_LIMITS = {
+    SALT_BYTES: { min: 16, max: 64 },
+    PBKDF2_ITERATIONS: { min: LEGACY_PBKDF2_ITERATIONS, max: 10000000 },
+    SCRYPT_N: { min: 2 ** 14, max: 2 ** 18 },
+    SCRYPT_R: { min: 8, max: 16 },
+    SCRYPT_P: { min: 1, max: 4 },
+    SCRYPT_MEMORY: 256 * 1024 * 1024,    // 128 * N * r bytes
+    ARGON2ID_MEMORY_KIB: { min: 19456, max: 256 * 1024 },
+    ARGON2ID_ITERATIONS: { min: 2, max: 10 },
+    ARGON2ID_PARALLELISM: { min: 1, max: 4 }
+};
+
+function checkRange(name: string, value: unknown, range: { min: number; max: number }): void {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < range.min || value > range.max) {
+        throw new Error(`Unsupported key derivation parameters: ${name} must be between ${range.min} and ${range.max}`);
+    }
+}
+
+export class PasswordKdf {
+    // Fresh parameters (new random salt) for the configured or given algorithm
+    static currentParams(algorithm: KdfAlgorithm = SECURITY_CONFIG.KDF_ALGORITHM): KdfParams {
+        const salt = bytesToHex(crypto.getRandomValues(new Uint8Array(SECURITY_CONFIG.SALT_LENGTH)));
+
+        switch (algorithm) {
+            case 'pbkdf2':
+                return { algorithm, hash: 'SHA-256', iterations: SECURITY_CONFIG.PBKDF2_ITERATIONS, salt };
+            case 'scrypt':
+                return { algorithm, ...SECURITY_CONFIG.SCRYPT, salt };
+            case 'argon2id':
+                return { algorithm, ...SECURITY_CONFIG.ARGON2ID, salt };
+            default:
+                throw new Error(`Unsupported key derivation function: ${algorithm}`);
+        }
+    }
+
+    // Throws unless `params` names a supported algorithm with every cost within KDF_LIMITS
+    static validateParams(params: KdfParams): void {
+        if (!params || typeof params !== 'object') {
+            throw new Error('Unsupported key derivation parameters: missing');
+        }
+        if (typeof params.salt !== 'string' || params.salt.length % 2 !== 0 || /[^0-9a-fA-F]/.test(params.salt)) {
+            throw new Error('Unsupported key derivation parameters: salt is not hex');
+        }
+        checkRange('salt length', params.salt.length / 2, KDF_LIMITS.SALT_BYTES);
+
+        switch (params.algorithm) {
+            case 'pbkdf2':
+                if (params.hash !== 'SHA-256') {
+                    throw new Error(`Unsupported key derivation parameters: PBKDF2 with ${params.hash}`);
+                }
+                checkRange('PBKDF2 iterations', params.iterations, KDF_LIMITS.PBKDF2_ITERATIONS);
+                return;
+            case 'scrypt':
+                checkRange('scrypt N', params.N, KDF_LIMITS.SCRYPT_N);
+                checkRange('scrypt r', params.r, KDF_LIMITS.SCRYPT_R);
+                checkRange('scrypt p', params.p, KDF_LIMITS.SCRYPT_P);
+                if ((params.N & (params.N - 1)) !== 0) {
+                    throw new Error('Unsupported key derivation parameters: scrypt N must be a power of two');
+                }
+                if (128 * params.N * params.r > KDF_LIMITS.SCRYPT_MEMORY) {
+                    throw new Error(`Unsupported key derivation parameters: scrypt needs more than ${KDF_LIMITS.SCRYPT_MEMORY / 1024 / 1024} MB`);
+                }
+                return;
+            case 'argon2id':
+                checkRange('Argon2id memory', params.memoryKiB, KDF_LIMITS.ARGON2ID_MEMORY_KIB);
+                checkRange('Argon2id iterations', params.iterations, KDF_LIMITS.ARGON2ID_ITERATIONS);
+                checkRange('Argon2id parallelism', params.parallelism, KDF_LIMITS.ARGON2ID_PARALLELISM);
+                return;
+            default:
+                throw new Error(`Unsupported key derivation function: ${(params as KdfParams).algorithm}`);
+        }
+    }
+
+    // Derive an AES-256-GCM key from a password. The parameters may come from a file someone
+    // else made, so they are checked before any work is done.
+    static async deriveKey(password: string, params: KdfParams, usages: KeyUsage[]): Promise<CryptoKey> {
+        this.validateParams(params);
+        const passwordBytes = new TextEncoder().encode(password);
+        const salt = hexToBytes(params.salt);
+
+        if (params.algorithm === 'pbkdf2') {
+            const passwordKey = await crypto.subtle.importKey('raw', passwordBytes, { name: 'PBKDF2' }, false, ['deriveKey']);
+            return crypto.subtle.deriveKey(
+                { name: 'PBKDF2', salt: salt as BufferSource, iterations: params.iterations, hash: params.hash },
+                passwordKey,
+                { name: 'AES-GCM', length: 256 },
+                false,
+                usages
+            );
+        }
+
+        let derived: Uint8Array;
+        if (params.algorithm === 'scrypt') {
+            derived = await scryptAsync(passwordBytes, salt, { N: params.N, r: params.r, p: params.p, dkLen: 32 });
+        } else if (params.algorithm === 'argon2id') {
+            derived = await argon2idAsync(passwordBytes, salt, {
+                m: params.memoryKiB,
+                t: params.iterations,
+                p: params.parallelism,
+                dkLen: 32
+            });
+        } else {
+            throw new Error(`Unsupported key derivation function: ${(params as KdfParams).algorithm}`);
+        }
+
+        try {
+            return await crypto.subtle.importKey('raw', derived as BufferSource, { name: 'AES-GCM' }, false, usages);
+        } finally {
+            derived.fill(0);
+        }
+    }
+
+    // Parameters of the legacy record format, with the salt taken from the record itself
+    static legacyParams(salt: Uint8Array): Pbkdf2Params {
+        return { algorithm: 'pbkdf2', hash: 'SHA-256', iterations: LEGACY_PBKDF2_ITERATIONS, salt: bytesToHex(salt) };
+    }
+
+    // True when a key wrapped with `params` should be re-wrapped with the current settings:
+    // another algorithm than the configured one, or any cost parameter below the current value
+    static needsUpgrade(params: KdfParams | undefined): boolean {
+        if (!params) {
+            return true;
+        }
+
+        const current = this.currentParams();
+        if (params.algorithm !== current.algorithm) {
+            return true;
+        }
+
+        switch (current.algorithm) {
+            case 'pbkdf2':
+                return (params as Pbkdf2Params).iterations < current.iterations;
+            case 'scrypt': {
+                const old = params as ScryptParams;
+                return old.N < current.N || old.r < current.r || old.p < current.p;
+            }
+            case 'argon2id': {
+                const old = params as Argon2idParams;
+                return old.memoryKiB < current.memoryKiB || old.iterations < current.iterations ||
+                    old.parallelism < current.parallelism;
+            }
+        }
+    }
+
+    // Short human-readable description for logs
+    static describe(params: KdfParams | undefined): string {
+        if (!params) {
+            return `pbkdf2 (${LEGACY_PBKDF2_ITERATIONS} iterations, legacy)`;
+        }
+        switch (params.algorithm) {
+            case 'pbkdf2':
+                return `pbkdf2 (${params.iterations} iterations)`;
+            case 'scrypt':
+                return `scrypt (N=${params.N}, r=${params.r}, p=${params.p})`;
+            case 'argon2id':
+                return `argon2id (${params.memoryKiB} KiB, t=${params.iterations}, p=${params.parallelism})`;
+        }
+    }
+}
@@ -0,0 +1,40 @@
+import { PasswordPolicy } from './passwordPolicy';
+
+describe('PasswordPolicy', () => {
+    test('common passwords are rejected, including case, leetspeak and padded variants', () => {
+        for (const password of ['password', 'P@ssw0rd!!', '123Sunshine2024']) {
+            const strength = PasswordPolicy.evaluate(password);
+            expect(strength.acceptable).toBe(false);
+            expect(strength.problems).toContain('This is one of the most common passwords - choose something else');
+        }
+    });
+
+    test('short passwords are rejected', () => {
+        const strength = PasswordPolicy.evaluate('Qz7#vK2');
+        expect(strength.acceptable).toBe(false);
+        expect(strength.problems).toContain('Use at least 10 characters');
+    });
+
+    test('repeats and runs count as a single character', () => {
+        expect(PasswordPolicy.evaluate('aaaaaaaaaaaaaaaa').acceptable).toBe(false);
+        expect(PasswordPolicy.evaluate('abcdefghijklmnop').entropy).toBe(PasswordPolicy.evaluate('ab').entropy);
+        expect(PasswordPolicy.evaluate('1234567890').problems).toContain('Too easy to guess - make it longer or mix in other kinds of characters');
+    });
+
+    test('long mixed passwords and passphrases are accepted', () => {
+        const mixed = PasswordPolicy.evaluate('kV9#mQ2$xL7!pR4w');
+        expect(mixed).toEqual(expect.objectContaining({ acceptable: true, problems: [] }));
+        expect(mixed.score).toBe(4);
+
+        expect(PasswordPolicy.evaluate('correct horse battery staple').acceptable).toBe(true);
+    });
+
+    test('the score follows the estimated entropy', () => {
+        expect(PasswordPolicy.evaluate('').score).toBe(0);
+        expect(PasswordPolicy.evaluate('').label).toBe('Very weak');
+        const scores = ['kq', 'kqwmz', 'kqwmzrtpvx', 'kqwmzrtpvxhg', 'kqwmzrtpvxhgbn', 'kqwmzrtpvxhgbnjd', 'kqwmzrtpvxhgbnjdyc']
+            .map(password => PasswordPolicy.evaluate(password).score);
+        expect(scores).toEqual([...scores].sort());
+        expect(scores[scores.length - 1]).toBeGreaterThanOrEqual(3);
+    });
+});
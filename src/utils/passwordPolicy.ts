@@ -0,0 +1,82 @@
+// utils/passwordPolicy.ts - Strength estimate and policy for new unlock passwords
+import { SECURITY_CONFIG } from '../config';
+
+export interface PasswordStrength {
+    entropy: number;          // Estimated bits
+    score: 0 | 1 | 2 | 3 | 4;
+    label: string;
+    problems: string[];       // Why the password is rejected (empty when acceptable)
+    acceptable: boolean;
+}
+
+// Base forms of the most common passwords; variants (case, leetspeak, trailing digits or
+// symbols) are normalised to these before the lookup
+const COMMON_PASSWORDS = new Set([
+    'password', 'passw0rd', 'qwerty', 'qwertyuiop', 'asdfgh', 'asdfghjkl', 'zxcvbnm', 'azerty', 'abc', 'abcdef',
+    'abcdefgh', 'letmein', 'welcome', 'admin', 'administrator', 'login', 'root', 'master', 'secret', 'changeme',
+    'iloveyou', 'princess', 'sunshine', 'shadow', 'monkey', 'dragon', 'football', 'baseball', 'soccer', 'hockey',
+    'basketball', 'superman', 'batman', 'starwars', 'pokemon', 'naruto', 'michael', 'jennifer', 'jordan', 'charlie',
+    'daniel', 'ashley', 'jessica', 'thomas', 'hunter', 'ranger', 'buster', 'tigger', 'freedom', 'whatever',
+    'trustno', 'access', 'flower', 'hello', 'helloworld', 'loveme', 'lovely', 'killer', 'cheese', 'cookie',
+    'chocolate', 'computer', 'internet', 'samsung', 'google', 'apple', 'mustang', 'harley', 'ferrari', 'corvette',
+    'summer', 'winter', 'spring', 'autumn', 'liverpool', 'chelsea', 'arsenal', 'matrix', 'qazwsx', 'zaq',
+    'onetwothree', 'iloveu', 'myspace', 'facebook', 'blink', 'biteme', 'tinkerbell', 'bailey', 'maggie', 'ginger',
+    'pepper', 'cocacola', 'guitar', 'purple', 'orange', 'banana', 'yellow', 'silver', 'golden', 'diamond',
+    'security', 'encryption', 'secure', 'privacy', 'test', 'testing', 'guest', 'default', 'user', 'temp'
+]);
+
+const LEET: Record<string, string> = { '@': 'a', '4': 'a', '8': 'b', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't' };
+const LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'];
+
+export class PasswordPolicy {
+    static evaluate(password: string): PasswordStrength {
+        const entropy = this.estimateEntropy(password);
+        const problems: string[] = [];
+
+        if (this.isCommon(password)) {
+            problems.push('This is one of the most common passwords - choose something else');
+        }
+        if (password.length < SECURITY_CONFIG.PASSWORD_MIN_LENGTH) {
+            problems.push(`Use at least ${SECURITY_CONFIG.PASSWORD_MIN_LENGTH} characters`);
+        }
+        if (entropy < SECURITY_CONFIG.PASSWORD_MIN_ENTROPY) {
+            problems.push('Too easy to guess - make it longer or mix in other kinds of characters');
+        }
+
+        const score = problems.length > 0
+            ? (entropy < 28 ? 0 : 1)
+            : (entropy < 60 ? 2 : (entropy < 80 ? 3 : 4));
+
+        return { entropy: Math.round(entropy), score, label: LABELS[score], problems, acceptable: problems.length === 0 };
+    }
+
+    // Character pool size times length, counting repeats and runs (aaa, abc, 321) as a single character
+    private static estimateEntropy(password: string): number {
+        const chars = Array.from(password);
+        if (chars.length === 0) return 0;
+
+        let pool = 0;
+        if (/[a-z]/.test(password)) pool += 26;
+        if (/[A-Z]/.test(password)) pool += 26;
+        if (/[0-9]/.test(password)) pool += 10;
+        if (/[^a-zA-Z0-9]/.test(password)) pool += 33;
+        if (chars.some(char => char.charCodeAt(0) > 127)) pool += 100;
+
+        let effectiveLength = 1;
+        for (let i = 1; i < chars.length; i++) {
+            const step = chars[i].charCodeAt(0) - chars[i - 1].charCodeAt(0);
+            const previousStep = i > 1 ? chars[i - 1].charCodeAt(0) - chars[i - 2].charCodeAt(0) : null;
+            const repeats = step === 0;
+            const continuesRun = Math.abs(step) === 1 && step === previousStep;
+            if (!repeats && !continuesRun) effectiveLength++;
+        }
+
+        return effectiveLength * Math.log2(pool);
+    }
+
+    private static isCommon(password: string): boolean {
+        const core = password.toLowerCase().replace(/[^a-z]+$/, '').replace(/^[^a-z]+/, '');
+        const normalised = Array.from(core).map(char => LEET[char] || char).join('');
+        return COMMON_PASSWORDS.has(normalised);
+    }
+}
@@ -0,0 +1,47 @@
+import { RecipientCrypto } from './recipientCrypto';
+
+async function createRecipient(): Promise<{ keyPair: CryptoKeyPair; publicKey: string; recipientId: string }> {
+    const keyPair = await RecipientCrypto.generateIdentity();
+    const publicKey = await RecipientCrypto.exportPublicKey(keyPair.publicKey);
+    return { keyPair, publicKey, recipientId: await RecipientCrypto.recipientIdOf(keyPair.publicKey) };
+}
+
+async function rawKey(key: CryptoKey): Promise<number[]> {
+    return Array.from(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+describe('RecipientCrypto', () => {
+    let fileKey: CryptoKey;
+
+    beforeAll(async () => {
+        fileKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    });
+
+    test('a wrapped file key unwraps with the recipient private key', async () => {
+        const recipient = await createRecipient();
+        const wrap = await RecipientCrypto.wrapForRecipient(fileKey, recipient.publicKey);
+
+        expect(wrap.recipientId).toBe(recipient.recipientId);
+        expect(wrap.recipientId).toMatch(/^[0-9a-f]{16}$/);
+        expect(await rawKey(await RecipientCrypto.unwrapAsRecipient(wrap, recipient.keyPair.privateKey))).toEqual(await rawKey(fileKey));
+    });
+
+    test('a wrap addressed to another recipient ID, or opened with another key, is rejected', async () => {
+        const recipient = await createRecipient();
+        const other = await createRecipient();
+        const wrap = await RecipientCrypto.wrapForRecipient(fileKey, recipient.publicKey);
+
+        // The recipient ID is bound into the wrap, so it cannot be relabelled
+        await expect(RecipientCrypto.unwrapAsRecipient({ ...wrap, recipientId: other.recipientId }, recipient.keyPair.privateKey))
+            .rejects.toThrow('the manifest is damaged');
+        await expect(RecipientCrypto.unwrapAsRecipient(wrap, other.keyPair.privateKey)).rejects.toThrow('the manifest is damaged');
+    });
+
+    test('public keys are checked on import', async () => {
+        const recipient = await createRecipient();
+
+        expect((await RecipientCrypto.importPublicKey(`  ${recipient.publicKey}\n`)).recipientId).toBe(recipient.recipientId);
+        await expect(RecipientCrypto.importPublicKey('ssh-ed25519 AAAA')).rejects.toThrow('Not a recipient public key');
+        await expect(RecipientCrypto.importPublicKey('sfs-pub-v1:AAAA')).rejects.toThrow('damaged');
+    });
+});
@@ -0,0 +1,113 @@
+// utils/recipientCrypto.ts - Wrapping file keys for other people's ECDH (P-256) public keys
+import { RecipientWrap } from '../types/fileMetadata';
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes } from './encoding';
+
+const PUBLIC_KEY_PREFIX = 'sfs-pub-v1:';
+const WRAP_INFO = new TextEncoder().encode('sfs-recipient-wrap-v1');
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+export class RecipientCrypto {
+    // New identity key pair; the private key is extractable so it can be stored wrapped
+    static async generateIdentity(): Promise<CryptoKeyPair> {
+        return crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']) as Promise<CryptoKeyPair>;
+    }
+
+    // Shareable text form of a public key: sfs-pub-v1:<base64 of the raw uncompressed point>
+    static async exportPublicKey(publicKey: CryptoKey): Promise<string> {
+        const raw = new Uint8Array(await crypto.subtle.exportKey('raw', publicKey));
+        return PUBLIC_KEY_PREFIX + bytesToBase64(raw);
+    }
+
+    static async importPublicKey(text: string): Promise<{ publicKey: CryptoKey; recipientId: string }> {
+        const trimmed = text.trim();
+        if (!trimmed.startsWith(PUBLIC_KEY_PREFIX)) {
+            throw new Error('Not a recipient public key (expected it to start with "sfs-pub-v1:")');
+        }
+
+        const raw = base64ToBytes(trimmed.substring(PUBLIC_KEY_PREFIX.length));
+        let publicKey: CryptoKey;
+        try {
+            publicKey = await crypto.subtle.importKey('raw', raw as BufferSource, ECDH_PARAMS, true, []);
+        } catch (error) {
+            throw new Error('Recipient public key is damaged - ask the recipient to send it again');
+        }
+
+        return { publicKey, recipientId: await this.calculateRecipientId(raw) };
+    }
+
+    // Recipient ID: first 8 bytes of the SHA-256 of the raw public key, as hex
+    static async calculateRecipientId(rawPublicKey: Uint8Array): Promise<string> {
+        const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', rawPublicKey as BufferSource));
+        return bytesToHex(hash).substring(0, 16);
+    }
+
+    static async recipientIdOf(publicKey: CryptoKey): Promise<string> {
+        return this.calculateRecipientId(new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)));
+    }
+
+    // Wrap a file key for a recipient: ephemeral ECDH with their public key, HKDF to an
+    // AES-256-GCM key, then AES-GCM key wrapping bound to the recipient ID
+    static async wrapForRecipient(fileKey: CryptoKey, recipientPublicKey: string): Promise<RecipientWrap> {
+        const { publicKey, recipientId } = await this.importPublicKey(recipientPublicKey);
+        const ephemeral = await this.generateIdentity();
+        const ephemeralRaw = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+        const wrappingKey = await this.deriveWrappingKey(ephemeral.privateKey, publicKey, ephemeralRaw, ['wrapKey']);
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const wrapped = await crypto.subtle.wrapKey('raw', fileKey, wrappingKey, {
+            name: 'AES-GCM',
+            iv,
+            additionalData: hexToBytes(recipientId) as BufferSource
+        });
+
+        const combined = new Uint8Array(iv.length + wrapped.byteLength);
+        combined.set(iv, 0);
+        combined.set(new Uint8Array(wrapped), iv.length);
+
+        return {
+            recipientId,
+            ephemeralPublicKey: bytesToBase64(ephemeralRaw),
+            wrappedKey: bytesToHex(combined)
+        };
+    }
+
+    // Unwrap a file key addressed to us with our identity private key
+    static async unwrapAsRecipient(wrap: RecipientWrap, privateKey: CryptoKey): Promise<CryptoKey> {
+        try {
+            const ephemeralRaw = base64ToBytes(wrap.ephemeralPublicKey);
+            const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralRaw as BufferSource, ECDH_PARAMS, false, []);
+            const wrappingKey = await this.deriveWrappingKey(privateKey, ephemeralKey, ephemeralRaw, ['unwrapKey']);
+
+            const wrapped = hexToBytes(wrap.wrappedKey);
+            return await crypto.subtle.unwrapKey(
+                'raw',
+                wrapped.slice(12),
+                wrappingKey,
+                { name: 'AES-GCM', iv: wrapped.slice(0, 12), additionalData: hexToBytes(wrap.recipientId) as BufferSource },
+                { name: 'AES-GCM', length: 256 },
+                true,
+                ['encrypt', 'decrypt']
+            );
+        } catch (error) {
+            throw new Error('Failed to unwrap the file key shared with you - the manifest is damaged');
+        }
+    }
+
+    private static async deriveWrappingKey(
+        privateKey: CryptoKey,
+        publicKey: CryptoKey,
+        ephemeralRaw: Uint8Array,
+        usages: KeyUsage[]
+    ): Promise<CryptoKey> {
+        const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+        const hkdfKey = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+
+        return crypto.subtle.deriveKey(
+            { name: 'HKDF', hash: 'SHA-256', salt: ephemeralRaw as BufferSource, info: WRAP_INFO },
+            hkdfKey,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            usages
+        );
+    }
+}
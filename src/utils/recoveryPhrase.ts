@@ -0,0 +1,45 @@
+// utils/recoveryPhrase.ts - BIP39 mnemonic encoding of the 256-bit master key
+import { entropyToMnemonic, mnemonicToEntropy } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+
+// 256 bits of key + 8 checksum bits = 24 words of 11 bits each
+const WORD_COUNT = 24;
+
+export class RecoveryPhrase {
+    // The key as 24 English BIP39 words (the last word carries the checksum)
+    static fromKey(keyMaterial: Uint8Array): string {
+        if (keyMaterial.length !== 32) {
+            throw new Error(`Recovery phrases encode 32-byte keys, got ${keyMaterial.length} bytes`);
+        }
+        return entropyToMnemonic(keyMaterial, wordlist);
+    }
+
+    // Rebuild the exact key from the words. Errors say which word is unknown, or that the
+    // checksum failed (a valid but wrong word, or words out of order).
+    static toKey(phrase: string): Uint8Array {
+        const words = this.normalize(phrase).split(' ').filter(word => word.length > 0);
+
+        if (words.length !== WORD_COUNT) {
+            throw new Error(`Recovery phrase must have ${WORD_COUNT} words, got ${words.length}`);
+        }
+
+        const unknown = words
+            .map((word, index) => ({ word, index }))
+            .filter(({ word }) => !wordlist.includes(word));
+        if (unknown.length > 0) {
+            throw new Error('Unknown word' + (unknown.length > 1 ? 's' : '') + ': ' +
+                unknown.map(({ word, index }) => `#${index + 1} "${word}"`).join(', '));
+        }
+
+        try {
+            return mnemonicToEntropy(words.join(' '), wordlist);
+        } catch (error) {
+            throw new Error('Recovery phrase checksum failed - a word is wrong or the words are out of order');
+        }
+    }
+
+    // Lowercase; numbering and punctuation copied from a printed list become spaces
+    private static normalize(phrase: string): string {
+        return phrase.normalize('NFKD').toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+    }
+}
@@ -0,0 +1,48 @@
+import { GaloisField } from './galoisField';
+import { SecretShare, ShamirSecretSharing } from './shamir';
+
+describe('ShamirSecretSharing', () => {
+    test('combines hand-computed shares of a known polynomial', () => {
+        // f(x) = 0x42 + 0x07·x over GF(256): f(1) = 0x45, f(2) = 0x4c, f(3) = 0x4b
+        expect([1, 2, 3].map(x => 0x42 ^ GaloisField.mul(0x07, x))).toEqual([0x45, 0x4c, 0x4b]);
+        const shares: SecretShare[] = [
+            { index: 1, threshold: 2, data: new Uint8Array([0x45]) },
+            { index: 2, threshold: 2, data: new Uint8Array([0x4c]) },
+            { index: 3, threshold: 2, data: new Uint8Array([0x4b]) }
+        ];
+
+        expect(Array.from(ShamirSecretSharing.combine([shares[0], shares[1]]))).toEqual([0x42]);
+        expect(Array.from(ShamirSecretSharing.combine([shares[2], shares[0]]))).toEqual([0x42]);
+        expect(Array.from(ShamirSecretSharing.combine([shares[1], shares[2]]))).toEqual([0x42]);
+    });
+
+    test('any threshold of the shares round-trips the secret', () => {
+        const secret = crypto.getRandomValues(new Uint8Array(32));
+        const shares = ShamirSecretSharing.split(secret, 5, 3);
+
+        for (const subset of [[0, 1, 2], [0, 2, 4], [4, 3, 1], [1, 2, 3, 4]]) {
+            expect(Array.from(ShamirSecretSharing.combine(subset.map(i => shares[i])))).toEqual(Array.from(secret));
+        }
+    });
+
+    test('threshold - 1 shares do not reveal the secret', () => {
+        const secret = crypto.getRandomValues(new Uint8Array(32));
+        const shares = ShamirSecretSharing.split(secret, 5, 3);
+
+        expect(() => ShamirSecretSharing.combine(shares.slice(0, 2))).toThrow('Not enough shares');
+        expect(() => ShamirSecretSharing.combine([shares[0], shares[0], shares[1]])).toThrow('have 2 distinct, need 3');
+
+        // Lying about the threshold only interpolates a different polynomial
+        const forged = shares.slice(0, 2).map(share => ({ ...share, threshold: 2 }));
+        expect(Array.from(ShamirSecretSharing.combine(forged))).not.toEqual(Array.from(secret));
+    });
+
+    test('rejects invalid parameters and mixed splits', () => {
+        expect(() => ShamirSecretSharing.split(new Uint8Array(4), 3, 1)).toThrow('Invalid share parameters');
+        expect(() => ShamirSecretSharing.split(new Uint8Array(4), 2, 3)).toThrow('Invalid share parameters');
+
+        const a = ShamirSecretSharing.split(new Uint8Array(4), 3, 2);
+        const b = ShamirSecretSharing.split(new Uint8Array(4), 3, 3);
+        expect(() => ShamirSecretSharing.combine([a[0], b[1], b[2]])).toThrow('different splits');
+    });
+});
@@ -0,0 +1,89 @@
+// utils/shamir.ts - Shamir secret sharing over GF(256), byte by byte
+import { GaloisField } from './galoisField';
+
+export interface SecretShare {
+    index: number;        // x coordinate, 1..255 (0 would be the secret itself)
+    threshold: number;    // Shares needed to rebuild the secret
+    data: Uint8Array;     // One y value per secret byte
+}
+
+export class ShamirSecretSharing {
+    // Split `secret` into `shareCount` shares, any `threshold` of which rebuild it.
+    // Each byte gets its own random polynomial of degree threshold - 1 with the byte as constant term.
+    static split(secret: Uint8Array, shareCount: number, threshold: number): SecretShare[] {
+        if (!Number.isInteger(threshold) || !Number.isInteger(shareCount) || threshold < 2 || shareCount < threshold || shareCount > 255) {
+            throw new Error(`Invalid share parameters: ${threshold} of ${shareCount} (need 2 <= threshold <= shares <= 255)`);
+        }
+
+        const shares: SecretShare[] = Array.from({ length: shareCount }, (_, i) => ({
+            index: i + 1,
+            threshold,
+            data: new Uint8Array(secret.length)
+        }));
+
+        const coefficients = new Uint8Array(threshold);
+        for (let b = 0; b < secret.length; b++) {
+            coefficients[0] = secret[b];
+            crypto.getRandomValues(coefficients.subarray(1));
+
+            for (const share of shares) {
+                share.data[b] = this.evaluate(coefficients, share.index);
+            }
+        }
+        coefficients.fill(0);
+
+        return shares;
+    }
+
+    // Rebuild the secret from at least `threshold` distinct shares (Lagrange interpolation at x = 0)
+    static combine(shares: SecretShare[]): Uint8Array {
+        if (shares.length === 0) {
+            throw new Error('No shares given');
+        }
+
+        const threshold = shares[0].threshold;
+        const length = shares[0].data.length;
+        if (shares.some(share => share.threshold !== threshold || share.data.length !== length)) {
+            throw new Error('Shares come from different splits');
+        }
+
+        const unique = new Map<number, SecretShare>();
+        shares.forEach(share => unique.set(share.index, share));
+        if (unique.size < threshold) {
+            throw new Error(`Not enough shares: have ${unique.size} distinct, need ${threshold}`);
+        }
+
+        const used = Array.from(unique.values()).slice(0, threshold);
+        const weights = used.map(share => this.lagrangeWeightAtZero(share.index, used.map(other => other.index)));
+        const secret = new Uint8Array(length);
+
+        for (let b = 0; b < length; b++) {
+            let value = 0;
+            for (let i = 0; i < used.length; i++) {
+                value ^= GaloisField.mul(used[i].data[b], weights[i]);
+            }
+            secret[b] = value;
+        }
+
+        return secret;
+    }
+
+    // Horner evaluation of the polynomial at x
+    private static evaluate(coefficients: Uint8Array, x: number): number {
+        let result = 0;
+        for (let i = coefficients.length - 1; i >= 0; i--) {
+            result = GaloisField.mul(result, x) ^ coefficients[i];
+        }
+        return result;
+    }
+
+    // Lagrange basis polynomial for x_i evaluated at 0: prod over j != i of x_j / (x_j - x_i)
+    private static lagrangeWeightAtZero(xi: number, xs: number[]): number {
+        let weight = 1;
+        for (const xj of xs) {
+            if (xj === xi) continue;
+            weight = GaloisField.mul(weight, GaloisField.div(xj, xj ^ xi));
+        }
+        return weight;
+    }
+}
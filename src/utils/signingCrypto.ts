@@ -0,0 +1,51 @@
+// utils/signingCrypto.ts - ECDSA (P-256) signing keys for authenticating who produced a manifest
+import { base64ToBytes, bytesToBase64, bytesToHex } from './encoding';
+
+const PUBLIC_KEY_PREFIX = 'sfs-sig-v1:';
+const ECDSA_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export class SigningCrypto {
+    // New signing key pair; the private key is extractable so it can be stored wrapped
+    static async generateKeyPair(): Promise<CryptoKeyPair> {
+        return crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+    }
+
+    // Shareable text form of a public key: sfs-sig-v1:<base64 of the raw uncompressed point>
+    static async exportPublicKey(publicKey: CryptoKey): Promise<string> {
+        const raw = new Uint8Array(await crypto.subtle.exportKey('raw', publicKey));
+        return PUBLIC_KEY_PREFIX + bytesToBase64(raw);
+    }
+
+    static async importPublicKey(text: string): Promise<{ publicKey: CryptoKey; signerId: string }> {
+        const trimmed = text.trim();
+        if (!trimmed.startsWith(PUBLIC_KEY_PREFIX)) {
+            throw new Error('Not a signing public key (expected it to start with "sfs-sig-v1:")');
+        }
+
+        const raw = base64ToBytes(trimmed.substring(PUBLIC_KEY_PREFIX.length));
+        let publicKey: CryptoKey;
+        try {
+            publicKey = await crypto.subtle.importKey('raw', raw as BufferSource, ECDSA_PARAMS, true, ['verify']);
+        } catch (error) {
+            throw new Error('Signing public key is damaged - ask the signer to send it again');
+        }
+
+        // Same fingerprint as recipient IDs: first 8 bytes of the SHA-256 of the raw point
+        const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', raw as BufferSource));
+        return { publicKey, signerId: bytesToHex(hash).substring(0, 16) };
+    }
+
+    static async sign(data: Uint8Array, privateKey: CryptoKey): Promise<string> {
+        const signature = await crypto.subtle.sign(SIGN_PARAMS, privateKey, data as BufferSource);
+        return bytesToBase64(new Uint8Array(signature));
+    }
+
+    static async verify(data: Uint8Array, signature: string, publicKey: CryptoKey): Promise<boolean> {
+        try {
+            return await crypto.subtle.verify(SIGN_PARAMS, publicKey, base64ToBytes(signature) as BufferSource, data as BufferSource);
+        } catch (error) {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,76 @@
+// utils/workingKeyStore.ts - Non-extractable master key objects persisted in IndexedDB (structured clone)
+export interface WorkingKey {
+    keyId: string;
+    encryptionKey: CryptoKey;   // AES-GCM: encrypt, decrypt, wrapKey, unwrapKey
+    derivationKey: CryptoKey;   // HKDF view of the same key material
+    storedAt: number;
+}
+
+export class WorkingKeyStore {
+    private static readonly DB_NAME = 'SecureFileSplitterKeystore';
+    private static readonly DB_VERSION = 1;
+    private static readonly STORE_NAME = 'workingKeys';
+    private static readonly RECORD_ID = 'master';
+
+    static async get(): Promise<WorkingKey | null> {
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readonly');
+            const result = await this.request<WorkingKey | undefined>(tx.objectStore(this.STORE_NAME).get(this.RECORD_ID));
+            return result || null;
+        } finally {
+            db.close();
+        }
+    }
+
+    // The CryptoKey objects are stored as they are - the browser keeps the key material,
+    // and since they are non-extractable it can never be read back out
+    static async put(workingKey: WorkingKey): Promise<void> {
+        if (workingKey.encryptionKey.extractable || workingKey.derivationKey.extractable) {
+            throw new Error('Only non-extractable keys can be stored in the hardened keystore');
+        }
+
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readwrite');
+            await this.request(tx.objectStore(this.STORE_NAME).put(workingKey, this.RECORD_ID));
+        } finally {
+            db.close();
+        }
+    }
+
+    static async clear(): Promise<void> {
+        const db = await this.openDatabase();
+        try {
+            const tx = db.transaction([this.STORE_NAME], 'readwrite');
+            await this.request(tx.objectStore(this.STORE_NAME).clear());
+        } finally {
+            db.close();
+        }
+    }
+
+    private static openDatabase(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('Keystore open blocked'));
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+                    db.createObjectStore(this.STORE_NAME);
+                }
+            };
+
+            request.onsuccess = () => resolve(request.result);
+        });
+    }
+
+    private static request<T>(request: IDBRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}